@@ -0,0 +1,58 @@
+import { Badge, Button, Card, CardContent, CardDescription, CardHeader, CardTitle } from "@szum-tech/design-system";
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { CsrfTokenField } from "~/features/auth/components/csrf-token-field";
+import { getSession, getSignInUrl } from "~/lib/auth";
+
+export const metadata: Metadata = {
+  robots: { follow: false, index: false },
+  title: "Account"
+};
+
+/**
+ * Example of a protected page. `proxy.ts` already redirects anonymous visitors of `AUTH_PROTECTED_PATHS`,
+ * the page checks the session again as the proxy only sees the cookie.
+ */
+export default async function AccountPage() {
+  const session = await getSession();
+  if (!session) {
+    redirect(getSignInUrl("/account"));
+  }
+
+  const { user } = session;
+
+  return (
+    <main className="container mx-auto flex min-h-screen max-w-md items-center px-4">
+      <Card className="w-full">
+        <CardHeader>
+          <CardTitle className="text-heading-h3">
+            <h1>Account</h1>
+          </CardTitle>
+          <CardDescription>Signed in as {user.name ?? user.email}</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4">
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+            <dt className="text-muted-foreground">Email</dt>
+            <dd data-testid="account-email">{user.email}</dd>
+            <dt className="text-muted-foreground">Signed in with</dt>
+            <dd>{session.provider}</dd>
+            <dt className="text-muted-foreground">Roles</dt>
+            <dd className="flex gap-1">
+              {user.roles.map((role) => (
+                <Badge key={role} variant="secondary">
+                  {role}
+                </Badge>
+              ))}
+            </dd>
+          </dl>
+          <form action="/api/auth/signout" method="post">
+            <CsrfTokenField />
+            <Button type="submit" variant="outline">
+              Sign out
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
@@ -0,0 +1,88 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { env } from "~/data/env/server";
+import { hasBearerToken } from "~/lib/bearer-token";
+import { NotFoundError, UnauthorizedError, ValidationError } from "~/lib/errors";
+import { ALL_MODULES, LOG_LEVEL_NAMES } from "~/lib/log-levels";
+import { getRequestLogger, logLevels } from "~/lib/logger";
+import { withRouteHandler } from "~/lib/route-handler";
+
+const ROUTE = "/api/admin/log-levels";
+const DEFAULT_TTL_SECONDS = 15 * 60;
+const MAX_TTL_SECONDS = 24 * 60 * 60;
+
+const overrideSchema = z.object({
+  level: z.enum(LOG_LEVEL_NAMES),
+  /** `module` context of the loggers to change, `*` for all of them. */
+  module: z.string().trim().min(1).max(100).default(ALL_MODULES),
+  ttlSeconds: z.number().int().positive().max(MAX_TTL_SECONDS).default(DEFAULT_TTL_SECONDS)
+});
+
+const adminLogger = () => getRequestLogger().withContext({ module: "log-levels" });
+
+const json = (body: unknown) => NextResponse.json(body, { headers: { "Cache-Control": "no-store" } });
+
+/**
+ * Requires `LOG_ADMIN_TOKEN` as a bearer token. Without a configured token the route always rejects.
+ */
+function authorize(request: NextRequest) {
+  if (!hasBearerToken(request, env.LOG_ADMIN_TOKEN)) {
+    throw new UnauthorizedError("Changing log levels requires a valid token");
+  }
+}
+
+/**
+ * Lists the configured levels and the active runtime overrides.
+ */
+export const GET = withRouteHandler(
+  async (request) => {
+    authorize(request);
+
+    return json(logLevels.getState());
+  },
+  { route: ROUTE }
+);
+
+/**
+ * Overrides the level of a module (or all modules) until `ttlSeconds` elapsed, 15 minutes by default.
+ *
+ * @example
+ * curl -X PUT /api/admin/log-levels -H "Authorization: Bearer $LOG_ADMIN_TOKEN" \
+ *   -d '{ "module": "health", "level": "debug", "ttlSeconds": 600 }'
+ */
+export const PUT = withRouteHandler(
+  async (request) => {
+    authorize(request);
+
+    const result = overrideSchema.safeParse(await request.json().catch(() => undefined));
+    if (!result.success) {
+      throw ValidationError.fromZodError(result.error, "Invalid override");
+    }
+
+    const { level, module, ttlSeconds } = result.data;
+    const override = logLevels.setOverride({ level, module, ttlMs: ttlSeconds * 1000 });
+    // Logged at warn so the change is visible whatever the current levels are
+    adminLogger().withMetadata({ override }).warn("Log level override set");
+
+    return json(override);
+  },
+  { route: ROUTE }
+);
+
+/**
+ * Reverts a module (`?module=api`, all modules by default) to its configured level before the TTL elapsed.
+ */
+export const DELETE = withRouteHandler(
+  async (request) => {
+    authorize(request);
+
+    const module = request.nextUrl.searchParams.get("module") ?? ALL_MODULES;
+    if (!logLevels.clearOverride(module)) {
+      throw new NotFoundError(`No override for module ${module}`);
+    }
+
+    adminLogger().withMetadata({ override: { module } }).warn("Log level override cleared");
+    return new Response(null, { status: 204 });
+  },
+  { route: ROUTE }
+);
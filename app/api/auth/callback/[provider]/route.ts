@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { toSessionUser, upsertOAuthUser } from "~/features/auth/server/db/users";
+import { getAuthOrigin, SIGN_IN_PATH, startSession } from "~/lib/auth";
+import { ConflictError, NotFoundError } from "~/lib/errors";
+import { getRequestLogger } from "~/lib/logger";
+import { exchangeAuthorizationCode, getOAuthProvider, OAUTH_STATE_COOKIE, unsealAuthorizationState } from "~/lib/oauth";
+import { createRouteHandler } from "~/lib/route-handler";
+
+/**
+ * Error codes shown by the sign-in page, see `app/sign-in/page.tsx`.
+ */
+type SignInError = "AccessDenied" | "AccountNotLinked" | "OAuthCallback" | "OAuthState";
+
+/**
+ * Completes signing in with an OAuth provider: checks the state, exchanges the code for an access token,
+ * loads the profile and starts a session. Failures redirect back to the sign-in page with an error code,
+ * the details are logged.
+ */
+export const GET = createRouteHandler({
+  handler: async ({ params, query, request }) => {
+    const authLogger = getRequestLogger().withContext({ module: "auth", provider: params.provider });
+    const origin = getAuthOrigin(request);
+    const provider = getOAuthProvider(params.provider);
+    if (!provider) {
+      throw new NotFoundError(`The sign-in provider ${params.provider} is not configured`);
+    }
+
+    const saved = await unsealAuthorizationState(request.cookies.get(OAUTH_STATE_COOKIE)?.value);
+    const redirect = (url: string) => {
+      const response = NextResponse.redirect(new URL(url, origin));
+      response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: "/api/auth/callback" });
+      return response;
+    };
+    const fail = (error: SignInError) =>
+      redirect(`${SIGN_IN_PATH}?${new URLSearchParams({ callbackUrl: saved?.callbackUrl ?? "/", error })}`);
+
+    if (query.error) {
+      authLogger.withMetadata({ error: query.error }).warn("Provider did not authorize the sign-in");
+      return fail("AccessDenied");
+    }
+    if (!saved || saved.provider !== provider.id || saved.state !== query.state || !query.code) {
+      authLogger.warn("Sign-in callback does not match a sign-in in progress");
+      return fail("OAuthState");
+    }
+
+    try {
+      const accessToken = await exchangeAuthorizationCode(provider, {
+        code: query.code,
+        codeVerifier: saved.codeVerifier,
+        redirectUri: `${origin}/api/auth/callback/${provider.id}`
+      });
+      const user = await upsertOAuthUser(provider.id, await provider.profile(accessToken));
+      await startSession(toSessionUser(user), provider.id);
+      authLogger.withMetadata({ userId: user.id }).info("User signed in");
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        authLogger.withError(error).warn("Provider account is not linked to the existing user");
+        return fail("AccountNotLinked");
+      }
+
+      authLogger.withError(error).error("Sign-in callback failed");
+      return fail("OAuthCallback");
+    }
+
+    return redirect(saved.callbackUrl);
+  },
+  params: z.object({ provider: z.string() }),
+  query: z.object({
+    code: z.string().optional(),
+    error: z.string().optional(),
+    state: z.string().optional()
+  }),
+  route: "/api/auth/callback/[provider]"
+});
@@ -0,0 +1,20 @@
+import { z } from "zod";
+import { getSession } from "~/lib/auth";
+import { createRouteHandler } from "~/lib/route-handler";
+import { sessionUserSchema } from "~/lib/session";
+
+/**
+ * Returns the signed-in user, or `null`, for client components and other clients of the API.
+ */
+export const GET = createRouteHandler({
+  handler: async () => {
+    const session = await getSession();
+
+    return session
+      ? { expiresAt: new Date(session.expiresAt).toISOString(), user: session.user }
+      : { expiresAt: null, user: null };
+  },
+  headers: { "Cache-Control": "no-store" },
+  response: z.object({ expiresAt: z.iso.datetime().nullable(), user: sessionUserSchema.nullable() }),
+  route: "/api/auth/session"
+});
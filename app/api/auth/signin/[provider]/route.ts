@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getAuthOrigin, sanitizeCallbackUrl, shouldUseSecureCookies } from "~/lib/auth";
+import { NotFoundError } from "~/lib/errors";
+import {
+  createAuthorizationRequest,
+  getAuthorizationUrl,
+  getOAuthProvider,
+  OAUTH_STATE_COOKIE,
+  OAUTH_STATE_MAX_AGE,
+  sealAuthorizationState
+} from "~/lib/oauth";
+import { createRouteHandler } from "~/lib/route-handler";
+
+/**
+ * Starts signing in with an OAuth provider: remembers the sign-in in an encrypted cookie and redirects
+ * to the provider's consent screen, which redirects back to `/api/auth/callback/[provider]`.
+ */
+export const GET = createRouteHandler({
+  handler: async ({ params, query, request }) => {
+    const provider = getOAuthProvider(params.provider);
+    if (!provider) {
+      throw new NotFoundError(`The sign-in provider ${params.provider} is not configured`);
+    }
+
+    const { codeChallenge, codeVerifier, state } = createAuthorizationRequest();
+    const redirectUri = `${getAuthOrigin(request)}/api/auth/callback/${provider.id}`;
+
+    const response = NextResponse.redirect(getAuthorizationUrl(provider, { codeChallenge, redirectUri, state }));
+    response.cookies.set(
+      OAUTH_STATE_COOKIE,
+      await sealAuthorizationState({
+        callbackUrl: sanitizeCallbackUrl(query.callbackUrl),
+        codeVerifier,
+        provider: provider.id,
+        state
+      }),
+      {
+        httpOnly: true,
+        maxAge: OAUTH_STATE_MAX_AGE,
+        path: "/api/auth/callback",
+        // Lax cookies are sent along the top-level redirect back from the provider
+        sameSite: "lax",
+        secure: shouldUseSecureCookies(request.headers.get("x-forwarded-proto") ?? request.nextUrl.protocol)
+      }
+    );
+
+    return response;
+  },
+  params: z.object({ provider: z.string() }),
+  query: z.object({ callbackUrl: z.string().optional() }),
+  route: "/api/auth/signin/[provider]"
+});
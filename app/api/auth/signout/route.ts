@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { endSession, getAuthOrigin } from "~/lib/auth";
+import { withRouteHandler } from "~/lib/route-handler";
+
+/**
+ * Signs the user out and returns to the home page. Only `POST` is accepted, so links and prefetching
+ * cannot sign anyone out; `proxy.ts` rejects posts of other sites and forms without the CSRF token.
+ */
+export const POST = withRouteHandler(
+  async (request) => {
+    await endSession();
+
+    // 303 makes the browser follow with a GET
+    return NextResponse.redirect(new URL("/", getAuthOrigin(request)), 303);
+  },
+  { route: "/api/auth/signout" }
+);
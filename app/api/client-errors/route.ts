@@ -0,0 +1,56 @@
+import { getRelease } from "~/data/env/app";
+import { clientErrorReportSchema, MAX_CLIENT_ERROR_REPORT_BYTES } from "~/lib/client-errors";
+import { AppError, RateLimitedError, ValidationError } from "~/lib/errors";
+import { getRequestLogger } from "~/lib/logger";
+import { createRateLimiter, getClientIp } from "~/lib/rate-limit";
+import { readLimitedBody, withRouteHandler } from "~/lib/route-handler";
+
+/**
+ * Reports accepted per client IP and minute.
+ */
+const rateLimit = createRateLimiter({ limit: 20, windowMs: 60_000 });
+
+/**
+ * Ingests error reports sent by `reportClientError` from the error boundaries and global error listeners,
+ * and writes them to the server log with the release and user agent.
+ */
+export const POST = withRouteHandler(
+  async (request) => {
+    const clientErrorLogger = getRequestLogger().withContext({ module: "client-errors" });
+
+    const { allowed, resetAt } = rateLimit(getClientIp(request));
+    if (!allowed) {
+      throw new RateLimitedError("Too many reports", { retryAfterSeconds: (resetAt - Date.now()) / 1000 });
+    }
+
+    const body = await readLimitedBody(request, MAX_CLIENT_ERROR_REPORT_BYTES);
+    if (body === null) {
+      throw new AppError("Report too large", { code: "content_too_large", status: 413, title: "Content Too Large" });
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body);
+    } catch (error) {
+      throw new ValidationError("Invalid JSON", { cause: error });
+    }
+
+    const result = clientErrorReportSchema.safeParse(payload);
+    if (!result.success) {
+      throw ValidationError.fromZodError(result.error, "Invalid report");
+    }
+
+    const { url, ...clientError } = result.data;
+    clientErrorLogger
+      .withMetadata({
+        clientError,
+        pageUrl: url,
+        release: getRelease().version,
+        userAgent: request.headers.get("user-agent")
+      })
+      .error("Client error reported");
+
+    return new Response(null, { status: 204 });
+  },
+  { route: "/api/client-errors" }
+);
@@ -0,0 +1,52 @@
+import { cspReportSchema, MAX_CSP_REPORT_BYTES } from "~/lib/csp-report";
+import { AppError, RateLimitedError, ValidationError } from "~/lib/errors";
+import { getRequestLogger } from "~/lib/logger";
+import { createRateLimiter, getClientIp } from "~/lib/rate-limit";
+import { readLimitedBody, withRouteHandler } from "~/lib/route-handler";
+
+/**
+ * Reports accepted per client IP and minute. A page breaking the policy reports every blocked resource,
+ * so the limit is higher than the one of `/api/client-errors`.
+ */
+const rateLimit = createRateLimiter({ limit: 60, windowMs: 60_000 });
+
+/**
+ * Ingests the Content Security Policy violations browsers report for the policy set by `proxy.ts`, in the
+ * legacy `report-uri` format or the Reporting API one, and writes them to the server log.
+ */
+export const POST = withRouteHandler(
+  async (request) => {
+    const cspLogger = getRequestLogger().withContext({ module: "csp" });
+
+    const { allowed, resetAt } = rateLimit(getClientIp(request));
+    if (!allowed) {
+      throw new RateLimitedError("Too many reports", { retryAfterSeconds: (resetAt - Date.now()) / 1000 });
+    }
+
+    const body = await readLimitedBody(request, MAX_CSP_REPORT_BYTES);
+    if (body === null) {
+      throw new AppError("Report too large", { code: "content_too_large", status: 413, title: "Content Too Large" });
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body);
+    } catch (error) {
+      throw new ValidationError("Invalid JSON", { cause: error });
+    }
+
+    const result = cspReportSchema.safeParse(payload);
+    if (!result.success) {
+      throw ValidationError.fromZodError(result.error, "Invalid report");
+    }
+
+    for (const violation of result.data) {
+      cspLogger
+        .withMetadata({ userAgent: request.headers.get("user-agent"), violation })
+        .warn("Content Security Policy violation");
+    }
+
+    return new Response(null, { status: 204 });
+  },
+  { route: "/api/csp-report" }
+);
@@ -0,0 +1,36 @@
+import { sql } from "kysely";
+import { getDb } from "~/lib/db";
+import { registerHealthCheck } from "~/lib/health";
+
+/**
+ * Health probes registry for the `/api/health` routes.
+ *
+ * Features register their own probes (database, cache, downstream HTTP services) in a
+ * `server/health.ts` module and import it here, so every probe is known before the first health request:
+ *
+ * @example
+ * // features/example-feature/server/health.ts
+ * registerHealthCheck({
+ *   name: "example-api",
+ *   critical: false,
+ *   check: async (signal) => {
+ *     await fetch(url, { signal });
+ *   }
+ * });
+ *
+ * // app/api/health/probes.ts
+ * import "~/features/example-feature/server/health";
+ */
+
+registerHealthCheck({
+  check: () => ({ uptime: Math.round(process.uptime()) }),
+  modes: ["liveness"],
+  name: "process"
+});
+
+registerHealthCheck({
+  check: async () => {
+    await sql`select 1`.execute(getDb());
+  },
+  name: "database"
+});
@@ -0,0 +1,5 @@
+import { createHealthCheckHandler } from "~/lib/health";
+
+import "../probes";
+
+export const GET = createHealthCheckHandler("readiness", { route: "/api/health/ready" });
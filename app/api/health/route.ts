@@ -1,15 +1,5 @@
-import { NextResponse } from "next/server";
-import logger from "~/lib/logger";
+import { createHealthCheckHandler } from "~/lib/health";
 
-export function GET() {
-  logger.info("Health check endpoint called");
+import "./probes";
 
-  try {
-    const response = { status: "ok", timestamp: new Date().toISOString() };
-    logger.withMetadata({ response }).debug("Health check successful");
-    return NextResponse.json(response);
-  } catch (error) {
-    logger.withError(error).error("Health check failed");
-    return NextResponse.json({ status: "error" }, { status: 500 });
-  }
-}
+export const GET = createHealthCheckHandler("readiness", { route: "/api/health" });
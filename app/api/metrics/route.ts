@@ -0,0 +1,22 @@
+import { env } from "~/data/env/server";
+import { hasBearerToken } from "~/lib/bearer-token";
+import { UnauthorizedError } from "~/lib/errors";
+import { metricsRegistry } from "~/lib/metrics";
+import { withRouteHandler } from "~/lib/route-handler";
+
+/**
+ * Serves all metrics in the Prometheus text format. When `METRICS_TOKEN` is set, scrapers have to send it
+ * as a bearer token. Scrapes are counted in the HTTP metrics but left out of the access log.
+ */
+export const GET = withRouteHandler(
+  async (request) => {
+    if (env.METRICS_TOKEN && !hasBearerToken(request, env.METRICS_TOKEN)) {
+      throw new UnauthorizedError("Metrics require a valid token");
+    }
+
+    return new Response(await metricsRegistry.metrics(), {
+      headers: { "Cache-Control": "no-store", "Content-Type": metricsRegistry.contentType }
+    });
+  },
+  { accessLog: false, route: "/api/metrics" }
+);
@@ -0,0 +1,159 @@
+"use client";
+
+import {
+  Badge,
+  type BadgeVariant,
+  Button,
+  Checkbox,
+  Input,
+  Label,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@szum-tech/design-system";
+import { PauseIcon, PlayIcon } from "lucide-react";
+import Link from "next/link";
+import * as React from "react";
+import { LOG_LEVEL_NAMES } from "~/lib/log-levels";
+import type { LogEntry, LogFilter, LogLevelName } from "~/lib/log-viewer";
+
+const MAX_ENTRIES = 1000;
+
+const LEVEL_BADGE_VARIANTS: Record<LogLevelName, BadgeVariant> = {
+  debug: "secondary",
+  error: "error",
+  fatal: "error",
+  info: "primary",
+  trace: "outline",
+  warn: "warning"
+};
+
+export type LogViewerProps = {
+  entries: Array<LogEntry>;
+  filter: LogFilter;
+  /** Server-sent events endpoint streaming new entries matching the filter. */
+  streamUrl: string;
+};
+
+export function LogViewer({ entries: initialEntries, filter, streamUrl }: LogViewerProps) {
+  // Entries have no id of their own, so number them to key the rows; streamed entries get negative ids
+  const [entries, setEntries] = React.useState(() => initialEntries.map((entry, index) => ({ entry, id: index })));
+  const nextStreamedId = React.useRef(-1);
+  const [live, setLive] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!live) {
+      return;
+    }
+
+    const source = new EventSource(streamUrl);
+    source.addEventListener("entry", (event) => {
+      const entry = JSON.parse(event.data) as LogEntry;
+      const id = nextStreamedId.current--;
+      setEntries((current) => [{ entry, id }, ...current].slice(0, MAX_ENTRIES));
+    });
+
+    return () => source.close();
+  }, [live, streamUrl]);
+
+  return (
+    <main className="container mx-auto flex flex-col gap-6 px-4 py-8">
+      <div className="flex items-center justify-between gap-4">
+        <h1 className="font-bold text-2xl">Logs</h1>
+        <Button
+          onClick={() => setLive((current) => !current)}
+          startIcon={live ? <PauseIcon /> : <PlayIcon />}
+          variant={live ? "default" : "outline"}
+        >
+          {live ? "Pause live tail" : "Live tail"}
+        </Button>
+      </div>
+
+      <form action="/dev/logs" className="grid gap-4 md:grid-cols-3" method="get">
+        <fieldset className="flex flex-wrap items-center gap-4 md:col-span-3">
+          <legend className="sr-only">Levels</legend>
+          {LOG_LEVEL_NAMES.map((level) => (
+            <div className="flex items-center gap-2" key={level}>
+              <Checkbox
+                defaultChecked={filter.levels?.includes(level)}
+                id={`level-${level}`}
+                name="level"
+                value={level}
+              />
+              <Label htmlFor={`level-${level}`}>{level}</Label>
+            </div>
+          ))}
+        </fieldset>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="module">Module</Label>
+          <Input defaultValue={filter.module} id="module" name="module" placeholder="proxy" />
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="requestId">Request ID</Label>
+          <Input defaultValue={filter.requestId} id="requestId" name="requestId" />
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="search">Search</Label>
+          <Input defaultValue={filter.search} id="search" name="search" type="search" />
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="from">From</Label>
+          <Input defaultValue={filter.from} id="from" name="from" step={1} type="datetime-local" />
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="to">To</Label>
+          <Input defaultValue={filter.to} id="to" name="to" step={1} type="datetime-local" />
+        </div>
+        <div className="flex items-end gap-2">
+          <Button type="submit">Apply</Button>
+          <Button asChild variant="ghost">
+            <Link href="/dev/logs">Reset</Link>
+          </Button>
+        </div>
+      </form>
+
+      {entries.length === 0 ? (
+        <p className="text-muted-foreground">No log entries match the filter.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Time</TableHead>
+              <TableHead>Level</TableHead>
+              <TableHead>Module</TableHead>
+              <TableHead>Request ID</TableHead>
+              <TableHead>Message</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map(({ entry, id }) => (
+              <TableRow key={id}>
+                <TableCell className="whitespace-nowrap font-mono text-xs">{entry.timestamp}</TableCell>
+                <TableCell>
+                  <Badge variant={LEVEL_BADGE_VARIANTS[entry.level]}>{entry.level}</Badge>
+                </TableCell>
+                <TableCell>{entry.module}</TableCell>
+                <TableCell className="font-mono text-xs">
+                  {entry.requestId ? (
+                    <Link className="underline" href={`/dev/logs?requestId=${encodeURIComponent(entry.requestId)}`}>
+                      {entry.requestId}
+                    </Link>
+                  ) : null}
+                </TableCell>
+                <TableCell className="whitespace-normal">
+                  <details>
+                    <summary className="cursor-pointer">{entry.message}</summary>
+                    <pre className="mt-2 overflow-x-auto text-xs">{JSON.stringify(entry.data, null, 2)}</pre>
+                  </details>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </main>
+  );
+}
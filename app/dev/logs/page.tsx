@@ -0,0 +1,42 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { env } from "~/data/env/server";
+import { DEFAULT_LOG_FILE_PATH } from "~/lib/log-transports";
+import { isLogViewerEnabled, parseLogFilter, readLogEntries } from "~/lib/log-viewer";
+import { LogViewer } from "./log-viewer";
+
+export const metadata: Metadata = {
+  robots: { follow: false, index: false },
+  title: "Logs"
+};
+
+/**
+ * Development-only viewer of the log files written by the `file` log transport.
+ */
+export default async function LogsPage({ searchParams }: PageProps<"/dev/logs">) {
+  if (!isLogViewerEnabled()) {
+    notFound();
+  }
+
+  const query = new URLSearchParams();
+  for (const [name, value] of Object.entries(await searchParams)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item) {
+        query.append(name, item);
+      }
+    }
+  }
+
+  const filter = parseLogFilter(query);
+  const entries = await readLogEntries(env.LOG_FILE_PATH ?? DEFAULT_LOG_FILE_PATH, filter);
+
+  // Keyed by the query so applying a filter resets the live-tailed entries
+  return (
+    <LogViewer
+      entries={entries}
+      filter={filter}
+      key={query.toString()}
+      streamUrl={`/dev/logs/stream?${query.toString()}`}
+    />
+  );
+}
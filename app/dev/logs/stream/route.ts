@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { env } from "~/data/env/server";
+import { DEFAULT_LOG_FILE_PATH } from "~/lib/log-transports";
+import { isLogViewerEnabled, matchesLogFilter, parseLogFilter, tailLogFile } from "~/lib/log-viewer";
+import { withRouteHandler } from "~/lib/route-handler";
+
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+/**
+ * Streams new log entries matching the filter in the query string as server-sent `entry` events.
+ * Only available in development.
+ */
+export const GET = withRouteHandler(
+  async (request) => {
+    if (!isLogViewerEnabled()) {
+      return NextResponse.json({ error: "Not Found" }, { status: 404 });
+    }
+
+    const filter = parseLogFilter(request.nextUrl.searchParams);
+    const encoder = new TextEncoder();
+    let stop = () => undefined as void;
+
+    const stream = new ReadableStream<Uint8Array>({
+      cancel() {
+        stop();
+      },
+      start(controller) {
+        const send = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            stop();
+          }
+        };
+
+        const stopTail = tailLogFile(env.LOG_FILE_PATH ?? DEFAULT_LOG_FILE_PATH, (entry) => {
+          if (matchesLogFilter(entry, filter)) {
+            send(`event: entry\ndata: ${JSON.stringify(entry)}\n\n`);
+          }
+        });
+        // Comments keep the connection open through proxies that close idle responses
+        const heartbeat = setInterval(() => send(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS);
+
+        stop = () => {
+          stopTail();
+          clearInterval(heartbeat);
+        };
+        request.signal.addEventListener("abort", () => {
+          stop();
+          controller.close();
+        });
+        send(": connected\n\n");
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Cache-Control": "no-store",
+        Connection: "keep-alive",
+        "Content-Type": "text/event-stream"
+      }
+    });
+  },
+  { accessLog: false, route: "/dev/logs/stream" }
+);
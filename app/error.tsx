@@ -2,6 +2,7 @@
 
 import { Button } from "@szum-tech/design-system";
 import * as React from "react";
+import { reportClientError } from "~/lib/client-errors";
 
 export default function Error({ error, reset }: { error: Error & { digest?: string }; reset: () => void }) {
   React.useEffect(() => {
@@ -11,6 +12,7 @@ export default function Error({ error, reset }: { error: Error & { digest?: stri
       message: error.message,
       stack: error.stack
     });
+    reportClientError(error, "error-boundary");
   }, [error]);
 
   return (
@@ -1,6 +1,8 @@
 import type { Metadata } from "next";
 
+import { ClientErrorReporter } from "~/components/providers/client-error-reporter";
 import { ThemeProvider } from "~/components/providers/theme-provider";
+import { getNonce } from "~/lib/security-headers";
 
 import "./globals.css";
 
@@ -9,11 +11,15 @@ export const metadata: Metadata = {
   title: "Szumplate Next App"
 };
 
-export default function RootLayout({ children }: LayoutProps<"/">) {
+export default async function RootLayout({ children }: LayoutProps<"/">) {
+  // Allows the inline script of next-themes under the Content Security Policy of `proxy.ts`
+  const nonce = await getNonce();
+
   return (
     <html lang="en" suppressHydrationWarning>
       <body>
-        <ThemeProvider attribute="class" defaultTheme="system" disableTransitionOnChange enableSystem>
+        <ClientErrorReporter />
+        <ThemeProvider attribute="class" defaultTheme="system" disableTransitionOnChange enableSystem nonce={nonce}>
           {children}
         </ThemeProvider>
       </body>
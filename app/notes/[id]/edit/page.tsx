@@ -0,0 +1,30 @@
+import type { Metadata } from "next";
+import { notFound, redirect } from "next/navigation";
+import { EditNoteForm } from "~/features/example-feature/components/edit-note-form";
+import { updateNote } from "~/features/example-feature/server/actions/update-note";
+import { findNoteFor } from "~/features/example-feature/server/notes";
+import { getCurrentUser, getSignInUrl } from "~/lib/auth";
+
+export const metadata: Metadata = {
+  robots: { follow: false, index: false },
+  title: "Edit note"
+};
+
+export default async function EditNotePage({ params }: PageProps<"/notes/[id]/edit">) {
+  const { id } = await params;
+  if (!(await getCurrentUser())) {
+    redirect(getSignInUrl(`/notes/${id}/edit`));
+  }
+
+  const note = await findNoteFor("update", id);
+  if (!note) {
+    notFound();
+  }
+
+  return (
+    <main className="container mx-auto flex min-h-screen max-w-2xl flex-col gap-6 px-4 py-16">
+      <h1 className="text-heading-h2">Edit note</h1>
+      <EditNoteForm note={note} updateNote={updateNote} />
+    </main>
+  );
+}
@@ -0,0 +1,49 @@
+import { Button } from "@szum-tech/design-system";
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { findNoteFor } from "~/features/example-feature/server/notes";
+import { can } from "~/features/example-feature/server/permissions";
+import { getCurrentUser, getSignInUrl } from "~/lib/auth";
+
+export const metadata: Metadata = {
+  robots: { follow: false, index: false },
+  title: "Note"
+};
+
+const dateFormat = new Intl.DateTimeFormat("en", { dateStyle: "medium", timeStyle: "short" });
+
+export default async function NotePage({ params }: PageProps<"/notes/[id]">) {
+  const { id } = await params;
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect(getSignInUrl(`/notes/${id}`));
+  }
+
+  const note = await findNoteFor("read", id);
+  if (!note) {
+    notFound();
+  }
+
+  return (
+    <main className="container mx-auto flex min-h-screen max-w-2xl flex-col gap-6 px-4 py-16">
+      <Link className="text-muted-foreground text-sm" href="/notes">
+        ← All notes
+      </Link>
+      <article className="flex flex-col gap-4">
+        <h1 className="text-heading-h2">{note.title}</h1>
+        <p className="text-muted-foreground text-sm">
+          Updated <time dateTime={note.updatedAt.toISOString()}>{dateFormat.format(note.updatedAt)}</time>
+        </p>
+        <p className="whitespace-pre-wrap" data-testid="note-content">
+          {note.content}
+        </p>
+      </article>
+      {can(user, "update", { ownerId: note.authorId, type: "note" }) ? (
+        <Button asChild className="self-start" variant="outline">
+          <Link href={`/notes/${note.id}/edit`}>Edit</Link>
+        </Button>
+      ) : null}
+    </main>
+  );
+}
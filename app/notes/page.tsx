@@ -0,0 +1,31 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { NoteList } from "~/features/example-feature/components/note-list";
+import { createNote } from "~/features/example-feature/server/actions/create-note";
+import { deleteNote } from "~/features/example-feature/server/actions/delete-note";
+import { createNoteRepository } from "~/features/example-feature/server/db/note-repository";
+import { getCurrentUser, getSignInUrl } from "~/lib/auth";
+
+export const metadata: Metadata = {
+  robots: { follow: false, index: false },
+  title: "Notes"
+};
+
+/**
+ * The notes example: lists the signed-in user's notes, see `features/example-feature`.
+ */
+export default async function NotesPage() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect(getSignInUrl("/notes"));
+  }
+
+  const notes = await createNoteRepository().listByAuthor(user.id);
+
+  return (
+    <main className="container mx-auto flex min-h-screen max-w-2xl flex-col gap-8 px-4 py-16">
+      <h1 className="text-heading-h2">Notes</h1>
+      <NoteList createNote={createNote} deleteNote={deleteNote} notes={notes} />
+    </main>
+  );
+}
@@ -1,11 +1,13 @@
 import type { MetadataRoute } from "next";
 
+import { getAppUrl } from "~/data/env/app";
+
 export default function robots(): MetadataRoute.Robots {
   return {
     rules: {
       allow: "/",
       userAgent: "*"
     },
-    sitemap: "https://acme.com/sitemap.xml"
+    sitemap: `${getAppUrl()}/sitemap.xml`
   };
 }
@@ -0,0 +1,73 @@
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  FieldError,
+  Separator
+} from "@szum-tech/design-system";
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { SignInForm } from "~/features/auth/components/sign-in-form";
+import { getCurrentUser, sanitizeCallbackUrl } from "~/lib/auth";
+import { getOAuthProviders } from "~/lib/oauth";
+
+export const metadata: Metadata = {
+  robots: { follow: false, index: false },
+  title: "Sign in"
+};
+
+/**
+ * Messages of the error codes the OAuth callback redirects back with.
+ */
+const ERROR_MESSAGES: Record<string, string> = {
+  AccessDenied: "The sign-in was cancelled or denied at the provider.",
+  AccountNotLinked: "An account with this email already exists, sign in the way you did before.",
+  OAuthCallback: "The provider could not sign you in, please try again.",
+  OAuthState: "The sign-in expired or was started in another browser, please try again."
+};
+
+export default async function SignInPage({ searchParams }: PageProps<"/sign-in">) {
+  const { callbackUrl: callbackUrlParam, error } = await searchParams;
+  const callbackUrl = sanitizeCallbackUrl(callbackUrlParam);
+
+  if (await getCurrentUser()) {
+    redirect(callbackUrl);
+  }
+
+  const providers = getOAuthProviders();
+  const errorMessage = typeof error === "string" ? (ERROR_MESSAGES[error] ?? ERROR_MESSAGES.OAuthCallback) : null;
+
+  return (
+    <main className="container mx-auto flex min-h-screen max-w-md items-center px-4">
+      <Card className="w-full">
+        <CardHeader>
+          <CardTitle className="text-heading-h3">
+            <h1>Sign in</h1>
+          </CardTitle>
+          <CardDescription>Sign in with your email and password or one of the providers below.</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-6">
+          {errorMessage ? <FieldError>{errorMessage}</FieldError> : null}
+          <SignInForm callbackUrl={callbackUrl} />
+          {providers.length > 0 ? (
+            <>
+              <Separator />
+              <div className="flex flex-col gap-2">
+                {providers.map((provider) => (
+                  <Button asChild key={provider.id} variant="outline">
+                    <a href={`/api/auth/signin/${provider.id}?${new URLSearchParams({ callbackUrl })}`}>
+                      Continue with {provider.name}
+                    </a>
+                  </Button>
+                ))}
+              </div>
+            </>
+          ) : null}
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
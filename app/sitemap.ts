@@ -1,7 +1,7 @@
 import type { MetadataRoute } from "next";
 
-import { env } from "~/data/env/server";
+import { getAppUrl } from "~/data/env/app";
 
 export default function sitemap(): MetadataRoute.Sitemap {
-  return [{ lastModified: new Date().toISOString(), url: `${env.VERCEL_URL}/` }];
+  return [{ lastModified: new Date().toISOString(), url: `${getAppUrl()}/` }];
 }
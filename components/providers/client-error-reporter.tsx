@@ -0,0 +1,31 @@
+"use client";
+
+import * as React from "react";
+import { reportClientError } from "~/lib/client-errors";
+
+/**
+ * Reports errors that escape React error boundaries (event handlers, timers, rejected promises)
+ * to `/api/client-errors`. Errors caught by `app/error.tsx` and `app/global-error.tsx` are reported there.
+ *
+ * Render it once in the root layout.
+ */
+export function ClientErrorReporter() {
+  React.useEffect(() => {
+    const handleError = (event: ErrorEvent) => {
+      reportClientError(event.error ?? event.message, "window-error");
+    };
+    const handleRejection = (event: PromiseRejectionEvent) => {
+      reportClientError(event.reason, "unhandled-rejection");
+    };
+
+    window.addEventListener("error", handleError);
+    window.addEventListener("unhandledrejection", handleRejection);
+
+    return () => {
+      window.removeEventListener("error", handleError);
+      window.removeEventListener("unhandledrejection", handleRejection);
+    };
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,21 @@
+import { type Kysely, sql } from "kysely";
+
+// Migrations are frozen in time, so they take an untyped database instead of the current `Database`
+// biome-ignore lint/suspicious/noExplicitAny: see above
+export async function up(db: Kysely<any>) {
+  await db.schema
+    .createTable("feedback")
+    .addColumn("id", "uuid", (column) => column.primaryKey().defaultTo(sql`gen_random_uuid()`))
+    .addColumn("email", "text", (column) => column.notNull())
+    .addColumn("message", "text", (column) => column.notNull())
+    .addColumn("author_id", "text")
+    .addColumn("created_at", "timestamptz", (column) => column.notNull().defaultTo(sql`now()`))
+    .execute();
+
+  await db.schema.createIndex("feedback_author_id_index").on("feedback").column("author_id").execute();
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: see above
+export async function down(db: Kysely<any>) {
+  await db.schema.dropTable("feedback").execute();
+}
@@ -0,0 +1,27 @@
+import { type Kysely, sql } from "kysely";
+
+// Migrations are frozen in time, so they take an untyped database instead of the current `Database`
+// biome-ignore lint/suspicious/noExplicitAny: see above
+export async function up(db: Kysely<any>) {
+  await db.schema
+    .createTable("note")
+    .addColumn("id", "uuid", (column) => column.primaryKey().defaultTo(sql`gen_random_uuid()`))
+    .addColumn("author_id", "text", (column) => column.notNull())
+    .addColumn("title", "text", (column) => column.notNull())
+    .addColumn("content", "text", (column) => column.notNull().defaultTo(""))
+    .addColumn("created_at", "timestamptz", (column) => column.notNull().defaultTo(sql`now()`))
+    .addColumn("updated_at", "timestamptz", (column) => column.notNull().defaultTo(sql`now()`))
+    .execute();
+
+  // Serves the list of a user's notes, newest first
+  await db.schema
+    .createIndex("note_author_id_created_at_index")
+    .on("note")
+    .columns(["author_id", "created_at desc"])
+    .execute();
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: see above
+export async function down(db: Kysely<any>) {
+  await db.schema.dropTable("note").execute();
+}
@@ -0,0 +1,33 @@
+import { type Kysely, sql } from "kysely";
+
+// Migrations are frozen in time, so they take an untyped database instead of the current `Database`
+// biome-ignore lint/suspicious/noExplicitAny: see above
+export async function up(db: Kysely<any>) {
+  // Text ids, so the fixed id of the demo user fits next to generated ones
+  await db.schema
+    .createTable("user")
+    .addColumn("id", "text", (column) => column.primaryKey().defaultTo(sql`gen_random_uuid()::text`))
+    .addColumn("email", "text", (column) => column.notNull().unique())
+    .addColumn("name", "text")
+    .addColumn("password_hash", "text")
+    .addColumn("roles", sql`text[]`, (column) => column.notNull().defaultTo(sql`'{member}'`))
+    .addColumn("created_at", "timestamptz", (column) => column.notNull().defaultTo(sql`now()`))
+    .execute();
+
+  await db.schema
+    .createTable("account")
+    .addColumn("provider", "text", (column) => column.notNull())
+    .addColumn("provider_account_id", "text", (column) => column.notNull())
+    .addColumn("user_id", "text", (column) => column.notNull().references("user.id").onDelete("cascade"))
+    .addColumn("created_at", "timestamptz", (column) => column.notNull().defaultTo(sql`now()`))
+    .addPrimaryKeyConstraint("account_pkey", ["provider", "provider_account_id"])
+    .execute();
+
+  await db.schema.createIndex("account_user_id_index").on("account").column("user_id").execute();
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: see above
+export async function down(db: Kysely<any>) {
+  await db.schema.dropTable("account").execute();
+  await db.schema.dropTable("user").execute();
+}
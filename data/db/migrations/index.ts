@@ -0,0 +1,16 @@
+import type { Migration } from "kysely";
+import * as createFeedback from "~/data/db/migrations/0001_create_feedback";
+import * as createNote from "~/data/db/migrations/0002_create_note";
+import * as createUser from "~/data/db/migrations/0003_create_user";
+
+/**
+ * Migrations in the order they run, keyed by name. Names are stored in the `kysely_migration` table,
+ * so never rename or edit a migration that ran anywhere; add a new one instead.
+ *
+ * To add one, create `NNNN_description.ts` exporting `up` and `down`, and register it here.
+ */
+export const migrations: Record<string, Migration> = {
+  "0001_create_feedback": createFeedback,
+  "0002_create_note": createNote,
+  "0003_create_user": createUser
+};
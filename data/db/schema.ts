@@ -0,0 +1,13 @@
+import type { AccountTable, UserTable } from "~/features/auth/server/db/schema";
+import type { FeedbackTable, NoteTable } from "~/features/example-feature/server/db/schema";
+
+/**
+ * Tables of the database, keyed by their SQL name. Each feature declares its tables in
+ * `server/db/schema.ts` and adds them here, next to a migration in `data/db/migrations/`.
+ */
+export interface Database {
+  account: AccountTable;
+  feedback: FeedbackTable;
+  note: NoteTable;
+  user: UserTable;
+}
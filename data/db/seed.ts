@@ -0,0 +1,12 @@
+import type { Kysely } from "kysely";
+import { seedFeedback, seedNotes } from "~/features/example-feature/server/db/seed";
+import type { Database } from "~/lib/db";
+
+/**
+ * Seeds of every feature, run in order by `npm run db:seed`. Each returns the number of rows it inserted
+ * and must be safe to run again.
+ */
+export const seeds: Record<string, (db: Kysely<Database>) => Promise<number>> = {
+  feedback: seedFeedback,
+  notes: seedNotes
+};
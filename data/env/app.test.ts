@@ -0,0 +1,57 @@
+import { getAppUrl, getRelease } from "~/data/env/app";
+import packageJson from "~/package.json";
+
+const env = vi.hoisted(() => ({
+  APP_URL: undefined as string | undefined,
+  APP_VERSION: undefined as string | undefined,
+  AUTH_URL: undefined as string | undefined,
+  GIT_COMMIT_SHA: undefined as string | undefined,
+  VERCEL_GIT_COMMIT_SHA: undefined as string | undefined,
+  VERCEL_URL: undefined as string | undefined
+}));
+
+vi.mock("~/data/env/server", () => ({ env }));
+
+beforeEach(() => {
+  for (const name of Object.keys(env) as Array<keyof typeof env>) {
+    env[name] = undefined;
+  }
+});
+
+describe("getAppUrl", () => {
+  test("prefers APP_URL", () => {
+    env.APP_URL = "https://app.example.com/";
+    env.AUTH_URL = "https://auth.example.com";
+    env.VERCEL_URL = "app-git-main.vercel.app";
+
+    expect(getAppUrl()).toBe("https://app.example.com");
+  });
+
+  test("falls back to AUTH_URL and the Vercel deployment URL", () => {
+    env.VERCEL_URL = "app-git-main.vercel.app";
+    expect(getAppUrl()).toBe("https://app-git-main.vercel.app");
+
+    env.AUTH_URL = "https://auth.example.com/app";
+    expect(getAppUrl()).toBe("https://auth.example.com/app");
+  });
+
+  test("falls back to localhost", () => {
+    expect(getAppUrl()).toMatch(/^http:\/\/localhost:\d+$/);
+  });
+});
+
+describe("getRelease", () => {
+  test("reports the version and commit of the release pipeline", () => {
+    env.APP_VERSION = "1.2.3";
+    env.GIT_COMMIT_SHA = "abc123";
+    env.VERCEL_GIT_COMMIT_SHA = "def456";
+
+    expect(getRelease()).toEqual({ commitSha: "abc123", version: "1.2.3" });
+  });
+
+  test("falls back to package.json and the Vercel commit", () => {
+    env.VERCEL_GIT_COMMIT_SHA = "def456";
+
+    expect(getRelease()).toEqual({ commitSha: "def456", version: packageJson.version });
+  });
+});
@@ -0,0 +1,33 @@
+import { env } from "~/data/env/server";
+import packageJson from "~/package.json";
+
+export interface Release {
+  /** Commit the build was made from, set by the release pipeline or Vercel. */
+  commitSha: string | null;
+  /** Semantic-release version exposed through `APP_VERSION`, the `package.json` version for local builds. */
+  version: string;
+}
+
+/**
+ * Returns the canonical URL of the app without a trailing slash: `APP_URL`, otherwise `AUTH_URL`, the deployment
+ * URL on Vercel or, outside of production where `APP_URL` is required, `http://localhost` with the port of the
+ * server.
+ */
+export function getAppUrl() {
+  const url =
+    env.APP_URL ??
+    env.AUTH_URL ??
+    (env.VERCEL_URL ? `https://${env.VERCEL_URL}` : `http://localhost:${process.env.PORT ?? 3000}`);
+
+  return url.replace(/\/+$/, "");
+}
+
+/**
+ * Returns the release of the running build, reported by health checks, telemetry and client error reports.
+ */
+export function getRelease(): Release {
+  return {
+    commitSha: env.GIT_COMMIT_SHA ?? env.VERCEL_GIT_COMMIT_SHA ?? null,
+    version: env.APP_VERSION ?? packageJson.version
+  };
+}
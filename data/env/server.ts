@@ -1,14 +1,50 @@
 import { createEnv } from "@t3-oss/env-nextjs";
 import { z } from "zod";
+import { formatEnvIssues } from "~/data/env/validation";
 
-export const env = createEnv({
-  /**
-   * Makes it so that empty strings are treated as undefined. `SOME_VAR: z.string()` and
-   * `SOME_VAR=''` will throw an error.
-   */
-  emptyStringAsUndefined: true,
-  experimental__runtimeEnv: process.env,
-  server: {
+/**
+ * Server variables grouped by the subsystem reading them, also the sections of the startup summary
+ * (`getEnvSummary`).
+ */
+export const serverEnvGroups = {
+  /** Where and how the app runs; `APP_URL` is the canonical URL, see `getAppUrl`. */
+  app: {
+    APP_URL: z.url().optional(),
+    NODE_ENV: z.enum(["development", "test", "production"]),
+    TRUSTED_PROXY_COUNT: z.coerce.number().int().positive().optional(),
+    VERCEL_URL: z.string().optional()
+  },
+  /** Sessions, sign-in providers and protected paths (`lib/auth.ts`, `lib/oauth.ts`, `lib/session.ts`). */
+  auth: {
+    AUTH_DEMO_EMAIL: z.email().optional(),
+    AUTH_DEMO_PASSWORD: z.string().min(8).optional(),
+    AUTH_GITHUB_ID: z.string().optional(),
+    AUTH_GITHUB_SECRET: z.string().optional(),
+    AUTH_OAUTH_AUTHORIZATION_URL: z.url().optional(),
+    AUTH_OAUTH_CLIENT_ID: z.string().optional(),
+    AUTH_OAUTH_CLIENT_SECRET: z.string().optional(),
+    AUTH_OAUTH_NAME: z.string().optional(),
+    AUTH_OAUTH_SCOPE: z.string().optional(),
+    AUTH_OAUTH_TOKEN_URL: z.url().optional(),
+    AUTH_OAUTH_USERINFO_URL: z.url().optional(),
+    AUTH_PROTECTED_PATHS: z
+      .string()
+      .regex(/^\s*\/[^,\s]*\s*(,\s*\/[^,\s]*\s*)*$/, {
+        message: "Must be a comma-separated list of path prefixes, e.g. /account,/api/notes"
+      })
+      .optional(),
+    AUTH_SECRET: z
+      .string()
+      .optional()
+      .refine((value) => !value || value.split(",").every((secret) => secret.trim().length >= 32), {
+        message: "Must be a comma-separated list of secrets of at least 32 characters"
+      }),
+    AUTH_SESSION_MAX_AGE: z.coerce.number().int().positive().optional(),
+    AUTH_SESSION_UPDATE_AGE: z.coerce.number().int().nonnegative().optional(),
+    AUTH_URL: z.url().optional()
+  },
+  /** Build tooling. */
+  build: {
     ANALYZE: z
       .enum(["true", "false"])
       .optional()
@@ -16,10 +52,174 @@ export const env = createEnv({
     CI: z
       .enum(["true", "false", "0", "1"])
       .optional()
-      .transform((value) => value === "true" || value === "1"),
+      .transform((value) => value === "true" || value === "1")
+  },
+  /** Database connection (`lib/db.ts`). */
+  database: {
+    DATABASE_POOL_MAX: z.coerce.number().int().positive().optional(),
+    DATABASE_URL: z
+      .string()
+      .regex(/^(postgres|postgresql|pglite):\/\/./, {
+        message: "Must be a postgres:// connection string or pglite://<directory|memory>"
+      })
+      .optional()
+  },
+  /** Log levels, redaction and transports (`lib/logger.ts`). */
+  logging: {
+    LOG_ADMIN_TOKEN: z.string().min(16).optional(),
+    LOG_FILE_MAX_FILES: z
+      .string()
+      .regex(/^\d+d?$/, { message: "Must be a number of files (10) or days (14d)" })
+      .optional(),
+    LOG_FILE_MAX_SIZE: z
+      .string()
+      .regex(/^\d+[kmg]$/i, { message: "Must be a size with a k, m or g suffix, e.g. 10m" })
+      .optional(),
+    LOG_FILE_PATH: z.string().optional(),
+    LOG_HTTP_BATCH_SIZE: z.coerce.number().int().positive().optional(),
+    LOG_HTTP_BATCH_TIMEOUT_MS: z.coerce.number().int().positive().optional(),
+    LOG_HTTP_HEADERS: z.string().optional(),
+    LOG_HTTP_URL: z.url().optional(),
     LOG_LEVEL: z.enum(["fatal", "error", "warn", "info", "debug", "trace"]).optional().default("info"),
-    NODE_ENV: z.enum(["development", "test", "production"]),
-    VERCEL_URL: z.string().optional()
+    LOG_LEVELS: z
+      .string()
+      .regex(
+        /^\s*[\w.-]+=(fatal|error|warn|info|debug|trace)\s*(,\s*[\w.-]+=(fatal|error|warn|info|debug|trace)\s*)*$/,
+        {
+          message: "Must be a comma-separated list of module=level pairs, e.g. api=debug,proxy=warn"
+        }
+      )
+      .optional(),
+    LOG_REDACT_PATHS: z.string().optional(),
+    LOG_REDACT_PATTERNS: z
+      .string()
+      .optional()
+      .refine(
+        (value) => {
+          try {
+            return (
+              !value ||
+              z
+                .array(z.string())
+                .parse(JSON.parse(value))
+                .every((pattern) => new RegExp(pattern))
+            );
+          } catch {
+            return false;
+          }
+        },
+        { message: "Must be a JSON array of valid regular expressions" }
+      ),
+    LOG_TRANSPORTS: z
+      .string()
+      .optional()
+      .refine(
+        (value) =>
+          !value || value.split(",").every((name) => ["console", "file", "http", "otlp", "none"].includes(name.trim())),
+        { message: "Must be a comma-separated list of console, file, http, otlp or none" }
+      )
+  },
+  /** Release of the running build, set by the release pipeline, see `getRelease`. */
+  release: {
+    APP_VERSION: z.string().optional(),
+    BUILD_TIME: z.iso.datetime().optional(),
+    GIT_COMMIT_SHA: z.string().optional(),
+    VERCEL_GIT_COMMIT_SHA: z.string().optional()
+  },
+  /** Cross-origin access and browser security policies of `proxy.ts`. */
+  security: {
+    CORS_ALLOWED_ORIGINS: z
+      .string()
+      .regex(/^\s*(\*|https?:\/\/(\*\.)?[\w.-]+(:\d+)?)\s*(,\s*(\*|https?:\/\/(\*\.)?[\w.-]+(:\d+)?)\s*)*$/, {
+        message: "Must be a comma-separated list of origins, e.g. https://app.example.com,https://*.example.com"
+      })
+      .optional(),
+    CSP_REPORT_ONLY: z
+      .enum(["true", "false"])
+      .optional()
+      .transform((value) => value === "true"),
+    CSRF_ALLOWED_ORIGINS: z
+      .string()
+      .optional()
+      .refine(
+        (value) =>
+          !value ||
+          value
+            .split(",")
+            .every((origin) => URL.canParse(origin.trim()) && new URL(origin.trim()).origin === origin.trim()),
+        { message: "Must be a comma-separated list of origins, e.g. https://admin.example.com" }
+      )
+  },
+  /** Tracing, metrics and health diagnostics (`instrumentation.node.ts`, `lib/telemetry.ts`). */
+  telemetry: {
+    HEALTH_DIAGNOSTICS_TOKEN: z.string().min(16).optional(),
+    METRICS_TOKEN: z.string().min(16).optional(),
+    OTEL_EXPORTER_OTLP_ENDPOINT: z.url().optional(),
+    OTEL_EXPORTER_OTLP_HEADERS: z.string().optional(),
+    OTEL_METRICS_EXPORTER: z.enum(["none", "console", "otlp"]).optional().default("none"),
+    OTEL_SERVICE_NAME: z.string().optional(),
+    OTEL_TRACES_EXPORTER: z.enum(["none", "console", "otlp"]).optional().default("none")
+  }
+};
+
+/**
+ * Requires `APP_URL` in production outside of Vercel: without it, `getAppUrl` would fall back to localhost in the
+ * sitemap, `robots.txt` and redirects.
+ */
+export function requireAppUrlInProduction(
+  values: { APP_URL?: string; NODE_ENV: string; VERCEL_URL?: string },
+  context: z.RefinementCtx
+) {
+  if (values.NODE_ENV === "production" && !values.APP_URL && !values.VERCEL_URL) {
+    context.addIssue({
+      code: "custom",
+      message: "Required in production outside of Vercel, e.g. https://app.example.com",
+      path: ["APP_URL"]
+    });
+  }
+}
+
+/**
+ * Requires `DATABASE_URL` in production, where there is no embedded database: users, their provider accounts and
+ * the data of features are stored in it.
+ */
+export function requireDatabaseUrlInProduction(
+  values: { DATABASE_URL?: string; NODE_ENV: string },
+  context: z.RefinementCtx
+) {
+  if (values.NODE_ENV === "production" && !values.DATABASE_URL) {
+    context.addIssue({
+      code: "custom",
+      message: "Required in production, e.g. postgres://app:password@db:5432/app",
+      path: ["DATABASE_URL"]
+    });
+  }
+}
+
+export const env = createEnv({
+  createFinalSchema: (shape) =>
+    z.object(shape).superRefine(requireAppUrlInProduction).superRefine(requireDatabaseUrlInProduction),
+  /**
+   * Makes it so that empty strings are treated as undefined. `SOME_VAR: z.string()` and
+   * `SOME_VAR=''` will throw an error.
+   */
+  emptyStringAsUndefined: true,
+  experimental__runtimeEnv: process.env,
+  /**
+   * Fails with a table of every invalid variable rather than the first issue.
+   */
+  onValidationError: (issues) => {
+    throw new Error(formatEnvIssues(issues, process.env));
+  },
+  server: {
+    ...serverEnvGroups.app,
+    ...serverEnvGroups.release,
+    ...serverEnvGroups.auth,
+    ...serverEnvGroups.database,
+    ...serverEnvGroups.logging,
+    ...serverEnvGroups.telemetry,
+    ...serverEnvGroups.security,
+    ...serverEnvGroups.build
   },
   /**
    * Run `build` or `dev` with `SKIP_ENV_VALIDATION` to skip env validation. This is especially
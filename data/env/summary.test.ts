@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { getEnvSummary } from "~/data/env/summary";
+
+const groups = {
+  auth: { AUTH_SECRET: z.string(), AUTH_URL: z.url() },
+  database: { DATABASE_URL: z.string() },
+  logging: { LOG_LEVEL: z.string() }
+};
+
+describe("getEnvSummary", () => {
+  test("lists the variables set in each group with secrets redacted", () => {
+    expect(
+      getEnvSummary(groups, {
+        AUTH_SECRET: "a-secret-of-at-least-32-characters",
+        DATABASE_URL: "postgres://app:s3cret@db:5432/app",
+        LOG_LEVEL: "info",
+        UNRELATED: "value"
+      })
+    ).toEqual({
+      auth: { AUTH_SECRET: "[redacted]" },
+      database: { DATABASE_URL: "postgres://app:[redacted]@db:5432/app" },
+      logging: { LOG_LEVEL: "info" }
+    });
+  });
+
+  test("leaves out groups without variables", () => {
+    expect(getEnvSummary(groups, { LOG_LEVEL: "debug" })).toEqual({ logging: { LOG_LEVEL: "debug" } });
+  });
+});
@@ -0,0 +1,43 @@
+import { getAppUrl, getRelease } from "~/data/env/app";
+import { env, serverEnvGroups } from "~/data/env/server";
+import { redactEnvValue } from "~/data/env/validation";
+import { createLogger } from "~/lib/logger";
+
+export type EnvSummary = Record<string, Record<string, string>>;
+
+/**
+ * Summarizes the configuration by group for the startup log: the variables that are set (or have a default),
+ * with secrets redacted. Groups without any are left out.
+ */
+export function getEnvSummary(groups: Record<string, Record<string, unknown>>, values: Record<string, unknown>) {
+  const summary: EnvSummary = {};
+
+  for (const [group, variables] of Object.entries(groups)) {
+    const entries = Object.keys(variables)
+      .filter((name) => values[name] !== undefined)
+      .map((name) => [name, redactEnvValue(name, values[name])]);
+
+    if (entries.length > 0) {
+      summary[group] = Object.fromEntries(entries);
+    }
+  }
+
+  return summary;
+}
+
+let loggedSummary = false;
+
+/**
+ * Logs the canonical URL, the release and the configuration of every group once per server instance, with
+ * secrets redacted, so the settings a deployment runs with show up at the top of its logs.
+ */
+export function logEnvSummary() {
+  if (loggedSummary) {
+    return;
+  }
+  loggedSummary = true;
+
+  createLogger({ module: "env" })
+    .withMetadata({ appUrl: getAppUrl(), env: getEnvSummary(serverEnvGroups, env), release: getRelease() })
+    .info("Environment loaded");
+}
@@ -0,0 +1,96 @@
+import { z } from "zod";
+import { requireAppUrlInProduction, requireDatabaseUrlInProduction, serverEnvGroups } from "~/data/env/server";
+import { formatEnvIssues, redactEnvValue } from "~/data/env/validation";
+
+describe("redactEnvValue", () => {
+  test.each([
+    ["AUTH_SECRET", "a-secret-of-at-least-32-characters"],
+    ["AUTH_DEMO_PASSWORD", "demo-password"],
+    ["METRICS_TOKEN", "metrics-token-value"],
+    ["OTEL_EXPORTER_OTLP_HEADERS", "authorization=Bearer token"]
+  ])("redacts %s", (name, value) => {
+    expect(redactEnvValue(name, value)).toBe("[redacted]");
+  });
+
+  test("removes passwords from URLs", () => {
+    expect(redactEnvValue("DATABASE_URL", "postgres://app:s3cret@db:5432/app")).toBe(
+      "postgres://app:[redacted]@db:5432/app"
+    );
+    expect(redactEnvValue("DATABASE_URL", "pglite://memory")).toBe("pglite://memory");
+  });
+
+  test("keeps other values", () => {
+    expect(redactEnvValue("LOG_LEVEL", "debug")).toBe("debug");
+    expect(redactEnvValue("CSP_REPORT_ONLY", false)).toBe("false");
+  });
+});
+
+describe("formatEnvIssues", () => {
+  test("lists every invalid variable in a table", () => {
+    const values = { AUTH_SECRET: "too-short", AUTH_URL: "not a url", LOG_LEVEL: "verbose" };
+
+    const result = z.object({ ...serverEnvGroups.auth, ...serverEnvGroups.logging }).safeParse(values);
+
+    expect(formatEnvIssues(result.success ? [] : result.error.issues, values)).toMatchInlineSnapshot(`
+      "Invalid environment variables:
+
+        Variable      Value         Problem
+        AUTH_SECRET   [redacted]    Must be a comma-separated list of secrets of at least 32 characters
+        AUTH_URL      "not a url"   Invalid URL
+        LOG_LEVEL     "verbose"     Invalid option: expected one of "fatal"|"error"|"warn"|"info"|"debug"|"trace""
+    `);
+  });
+
+  test("shows missing variables and truncates long values", () => {
+    const issues = [
+      { message: "Invalid option", path: [{ key: "NODE_ENV" }] },
+      { message: "Invalid URL", path: ["LOG_HTTP_URL"] }
+    ];
+
+    const table = formatEnvIssues(issues, { LOG_HTTP_URL: "x".repeat(60) });
+
+    expect(table).toContain(`NODE_ENV       (not set)`);
+    expect(table).toContain(`"${"x".repeat(38)}…`);
+  });
+});
+
+describe("requireAppUrlInProduction", () => {
+  const schema = z.object(serverEnvGroups.app).superRefine(requireAppUrlInProduction);
+
+  test("requires APP_URL in production", () => {
+    const values = { NODE_ENV: "production" };
+    const result = schema.safeParse(values);
+
+    expect(formatEnvIssues(result.success ? [] : result.error.issues, values)).toContain(
+      "APP_URL    (not set)   Required in production outside of Vercel, e.g. https://app.example.com"
+    );
+  });
+
+  test.each([
+    ["production with APP_URL", { APP_URL: "https://app.example.com", NODE_ENV: "production" }],
+    ["Vercel", { NODE_ENV: "production", VERCEL_URL: "app-git-main.vercel.app" }],
+    ["development", { NODE_ENV: "development" }]
+  ])("does not require it on %s", (_, values) => {
+    expect(schema.safeParse(values).success).toBe(true);
+  });
+});
+
+describe("requireDatabaseUrlInProduction", () => {
+  const schema = z
+    .object({ ...serverEnvGroups.app, ...serverEnvGroups.database })
+    .superRefine(requireDatabaseUrlInProduction);
+
+  test("requires DATABASE_URL in production", () => {
+    const values = { APP_URL: "https://app.example.com", NODE_ENV: "production" };
+    const result = schema.safeParse(values);
+
+    expect(formatEnvIssues(result.success ? [] : result.error.issues, values)).toContain(
+      "DATABASE_URL   (not set)   Required in production, e.g. postgres://app:password@db:5432/app"
+    );
+    expect(schema.safeParse({ ...values, DATABASE_URL: "postgres://db:5432/app" }).success).toBe(true);
+  });
+
+  test("defaults to the embedded database outside of production", () => {
+    expect(schema.safeParse({ NODE_ENV: "development" }).success).toBe(true);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Issue of an invalid variable, as reported by the schemas of `createEnv`.
+ */
+export interface EnvIssue {
+  message: string;
+  path?: ReadonlyArray<PropertyKey | { key: PropertyKey }>;
+}
+
+/**
+ * Variables holding credentials, never written to logs or error messages.
+ */
+const SECRET_NAME = /SECRET|PASSWORD|TOKEN|HEADERS/;
+
+const MAX_VALUE_LENGTH = 40;
+
+/**
+ * Returns the value of a variable safe to log: secrets are replaced, passwords are removed from URLs
+ * (`postgres://app:[redacted]@db:5432/app`).
+ */
+export function redactEnvValue(name: string, value: unknown) {
+  if (SECRET_NAME.test(name)) {
+    return "[redacted]";
+  }
+
+  return String(value).replace(/^([a-z][\w+.-]*:\/\/[^:/@]+):[^@/]*@/i, "$1:[redacted]@");
+}
+
+function getIssueVariable({ path }: EnvIssue) {
+  const segment = path?.[0];
+  const key = typeof segment === "object" ? segment.key : segment;
+
+  return key === undefined ? "(env)" : String(key);
+}
+
+function formatIssueValue(name: string, value: unknown) {
+  if (value === undefined) {
+    return "(not set)";
+  }
+
+  const redacted = redactEnvValue(name, value);
+  if (redacted === "[redacted]") {
+    return redacted;
+  }
+
+  const text = JSON.stringify(redacted);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Formats every invalid variable as a table of its name, redacted value and problem.
+ *
+ * @example
+ * // Invalid environment variables:
+ * //
+ * //   Variable      Value        Problem
+ * //   AUTH_SECRET   [redacted]   Must be a comma-separated list of secrets of at least 32 characters
+ * //   LOG_LEVEL     "verbose"    Invalid option: expected one of "fatal"|"error"|"warn"|"info"|"debug"|"trace"
+ */
+export function formatEnvIssues(issues: ReadonlyArray<EnvIssue>, values: Record<string, unknown>) {
+  const rows = issues
+    .map((issue) => {
+      const name = getIssueVariable(issue);
+      return [name, formatIssueValue(name, values[name]), issue.message];
+    })
+    .sort(([first = ""], [second = ""]) => first.localeCompare(second));
+  const table = [["Variable", "Value", "Problem"], ...rows];
+  const widths = [0, 1].map((column) => Math.max(...table.map((row) => row[column]?.length ?? 0)));
+
+  const lines = table.map((row) =>
+    row
+      .map((cell, column) => cell.padEnd(widths[column] ?? 0))
+      .join("   ")
+      .trimEnd()
+  );
+
+  return ["Invalid environment variables:", "", ...lines.map((line) => `  ${line}`)].join("\n");
+}
@@ -0,0 +1,16 @@
+import { CSRF_FIELD, getCsrfToken } from "~/lib/csrf";
+
+/**
+ * Hidden field with the CSRF token, for forms posting to route handlers. Server actions do not need it.
+ *
+ * @example
+ * <form action="/api/auth/signout" method="post">
+ *   <CsrfTokenField />
+ *   <Button type="submit">Sign out</Button>
+ * </form>
+ */
+export async function CsrfTokenField() {
+  const token = await getCsrfToken();
+
+  return token ? <input name={CSRF_FIELD} type="hidden" value={token} /> : null;
+}
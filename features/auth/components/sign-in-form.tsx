@@ -0,0 +1,54 @@
+"use client";
+
+import { Button, Field, FieldError, FieldGroup, FieldLabel, Input } from "@szum-tech/design-system";
+import { useRouter } from "next/navigation";
+import { signInSchema } from "~/features/auth/schemas/sign-in";
+import { signInWithCredentials } from "~/features/auth/server/actions/sign-in";
+import { useActionForm } from "~/lib/use-action-form";
+
+export type SignInFormProps = {
+  callbackUrl: string;
+};
+
+export function SignInForm({ callbackUrl }: SignInFormProps) {
+  const router = useRouter();
+  const { formError, formState, onSubmit, register } = useActionForm({
+    action: signInWithCredentials,
+    defaultValues: { callbackUrl, email: "", password: "" },
+    onSuccess: ({ redirectTo }) => router.replace(redirectTo),
+    schema: signInSchema
+  });
+
+  return (
+    <form noValidate onSubmit={onSubmit}>
+      <FieldGroup>
+        <Field>
+          <FieldLabel htmlFor="sign-in-email">Email</FieldLabel>
+          <Input
+            autoComplete="email"
+            id="sign-in-email"
+            invalid={!!formState.errors.email}
+            type="email"
+            {...register("email")}
+          />
+          <FieldError errors={[formState.errors.email]} />
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="sign-in-password">Password</FieldLabel>
+          <Input
+            autoComplete="current-password"
+            id="sign-in-password"
+            invalid={!!formState.errors.password}
+            type="password"
+            {...register("password")}
+          />
+          <FieldError errors={[formState.errors.password]} />
+        </Field>
+        {formError ? <FieldError>{formError}</FieldError> : null}
+        <Button loading={formState.isSubmitting || formState.isSubmitSuccessful} type="submit">
+          Sign in
+        </Button>
+      </FieldGroup>
+    </form>
+  );
+}
@@ -0,0 +1,14 @@
+import { z } from "zod";
+
+/**
+ * Credentials sign-in form, validated in the browser by `useActionForm` and again on the server
+ * by `signInWithCredentials`.
+ */
+export const signInSchema = z.object({
+  /** Path to return to once signed in, sanitized on the server. */
+  callbackUrl: z.string().optional(),
+  email: z.email("Enter a valid email address"),
+  password: z.string().min(1, "Enter your password")
+});
+
+export type SignInInput = z.input<typeof signInSchema>;
@@ -0,0 +1,58 @@
+"use server";
+
+import { createHash } from "node:crypto";
+import { headers } from "next/headers";
+import { signInSchema } from "~/features/auth/schemas/sign-in";
+import { findUserByEmail, toSessionUser } from "~/features/auth/server/db/users";
+import { createAction } from "~/lib/action";
+import { getRateLimitStore } from "~/lib/api-rate-limit";
+import { sanitizeCallbackUrl, startSession } from "~/lib/auth";
+import { RateLimitedError, UnauthorizedError } from "~/lib/errors";
+import { hashPassword, verifyPassword } from "~/lib/password";
+import { consumeRateLimit, getClientIp, slidingWindow } from "~/lib/rate-limit";
+
+/**
+ * Attempts per email from one client IP within 15 minutes, slowing down password guessing without letting others
+ * lock the owner of the email out.
+ */
+const attemptsPerEmail = slidingWindow({ limit: 10, windowMs: 15 * 60_000 });
+
+/**
+ * Attempts per client IP within 15 minutes, slowing down guessing the passwords of many emails.
+ */
+const attemptsPerIp = slidingWindow({ limit: 50, windowMs: 15 * 60_000 });
+
+let unknownUserHash: Promise<string> | undefined;
+
+export const signInWithCredentials = createAction({
+  handler: async ({ callbackUrl, email, password }) => {
+    // Counted in the store of the API rate limits, shared by all instances when set to Redis
+    const ip = getClientIp({ headers: await headers() });
+    const emailHash = createHash("sha256").update(email.toLowerCase()).digest("base64url");
+    const store = getRateLimitStore();
+    const decisions = [
+      await consumeRateLimit(store, `sign-in:ip:${ip}`, attemptsPerIp),
+      await consumeRateLimit(store, `sign-in:email:${emailHash}:${ip}`, attemptsPerEmail)
+    ];
+    const rejected = decisions.find(({ allowed }) => !allowed);
+    if (rejected) {
+      throw new RateLimitedError("Too many sign-in attempts, please try again later", {
+        retryAfterSeconds: rejected.retryAfterMs / 1000
+      });
+    }
+
+    // Unknown emails are checked against a hash as well, so the response time does not reveal which exist
+    unknownUserHash ??= hashPassword(crypto.randomUUID());
+    const user = await findUserByEmail(email);
+    const valid = await verifyPassword(password, user?.passwordHash ?? (await unknownUserHash));
+    if (!user?.passwordHash || !valid) {
+      throw new UnauthorizedError("The email or password is incorrect");
+    }
+
+    await startSession(toSessionUser(user), "credentials");
+
+    return { redirectTo: sanitizeCallbackUrl(callbackUrl) };
+  },
+  name: "auth.sign-in",
+  schema: signInSchema
+});
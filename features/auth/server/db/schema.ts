@@ -0,0 +1,32 @@
+import type { ColumnType, Generated, Insertable, Selectable } from "kysely";
+
+/**
+ * The `user` table, created by `data/db/migrations/0003_create_user.ts`.
+ */
+export interface UserTable {
+  createdAt: ColumnType<Date, never, never>;
+  /** Stored lowercase, unique. */
+  email: string;
+  id: Generated<string>;
+  name: string | null;
+  /** `null` for users signing in with OAuth providers only. */
+  passwordHash: string | null;
+  roles: Generated<Array<string>>;
+}
+
+export type User = Selectable<UserTable>;
+export type NewUser = Insertable<UserTable>;
+
+/**
+ * The `account` table: the accounts at OAuth providers users sign in with, created with the `user` table.
+ */
+export interface AccountTable {
+  createdAt: ColumnType<Date, never, never>;
+  provider: string;
+  /** Id of the user's account at the provider. */
+  providerAccountId: string;
+  userId: string;
+}
+
+export type Account = Selectable<AccountTable>;
+export type NewAccount = Insertable<AccountTable>;
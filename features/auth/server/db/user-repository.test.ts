@@ -0,0 +1,83 @@
+import { createUserRepository } from "~/features/auth/server/db/user-repository";
+import { createDatabase, IN_MEMORY_DATABASE_URL, migrateToLatest } from "~/lib/db";
+
+const db = createDatabase(IN_MEMORY_DATABASE_URL);
+const repository = createUserRepository(db);
+
+// Starting PGlite takes a few seconds
+beforeAll(async () => {
+  await migrateToLatest(db);
+}, 30_000);
+
+beforeEach(async () => {
+  await db.deleteFrom("user").execute();
+});
+
+afterAll(async () => {
+  await db.destroy();
+});
+
+const github = { provider: "github", providerAccountId: "42" };
+
+describe("createUserRepository", () => {
+  test("creates users with their provider account", async () => {
+    const created = await repository.createWithAccount(
+      { email: "Ada@Example.com", name: "Ada", passwordHash: null },
+      github
+    );
+
+    expect(created).toEqual({
+      createdAt: expect.any(Date),
+      email: "ada@example.com",
+      id: expect.stringMatching(/^[0-9a-f-]{36}$/),
+      name: "Ada",
+      passwordHash: null,
+      roles: ["member"]
+    });
+    expect(await repository.findByAccount(github)).toEqual(created);
+    expect(await repository.findByAccount({ ...github, provider: "oauth" })).toBeNull();
+  });
+
+  test("finds users by email regardless of case", async () => {
+    const created = await repository.createWithAccount(
+      { email: "ada@example.com", name: null, passwordHash: null },
+      github
+    );
+
+    expect(await repository.findByEmail("ADA@example.com")).toEqual(created);
+    expect(await repository.findByEmail("grace@example.com")).toBeNull();
+  });
+
+  test("rejects a second user with the same email", async () => {
+    await repository.createWithAccount({ email: "ada@example.com", name: null, passwordHash: null }, github);
+
+    await expect(
+      repository.createWithAccount(
+        { email: "ada@example.com", name: null, passwordHash: null },
+        { provider: "oauth", providerAccountId: "7" }
+      )
+    ).rejects.toThrow();
+    expect(await repository.findByAccount({ provider: "oauth", providerAccountId: "7" })).toBeNull();
+  });
+
+  test("creates users with a fixed id or updates them", async () => {
+    const user = { email: "demo@example.com", id: "demo-user", name: "Demo User", passwordHash: "first" };
+
+    await repository.upsert({ ...user, roles: ["member"] });
+    const updated = await repository.upsert({ ...user, passwordHash: "second", roles: ["member"] });
+
+    expect(updated).toMatchObject({ id: "demo-user", passwordHash: "second", roles: ["member"] });
+    expect(await repository.findByEmail("demo@example.com")).toEqual(updated);
+  });
+
+  test("deletes the accounts of deleted users", async () => {
+    const created = await repository.createWithAccount(
+      { email: "ada@example.com", name: null, passwordHash: null },
+      github
+    );
+
+    await db.deleteFrom("user").where("id", "=", created.id).execute();
+
+    expect(await db.selectFrom("account").selectAll().execute()).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import type { Kysely } from "kysely";
+import type { NewUser } from "~/features/auth/server/db/schema";
+import { type Database, getDb } from "~/lib/db";
+
+export interface ProviderAccount {
+  provider: string;
+  /** Id of the user's account at the provider. */
+  providerAccountId: string;
+}
+
+/**
+ * Data access of the `user` and `account` tables. Emails are compared lowercase.
+ */
+export function createUserRepository(db: Kysely<Database> = getDb()) {
+  return {
+    /**
+     * Creates a user signing in with the provider account.
+     */
+    createWithAccount(user: NewUser, account: ProviderAccount) {
+      return db.transaction().execute(async (transaction) => {
+        const created = await transaction
+          .insertInto("user")
+          .values({ ...user, email: user.email.toLowerCase() })
+          .returningAll()
+          .executeTakeFirstOrThrow();
+        await transaction
+          .insertInto("account")
+          .values({ ...account, userId: created.id })
+          .execute();
+
+        return created;
+      });
+    },
+
+    async findByAccount({ provider, providerAccountId }: ProviderAccount) {
+      return (
+        (await db
+          .selectFrom("account")
+          .innerJoin("user", "user.id", "account.userId")
+          .selectAll("user")
+          .where("account.provider", "=", provider)
+          .where("account.providerAccountId", "=", providerAccountId)
+          .executeTakeFirst()) ?? null
+      );
+    },
+
+    async findByEmail(email: string) {
+      return (
+        (await db.selectFrom("user").selectAll().where("email", "=", email.toLowerCase()).executeTakeFirst()) ?? null
+      );
+    },
+
+    /**
+     * Creates the user with a fixed id, or updates its email, name and password, e.g. for the demo user.
+     */
+    upsert(user: NewUser & { id: string }) {
+      const values = { ...user, email: user.email.toLowerCase() };
+
+      return db
+        .insertInto("user")
+        .values(values)
+        .onConflict((conflict) =>
+          conflict
+            .column("id")
+            .doUpdateSet({ email: values.email, name: values.name, passwordHash: values.passwordHash })
+        )
+        .returningAll()
+        .executeTakeFirstOrThrow();
+    }
+  };
+}
+
+export type UserRepository = ReturnType<typeof createUserRepository>;
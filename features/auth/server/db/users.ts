@@ -0,0 +1,71 @@
+import { env } from "~/data/env/server";
+import type { User } from "~/features/auth/server/db/schema";
+import { createUserRepository } from "~/features/auth/server/db/user-repository";
+import { ConflictError } from "~/lib/errors";
+import type { OAuthProfile } from "~/lib/oauth";
+import { hashPassword } from "~/lib/password";
+import type { SessionUser } from "~/lib/session";
+
+/**
+ * Id of the demo user, fixed so the data it owns, such as the sample notes of `npm run db:seed`, belongs to it.
+ */
+export const DEMO_USER_ID = "demo-user";
+
+let demoUserSeeded: Promise<void> | undefined;
+
+/**
+ * Adds the demo user configured with `AUTH_DEMO_EMAIL` and `AUTH_DEMO_PASSWORD`, or updates it to them, once per
+ * process. Tried again on the next sign-in when the database was not available.
+ */
+function seedDemoUser() {
+  demoUserSeeded ??= (async () => {
+    if (env.AUTH_DEMO_EMAIL && env.AUTH_DEMO_PASSWORD) {
+      await createUserRepository().upsert({
+        email: env.AUTH_DEMO_EMAIL,
+        id: DEMO_USER_ID,
+        name: "Demo User",
+        passwordHash: await hashPassword(env.AUTH_DEMO_PASSWORD),
+        roles: ["member"]
+      });
+    }
+  })().catch((error: unknown) => {
+    demoUserSeeded = undefined;
+    throw error;
+  });
+
+  return demoUserSeeded;
+}
+
+export async function findUserByEmail(email: string) {
+  await seedDemoUser();
+
+  return createUserRepository().findByEmail(email);
+}
+
+/**
+ * Finds the user linked to the provider account, creating one on the first sign-in. Accounts are never
+ * linked to existing users by email, as providers do not necessarily verify it.
+ * @throws {ConflictError} When another user already has the email
+ */
+export async function upsertOAuthUser(provider: string, profile: OAuthProfile) {
+  await seedDemoUser();
+  const users = createUserRepository();
+  const account = { provider, providerAccountId: profile.id };
+
+  const existing = await users.findByAccount(account);
+  if (existing) {
+    return existing;
+  }
+  if (await users.findByEmail(profile.email)) {
+    throw new ConflictError("An account with this email already exists, sign in the way you did before");
+  }
+
+  return users.createWithAccount({ email: profile.email, name: profile.name, passwordHash: null }, account);
+}
+
+/**
+ * The part of the user stored in the session cookie.
+ */
+export function toSessionUser({ email, id, name, roles }: User): SessionUser {
+  return { email, id, name, roles };
+}
@@ -0,0 +1,71 @@
+import { expect, fn, waitFor } from "storybook/test";
+import preview from "~/.storybook/preview";
+import { EditNoteForm, type EditNoteFormProps } from "./edit-note-form";
+
+const NOTE = { content: "Milk, eggs and bread", id: "00000000-0000-4000-8000-000000000001", title: "Groceries" };
+
+const meta = preview.meta({
+  args: {
+    note: NOTE,
+    updateNote: fn<EditNoteFormProps["updateNote"]>(async (input) => ({
+      data: { ...input, authorId: "user-1", createdAt: new Date(), updatedAt: new Date() },
+      ok: true
+    }))
+  },
+  component: EditNoteForm,
+  decorators: [
+    (Story) => (
+      <div className="mx-auto max-w-2xl p-8">
+        <Story />
+      </div>
+    )
+  ],
+  parameters: {
+    layout: "fullscreen",
+    nextjs: { appDirectory: true }
+  },
+  title: "Features/Example Feature/Edit Note Form"
+});
+
+export const Default = meta.story();
+
+export const Rejected = meta.story({
+  args: {
+    updateNote: fn<EditNoteFormProps["updateNote"]>(async () => ({
+      fieldErrors: {},
+      formError: "You are not allowed to update this note",
+      ok: false
+    }))
+  }
+});
+
+Default.test("Shows the note's current values", async ({ canvas }) => {
+  await expect(canvas.getByLabelText("Title")).toHaveValue("Groceries");
+  await expect(canvas.getByLabelText("Content")).toHaveValue("Milk, eggs and bread");
+  await expect(canvas.getByRole("link", { name: "Cancel" })).toHaveAttribute("href", `/notes/${NOTE.id}`);
+});
+
+Default.test("Submits the changes with the note's id", async ({ args, canvas, userEvent }) => {
+  const title = canvas.getByLabelText("Title");
+  await userEvent.clear(title);
+  await userEvent.type(title, "Weekly groceries");
+  await userEvent.click(canvas.getByRole("button", { name: "Save" }));
+
+  await waitFor(() =>
+    expect(args.updateNote).toHaveBeenCalledWith({ content: NOTE.content, id: NOTE.id, title: "Weekly groceries" })
+  );
+});
+
+Default.test("Requires a title", async ({ args, canvas, userEvent }) => {
+  await userEvent.clear(canvas.getByLabelText("Title"));
+  await userEvent.click(canvas.getByRole("button", { name: "Save" }));
+
+  await expect(await canvas.findByText("Give the note a title")).toBeVisible();
+  await expect(args.updateNote).not.toHaveBeenCalled();
+});
+
+Rejected.test("Shows the error of a rejected update", async ({ canvas, userEvent }) => {
+  await userEvent.click(canvas.getByRole("button", { name: "Save" }));
+
+  await expect(await canvas.findByText("You are not allowed to update this note")).toBeVisible();
+});
@@ -0,0 +1,54 @@
+"use client";
+
+import { Button, Field, FieldError, FieldGroup, FieldLabel, Input, Textarea } from "@szum-tech/design-system";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { type UpdateNoteInput, updateNoteSchema } from "~/features/example-feature/schemas/note";
+import type { Note } from "~/features/example-feature/server/db/schema";
+import type { ActionResult } from "~/lib/action";
+import { useActionForm } from "~/lib/use-action-form";
+
+export interface EditNoteFormProps {
+  note: Pick<Note, "content" | "id" | "title">;
+  /** The `updateNote` server action, passed in by the page so stories can replace it. */
+  updateNote: (input: UpdateNoteInput) => Promise<ActionResult<Note>>;
+}
+
+/**
+ * Edits a note, then returns to its page.
+ */
+export function EditNoteForm({ note, updateNote }: EditNoteFormProps) {
+  const router = useRouter();
+  const { formError, formState, onSubmit, register } = useActionForm({
+    action: updateNote,
+    defaultValues: { content: note.content, id: note.id, title: note.title },
+    onSuccess: ({ id }) => router.push(`/notes/${id}`),
+    schema: updateNoteSchema
+  });
+
+  return (
+    <form noValidate onSubmit={onSubmit}>
+      <FieldGroup>
+        <Field>
+          <FieldLabel htmlFor="note-title">Title</FieldLabel>
+          <Input id="note-title" invalid={!!formState.errors.title} {...register("title")} />
+          <FieldError errors={[formState.errors.title]} />
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="note-content">Content</FieldLabel>
+          <Textarea id="note-content" invalid={!!formState.errors.content} rows={10} {...register("content")} />
+          <FieldError errors={[formState.errors.content]} />
+        </Field>
+        {formError ? <FieldError>{formError}</FieldError> : null}
+        <div className="flex gap-2">
+          <Button loading={formState.isSubmitting} type="submit">
+            Save
+          </Button>
+          <Button asChild variant="outline">
+            <Link href={`/notes/${note.id}`}>Cancel</Link>
+          </Button>
+        </div>
+      </FieldGroup>
+    </form>
+  );
+}
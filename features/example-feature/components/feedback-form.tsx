@@ -0,0 +1,42 @@
+"use client";
+
+import { Button, Field, FieldError, FieldGroup, FieldLabel, Input, Textarea } from "@szum-tech/design-system";
+import * as React from "react";
+import { feedbackSchema } from "~/features/example-feature/schemas/feedback";
+import { sendFeedback } from "~/features/example-feature/server/actions/send-feedback";
+import { useActionForm } from "~/lib/use-action-form";
+
+export function FeedbackForm() {
+  const [sent, setSent] = React.useState(false);
+  const { formError, formState, onSubmit, register, reset } = useActionForm({
+    action: sendFeedback,
+    defaultValues: { email: "", message: "" },
+    onSuccess: () => {
+      setSent(true);
+      reset();
+    },
+    schema: feedbackSchema
+  });
+
+  return (
+    <form noValidate onSubmit={onSubmit}>
+      <FieldGroup>
+        <Field>
+          <FieldLabel htmlFor="feedback-email">Email</FieldLabel>
+          <Input id="feedback-email" invalid={!!formState.errors.email} type="email" {...register("email")} />
+          <FieldError errors={[formState.errors.email]} />
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="feedback-message">Message</FieldLabel>
+          <Textarea id="feedback-message" invalid={!!formState.errors.message} {...register("message")} />
+          <FieldError errors={[formState.errors.message]} />
+        </Field>
+        {formError ? <FieldError>{formError}</FieldError> : null}
+        {sent ? <p role="status">Thanks for your feedback!</p> : null}
+        <Button loading={formState.isSubmitting} type="submit">
+          Send feedback
+        </Button>
+      </FieldGroup>
+    </form>
+  );
+}
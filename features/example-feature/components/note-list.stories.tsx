@@ -0,0 +1,109 @@
+import { expect, fn, waitFor } from "storybook/test";
+import preview from "~/.storybook/preview";
+import type { Note } from "~/features/example-feature/server/db/schema";
+import { NoteList, type NoteListProps } from "./note-list";
+
+const NOTES = [
+  { content: "Milk, eggs and bread", id: "00000000-0000-4000-8000-000000000001", title: "Groceries" },
+  { content: "", id: "00000000-0000-4000-8000-000000000002", title: "Call the plumber" }
+];
+
+const savedNote = (input: { content: string; title: string }): Note => ({
+  authorId: "user-1",
+  content: input.content,
+  createdAt: new Date(),
+  id: "00000000-0000-4000-8000-000000000003",
+  title: input.title,
+  updatedAt: new Date()
+});
+
+const meta = preview.meta({
+  args: {
+    createNote: fn<NoteListProps["createNote"]>(async (input) => ({ data: savedNote(input), ok: true })),
+    deleteNote: fn<NoteListProps["deleteNote"]>(async ({ id }) => ({ data: { id }, ok: true })),
+    notes: NOTES
+  },
+  component: NoteList,
+  decorators: [
+    (Story) => (
+      <div className="mx-auto max-w-2xl p-8">
+        <Story />
+      </div>
+    )
+  ],
+  parameters: {
+    layout: "fullscreen",
+    nextjs: { appDirectory: true }
+  },
+  title: "Features/Example Feature/Note List"
+});
+
+export const Default = meta.story();
+
+export const Empty = meta.story({ args: { notes: [] } });
+
+export const FailingActions = meta.story({
+  args: {
+    createNote: fn<NoteListProps["createNote"]>(async () => ({
+      fieldErrors: {},
+      formError: "Something went wrong, please try again",
+      ok: false
+    })),
+    deleteNote: fn<NoteListProps["deleteNote"]>(async () => ({
+      fieldErrors: {},
+      formError: "You are not allowed to delete this note",
+      ok: false
+    }))
+  }
+});
+
+Default.test("Lists the notes with links to their pages", async ({ canvas }) => {
+  const items = canvas.getAllByRole("listitem");
+  await expect(items).toHaveLength(2);
+  await expect(canvas.getByRole("link", { name: "Groceries" })).toHaveAttribute(
+    "href",
+    "/notes/00000000-0000-4000-8000-000000000001"
+  );
+});
+
+Default.test("Adds a note and clears the form", async ({ args, canvas, step, userEvent }) => {
+  await step("Fill in and submit the form", async () => {
+    await userEvent.type(canvas.getByLabelText("Title"), "Book flights");
+    await userEvent.type(canvas.getByLabelText("Content"), "Before the end of May");
+    await userEvent.click(canvas.getByRole("button", { name: "Add note" }));
+  });
+
+  await step("Verify the action was called and the form reset", async () => {
+    await waitFor(() =>
+      expect(args.createNote).toHaveBeenCalledWith({ content: "Before the end of May", title: "Book flights" })
+    );
+    await waitFor(() => expect(canvas.getByLabelText("Title")).toHaveValue(""));
+  });
+});
+
+Default.test("Validates the note before calling the action", async ({ args, canvas, userEvent }) => {
+  await userEvent.click(canvas.getByRole("button", { name: "Add note" }));
+
+  await expect(await canvas.findByText("Give the note a title")).toBeVisible();
+  await expect(args.createNote).not.toHaveBeenCalled();
+});
+
+Default.test("Deletes a note", async ({ args, canvas, userEvent }) => {
+  await userEvent.click(canvas.getByRole("button", { name: "Delete Groceries" }));
+
+  await waitFor(() => expect(args.deleteNote).toHaveBeenCalledWith({ id: "00000000-0000-4000-8000-000000000001" }));
+});
+
+Empty.test("Invites to add the first note", async ({ canvas }) => {
+  await expect(canvas.getByText("No notes yet, add your first one above.")).toBeVisible();
+});
+
+FailingActions.test("Shows the errors of failed actions", async ({ canvas, userEvent }) => {
+  await userEvent.click(canvas.getByRole("button", { name: "Delete Groceries" }));
+  await expect(await canvas.findByText("You are not allowed to delete this note")).toBeVisible();
+  await expect(canvas.getByRole("link", { name: "Groceries" })).toBeVisible();
+
+  await userEvent.type(canvas.getByLabelText("Title"), "Book flights");
+  await userEvent.click(canvas.getByRole("button", { name: "Add note" }));
+  await expect(await canvas.findByText("Something went wrong, please try again")).toBeVisible();
+});
@@ -0,0 +1,138 @@
+"use client";
+
+import {
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Field,
+  FieldError,
+  FieldGroup,
+  FieldLabel,
+  Input,
+  Textarea
+} from "@szum-tech/design-system";
+import Link from "next/link";
+import * as React from "react";
+import { type DeleteNoteInput, type NoteInput, noteSchema } from "~/features/example-feature/schemas/note";
+import type { Note } from "~/features/example-feature/server/db/schema";
+import type { ActionResult } from "~/lib/action";
+import { useActionForm } from "~/lib/use-action-form";
+
+/**
+ * A note as listed, `pending` while it is being saved.
+ */
+type ListedNote = Pick<Note, "content" | "id" | "title"> & { pending?: boolean };
+
+type OptimisticUpdate = { note: ListedNote; type: "add" } | { id: string; type: "remove" };
+
+function applyOptimisticUpdate(notes: Array<ListedNote>, update: OptimisticUpdate) {
+  return update.type === "add" ? [update.note, ...notes] : notes.filter(({ id }) => id !== update.id);
+}
+
+export interface NoteListProps {
+  /** The `createNote` server action, passed in by the page so stories can replace it. */
+  createNote: (input: NoteInput) => Promise<ActionResult<Note>>;
+  /** The `deleteNote` server action. */
+  deleteNote: (input: DeleteNoteInput) => Promise<ActionResult<{ id: string }>>;
+  notes: Array<ListedNote>;
+}
+
+/**
+ * The notes of the signed-in user with a form adding one. Added and deleted notes show up right away with
+ * `useOptimistic`; once the action completed, the list the page renders again replaces the optimistic one.
+ */
+export function NoteList({ createNote, deleteNote, notes }: NoteListProps) {
+  const [optimisticNotes, updateOptimisticNotes] = React.useOptimistic(notes, applyOptimisticUpdate);
+  const [deleteError, setDeleteError] = React.useState<string>();
+
+  const { formError, formState, onSubmit, register, reset } = useActionForm({
+    // The optimistic note lives as long as the transition, which ends with the page rendered again
+    action: (input: NoteInput) =>
+      new Promise<ActionResult<Note>>((resolve, reject) => {
+        React.startTransition(async () => {
+          updateOptimisticNotes({
+            note: { content: input.content.trim(), id: crypto.randomUUID(), pending: true, title: input.title.trim() },
+            type: "add"
+          });
+          await createNote(input).then(resolve, reject);
+        });
+      }),
+    defaultValues: { content: "", title: "" },
+    onSuccess: () => {
+      reset();
+    },
+    schema: noteSchema
+  });
+
+  function onDelete(id: string) {
+    setDeleteError(undefined);
+    React.startTransition(async () => {
+      updateOptimisticNotes({ id, type: "remove" });
+      const result = await deleteNote({ id }).catch(() => null);
+      if (!result?.ok) {
+        setDeleteError(result?.formError ?? "The note could not be deleted, please try again");
+      }
+    });
+  }
+
+  return (
+    <div className="flex flex-col gap-8">
+      <form aria-label="New note" noValidate onSubmit={onSubmit}>
+        <FieldGroup>
+          <Field>
+            <FieldLabel htmlFor="note-title">Title</FieldLabel>
+            <Input id="note-title" invalid={!!formState.errors.title} {...register("title")} />
+            <FieldError errors={[formState.errors.title]} />
+          </Field>
+          <Field>
+            <FieldLabel htmlFor="note-content">Content</FieldLabel>
+            <Textarea id="note-content" invalid={!!formState.errors.content} {...register("content")} />
+            <FieldError errors={[formState.errors.content]} />
+          </Field>
+          {formError ? <FieldError>{formError}</FieldError> : null}
+          <Button loading={formState.isSubmitting} type="submit">
+            Add note
+          </Button>
+        </FieldGroup>
+      </form>
+
+      {deleteError ? <FieldError>{deleteError}</FieldError> : null}
+
+      {optimisticNotes.length > 0 ? (
+        <ul aria-label="Notes" className="flex flex-col gap-4">
+          {optimisticNotes.map((note) => (
+            <li aria-busy={note.pending} key={note.id}>
+              <Card className={note.pending ? "opacity-60" : undefined}>
+                <CardHeader className="flex flex-row items-center justify-between gap-4">
+                  <CardTitle className="text-heading-h4">
+                    {note.pending ? note.title : <Link href={`/notes/${note.id}`}>{note.title}</Link>}
+                  </CardTitle>
+                  {note.pending ? null : (
+                    <Button
+                      aria-label={`Delete ${note.title}`}
+                      onClick={() => onDelete(note.id)}
+                      size="sm"
+                      type="button"
+                      variant="outline"
+                    >
+                      Delete
+                    </Button>
+                  )}
+                </CardHeader>
+                {note.content ? (
+                  <CardContent>
+                    <p className="line-clamp-3 whitespace-pre-wrap text-muted-foreground">{note.content}</p>
+                  </CardContent>
+                ) : null}
+              </Card>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-muted-foreground">No notes yet, add your first one above.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+/**
+ * Feedback form, validated in the browser by `useActionForm` and again on the server by `sendFeedback`.
+ */
+export const feedbackSchema = z.object({
+  email: z.email("Enter a valid email address"),
+  message: z
+    .string()
+    .trim()
+    .min(10, "Tell us a bit more, at least 10 characters")
+    .max(1000, "Keep it under 1000 characters")
+});
+
+export type FeedbackInput = z.input<typeof feedbackSchema>;
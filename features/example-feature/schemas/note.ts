@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+/**
+ * Note form, shared by `createNote` and `updateNote` and validated in the browser by `useActionForm`.
+ */
+export const noteSchema = z.object({
+  content: z.string().trim().max(5000, "Keep it under 5000 characters"),
+  title: z.string().trim().min(1, "Give the note a title").max(120, "Keep the title under 120 characters")
+});
+
+export type NoteInput = z.input<typeof noteSchema>;
+
+export const updateNoteSchema = noteSchema.extend({
+  id: z.uuid()
+});
+
+export type UpdateNoteInput = z.input<typeof updateNoteSchema>;
+
+export const deleteNoteSchema = z.object({
+  id: z.uuid()
+});
+
+export type DeleteNoteInput = z.input<typeof deleteNoteSchema>;
@@ -0,0 +1,21 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { noteSchema } from "~/features/example-feature/schemas/note";
+import { createNoteRepository } from "~/features/example-feature/server/db/note-repository";
+import { assertCan } from "~/features/example-feature/server/permissions";
+import { createAction } from "~/lib/action";
+import { getCurrentUser } from "~/lib/auth";
+
+export const createNote = createAction({
+  handler: async (input) => {
+    const author = assertCan(await getCurrentUser(), "create", "note");
+    const note = await createNoteRepository().create({ ...input, authorId: author.id });
+
+    revalidatePath("/notes");
+
+    return note;
+  },
+  name: "example-feature.create-note",
+  schema: noteSchema
+});
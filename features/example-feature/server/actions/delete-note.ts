@@ -0,0 +1,27 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { deleteNoteSchema } from "~/features/example-feature/schemas/note";
+import { createNoteRepository } from "~/features/example-feature/server/db/note-repository";
+import { assertCan } from "~/features/example-feature/server/permissions";
+import { createAction } from "~/lib/action";
+import { getCurrentUser } from "~/lib/auth";
+import { NotFoundError } from "~/lib/errors";
+
+export const deleteNote = createAction({
+  handler: async ({ id }) => {
+    const repository = createNoteRepository();
+    const note = await repository.findById(id);
+    if (!note) {
+      throw new NotFoundError("The note does not exist");
+    }
+    assertCan(await getCurrentUser(), "delete", { ownerId: note.authorId, type: "note" });
+
+    await repository.delete(id);
+    revalidatePath("/notes");
+
+    return { id };
+  },
+  name: "example-feature.delete-note",
+  schema: deleteNoteSchema
+});
@@ -0,0 +1,137 @@
+import { createNote } from "~/features/example-feature/server/actions/create-note";
+import { deleteNote } from "~/features/example-feature/server/actions/delete-note";
+import { updateNote } from "~/features/example-feature/server/actions/update-note";
+import { createNoteRepository } from "~/features/example-feature/server/db/note-repository";
+import { getDb, migrateToLatest } from "~/lib/db";
+
+const { auth, revalidatePath } = vi.hoisted(() => ({
+  auth: { user: null as { email: string; id: string; name: string | null; roles: Array<string> } | null },
+  revalidatePath: vi.fn()
+}));
+
+vi.mock("~/lib/auth", () => ({ getCurrentUser: async () => auth.user }));
+
+vi.mock("next/cache", () => ({ revalidatePath }));
+
+vi.mock("next/headers", () => ({ headers: async () => new Headers() }));
+
+vi.mock("~/lib/logger", () => {
+  const logger = {
+    debug: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    trace: vi.fn(),
+    warn: vi.fn(),
+    withContext: () => logger,
+    withError: () => logger,
+    withMetadata: () => logger
+  };
+  return { getRequestLogger: () => logger };
+});
+
+const users = {
+  admin: { email: "admin@example.com", id: "admin-1", name: null, roles: ["admin"] },
+  member: { email: "ada@example.com", id: "member-1", name: "Ada", roles: ["member"] },
+  otherMember: { email: "grace@example.com", id: "member-2", name: "Grace", roles: ["member"] },
+  viewer: { email: "viewer@example.com", id: "viewer-1", name: null, roles: ["viewer"] }
+};
+
+const repository = createNoteRepository();
+
+// The actions use the shared in-memory database of the tests, starting PGlite takes a few seconds
+beforeAll(async () => {
+  await migrateToLatest();
+}, 30_000);
+
+beforeEach(async () => {
+  auth.user = users.member;
+  revalidatePath.mockClear();
+  await getDb().deleteFrom("note").execute();
+});
+
+afterAll(async () => {
+  await getDb().destroy();
+});
+
+describe("createNote", () => {
+  test("saves the note of the signed-in user", async () => {
+    const result = await createNote({ content: "  Milk  ", title: "Groceries" });
+
+    expect(result).toEqual({
+      data: expect.objectContaining({ authorId: "member-1", content: "Milk", title: "Groceries" }),
+      ok: true
+    });
+    expect(await repository.listByAuthor("member-1")).toHaveLength(1);
+    expect(revalidatePath).toHaveBeenCalledWith("/notes");
+  });
+
+  test("returns field errors for invalid notes", async () => {
+    expect(await createNote({ content: "", title: " " })).toEqual({
+      fieldErrors: { title: ["Give the note a title"] },
+      ok: false
+    });
+  });
+
+  test("requires a user allowed to write notes", async () => {
+    auth.user = null;
+    expect(await createNote({ content: "", title: "Groceries" })).toEqual({
+      fieldErrors: {},
+      formError: "Authentication is required",
+      ok: false
+    });
+
+    auth.user = users.viewer;
+    expect(await createNote({ content: "", title: "Groceries" })).toMatchObject({
+      formError: "You are not allowed to create this note",
+      ok: false
+    });
+  });
+});
+
+describe("updateNote", () => {
+  test("lets authors and admins update notes", async () => {
+    const note = await repository.create({ authorId: "member-1", content: "", title: "Draft" });
+
+    expect(await updateNote({ content: "Done", id: note.id, title: "Final" })).toMatchObject({
+      data: { content: "Done", id: note.id, title: "Final" },
+      ok: true
+    });
+
+    auth.user = users.admin;
+    expect(await updateNote({ content: "", id: note.id, title: "Moderated" })).toMatchObject({ ok: true });
+    expect(revalidatePath).toHaveBeenCalledWith(`/notes/${note.id}`);
+  });
+
+  test("rejects updates of someone else's note", async () => {
+    const note = await repository.create({ authorId: "member-1", content: "", title: "Draft" });
+    auth.user = users.otherMember;
+
+    expect(await updateNote({ content: "", id: note.id, title: "Hijacked" })).toMatchObject({
+      formError: "You are not allowed to update this note",
+      ok: false
+    });
+    expect(await repository.findById(note.id)).toMatchObject({ title: "Draft" });
+  });
+
+  test("reports missing notes", async () => {
+    expect(await updateNote({ content: "", id: "00000000-0000-4000-8000-000000000000", title: "Final" })).toMatchObject(
+      { formError: "The note does not exist", ok: false }
+    );
+  });
+});
+
+describe("deleteNote", () => {
+  test("lets authors delete their notes only", async () => {
+    const note = await repository.create({ authorId: "member-1", content: "", title: "Draft" });
+
+    auth.user = users.otherMember;
+    expect(await deleteNote({ id: note.id })).toMatchObject({
+      formError: "You are not allowed to delete this note",
+      ok: false
+    });
+
+    auth.user = users.member;
+    expect(await deleteNote({ id: note.id })).toEqual({ data: { id: note.id }, ok: true });
+    expect(await repository.findById(note.id)).toBeNull();
+  });
+});
@@ -0,0 +1,23 @@
+"use server";
+
+import { feedbackSchema } from "~/features/example-feature/schemas/feedback";
+import { createFeedbackRepository } from "~/features/example-feature/server/db/feedback-repository";
+import { createAction } from "~/lib/action";
+import { getCurrentUser } from "~/lib/auth";
+import { getRequestLogger } from "~/lib/logger";
+
+export const sendFeedback = createAction({
+  handler: async ({ email, message }) => {
+    const user = await getCurrentUser();
+    const feedback = await createFeedbackRepository().create({ authorId: user?.id ?? null, email, message });
+
+    getRequestLogger()
+      .withContext({ module: "example-feature" })
+      .withMetadata({ email, feedbackId: feedback.id, length: message.length })
+      .info("Feedback received");
+
+    return { id: feedback.id, receivedAt: feedback.createdAt.toISOString() };
+  },
+  name: "example-feature.send-feedback",
+  schema: feedbackSchema
+});
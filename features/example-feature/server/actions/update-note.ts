@@ -0,0 +1,33 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { updateNoteSchema } from "~/features/example-feature/schemas/note";
+import { createNoteRepository } from "~/features/example-feature/server/db/note-repository";
+import { assertCan } from "~/features/example-feature/server/permissions";
+import { createAction } from "~/lib/action";
+import { getCurrentUser } from "~/lib/auth";
+import { NotFoundError } from "~/lib/errors";
+
+export const updateNote = createAction({
+  handler: async ({ id, ...changes }) => {
+    const repository = createNoteRepository();
+    const note = await repository.findById(id);
+    if (!note) {
+      throw new NotFoundError("The note does not exist");
+    }
+    assertCan(await getCurrentUser(), "update", { ownerId: note.authorId, type: "note" });
+
+    // Deleted in the meantime
+    const updated = await repository.update(id, changes);
+    if (!updated) {
+      throw new NotFoundError("The note does not exist");
+    }
+
+    revalidatePath("/notes");
+    revalidatePath(`/notes/${id}`);
+
+    return updated;
+  },
+  name: "example-feature.update-note",
+  schema: updateNoteSchema
+});
@@ -0,0 +1,89 @@
+import { createFeedbackRepository } from "~/features/example-feature/server/db/feedback-repository";
+import { seedFeedback } from "~/features/example-feature/server/db/seed";
+import { createDatabase, IN_MEMORY_DATABASE_URL, migrateToLatest } from "~/lib/db";
+
+const db = createDatabase(IN_MEMORY_DATABASE_URL);
+const repository = createFeedbackRepository(db);
+
+// Starting PGlite takes a few seconds
+beforeAll(async () => {
+  await migrateToLatest(db);
+}, 30_000);
+
+beforeEach(async () => {
+  await db.deleteFrom("feedback").execute();
+});
+
+afterAll(async () => {
+  await db.destroy();
+});
+
+const feedback = (overrides: Partial<{ authorId: string | null; email: string; message: string }> = {}) => ({
+  authorId: null,
+  email: "ada@example.com",
+  message: "Great template",
+  ...overrides
+});
+
+describe("createFeedbackRepository", () => {
+  test("creates feedback with a generated id and creation date", async () => {
+    const created = await repository.create(feedback({ authorId: "user-1" }));
+
+    expect(created).toEqual({
+      authorId: "user-1",
+      createdAt: expect.any(Date),
+      email: "ada@example.com",
+      id: expect.stringMatching(/^[0-9a-f-]{36}$/),
+      message: "Great template"
+    });
+    expect(await repository.findById(created.id)).toEqual(created);
+  });
+
+  test("returns null for unknown ids", async () => {
+    expect(await repository.findById("00000000-0000-4000-8000-000000000000")).toBeNull();
+  });
+
+  test("lists feedback newest first, filtered by author and paginated", async () => {
+    const first = await repository.create(feedback({ authorId: "user-1", message: "first" }));
+    const second = await repository.create(feedback({ authorId: "user-2", message: "second" }));
+    const third = await repository.create(feedback({ authorId: "user-1", message: "third" }));
+
+    expect((await repository.list()).map(({ id }) => id)).toEqual([third.id, second.id, first.id]);
+    expect((await repository.list({ authorId: "user-1" })).map(({ id }) => id)).toEqual([third.id, first.id]);
+    expect((await repository.list({ limit: 1, offset: 1 })).map(({ id }) => id)).toEqual([second.id]);
+  });
+
+  test("updates feedback", async () => {
+    const created = await repository.create(feedback());
+
+    expect(await repository.update(created.id, { message: "Updated" })).toEqual({ ...created, message: "Updated" });
+    expect(await repository.update("00000000-0000-4000-8000-000000000000", { message: "Updated" })).toBeNull();
+  });
+
+  test("deletes feedback", async () => {
+    const created = await repository.create(feedback());
+
+    expect(await repository.delete(created.id)).toBe(true);
+    expect(await repository.delete(created.id)).toBe(false);
+    expect(await repository.findById(created.id)).toBeNull();
+  });
+
+  test("rolls back the changes of a failed transaction", async () => {
+    await expect(
+      db.transaction().execute(async (trx) => {
+        await createFeedbackRepository(trx).create(feedback());
+        throw new Error("Abort");
+      })
+    ).rejects.toThrow("Abort");
+
+    expect(await repository.list()).toEqual([]);
+  });
+});
+
+describe("seedFeedback", () => {
+  test("inserts the sample feedback once", async () => {
+    expect(await seedFeedback(db)).toBe(2);
+    expect(await seedFeedback(db)).toBe(0);
+    expect(await repository.list()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,69 @@
+import type { Kysely } from "kysely";
+import type { FeedbackUpdate, NewFeedback } from "~/features/example-feature/server/db/schema";
+import { type Database, getDb } from "~/lib/db";
+
+export interface ListFeedbackOptions {
+  /** Only feedback sent by this user. */
+  authorId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Data access of the `feedback` table. Actions and route handlers use the repository instead of
+ * building queries, so they stay free of SQL and tests can run it against an in-memory database.
+ * Pass a transaction to run several calls atomically.
+ *
+ * @example
+ * const feedback = await createFeedbackRepository().create({ authorId: null, email, message });
+ *
+ * await getDb()
+ *   .transaction()
+ *   .execute(async (trx) => {
+ *     const repository = createFeedbackRepository(trx);
+ *     ...
+ *   });
+ */
+export function createFeedbackRepository(db: Kysely<Database> = getDb()) {
+  return {
+    create(feedback: NewFeedback) {
+      return db.insertInto("feedback").values(feedback).returningAll().executeTakeFirstOrThrow();
+    },
+
+    /**
+     * @returns Whether the feedback existed
+     */
+    async delete(id: string) {
+      const { numDeletedRows } = await db.deleteFrom("feedback").where("id", "=", id).executeTakeFirstOrThrow();
+
+      return numDeletedRows > 0n;
+    },
+
+    async findById(id: string) {
+      return (await db.selectFrom("feedback").selectAll().where("id", "=", id).executeTakeFirst()) ?? null;
+    },
+
+    /**
+     * Lists feedback, newest first.
+     */
+    list({ authorId, limit = 20, offset = 0 }: ListFeedbackOptions = {}) {
+      let query = db.selectFrom("feedback").selectAll().orderBy("createdAt", "desc").orderBy("id").limit(limit);
+      if (authorId) {
+        query = query.where("authorId", "=", authorId);
+      }
+
+      return query.offset(offset).execute();
+    },
+
+    /**
+     * @returns The updated feedback, `null` when it does not exist
+     */
+    async update(id: string, changes: FeedbackUpdate) {
+      return (
+        (await db.updateTable("feedback").set(changes).where("id", "=", id).returningAll().executeTakeFirst()) ?? null
+      );
+    }
+  };
+}
+
+export type FeedbackRepository = ReturnType<typeof createFeedbackRepository>;
@@ -0,0 +1,72 @@
+import { createNoteRepository } from "~/features/example-feature/server/db/note-repository";
+import { seedNotes } from "~/features/example-feature/server/db/seed";
+import { createDatabase, IN_MEMORY_DATABASE_URL, migrateToLatest } from "~/lib/db";
+
+const db = createDatabase(IN_MEMORY_DATABASE_URL);
+const repository = createNoteRepository(db);
+
+// Starting PGlite takes a few seconds
+beforeAll(async () => {
+  await migrateToLatest(db);
+}, 30_000);
+
+beforeEach(async () => {
+  await db.deleteFrom("note").execute();
+});
+
+afterAll(async () => {
+  await db.destroy();
+});
+
+const UNKNOWN_ID = "00000000-0000-4000-8000-000000000000";
+
+describe("createNoteRepository", () => {
+  test("creates notes with generated ids and dates", async () => {
+    const created = await repository.create({ authorId: "user-1", content: "Milk, eggs", title: "Groceries" });
+
+    expect(created).toEqual({
+      authorId: "user-1",
+      content: "Milk, eggs",
+      createdAt: expect.any(Date),
+      id: expect.stringMatching(/^[0-9a-f-]{36}$/),
+      title: "Groceries",
+      updatedAt: expect.any(Date)
+    });
+    expect(await repository.findById(created.id)).toEqual(created);
+    expect(await repository.findById(UNKNOWN_ID)).toBeNull();
+  });
+
+  test("lists the notes of an author, newest first", async () => {
+    const first = await repository.create({ authorId: "user-1", content: "", title: "First" });
+    await repository.create({ authorId: "user-2", content: "", title: "Someone else's" });
+    const second = await repository.create({ authorId: "user-1", content: "", title: "Second" });
+
+    expect((await repository.listByAuthor("user-1")).map(({ id }) => id)).toEqual([second.id, first.id]);
+    expect((await repository.listByAuthor("user-1", { limit: 1, offset: 1 })).map(({ id }) => id)).toEqual([first.id]);
+  });
+
+  test("updates notes and their update date", async () => {
+    const created = await repository.create({ authorId: "user-1", content: "", title: "Draft" });
+
+    const updated = await repository.update(created.id, { content: "Done", title: "Final" });
+
+    expect(updated).toMatchObject({ content: "Done", createdAt: created.createdAt, title: "Final" });
+    expect(updated?.updatedAt.getTime()).toBeGreaterThanOrEqual(created.updatedAt.getTime());
+    expect(await repository.update(UNKNOWN_ID, { title: "Final" })).toBeNull();
+  });
+
+  test("deletes notes", async () => {
+    const created = await repository.create({ authorId: "user-1", content: "", title: "Draft" });
+
+    expect(await repository.delete(created.id)).toBe(true);
+    expect(await repository.delete(created.id)).toBe(false);
+  });
+});
+
+describe("seedNotes", () => {
+  test("inserts the demo user's notes once", async () => {
+    expect(await seedNotes(db)).toBe(2);
+    expect(await seedNotes(db)).toBe(0);
+    expect(await repository.listByAuthor("demo-user")).toHaveLength(2);
+  });
+});
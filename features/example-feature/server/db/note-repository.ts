@@ -0,0 +1,63 @@
+import type { Kysely } from "kysely";
+import type { NewNote, NoteUpdate } from "~/features/example-feature/server/db/schema";
+import { type Database, getDb } from "~/lib/db";
+
+export interface ListNotesOptions {
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Data access of the `note` table. Permission checks are left to the callers, see `server/permissions.ts`.
+ */
+export function createNoteRepository(db: Kysely<Database> = getDb()) {
+  return {
+    create(note: NewNote) {
+      return db.insertInto("note").values(note).returningAll().executeTakeFirstOrThrow();
+    },
+
+    /**
+     * @returns Whether the note existed
+     */
+    async delete(id: string) {
+      const { numDeletedRows } = await db.deleteFrom("note").where("id", "=", id).executeTakeFirstOrThrow();
+
+      return numDeletedRows > 0n;
+    },
+
+    async findById(id: string) {
+      return (await db.selectFrom("note").selectAll().where("id", "=", id).executeTakeFirst()) ?? null;
+    },
+
+    /**
+     * Lists the notes of an author, newest first.
+     */
+    listByAuthor(authorId: string, { limit = 50, offset = 0 }: ListNotesOptions = {}) {
+      return db
+        .selectFrom("note")
+        .selectAll()
+        .where("authorId", "=", authorId)
+        .orderBy("createdAt", "desc")
+        .orderBy("id")
+        .limit(limit)
+        .offset(offset)
+        .execute();
+    },
+
+    /**
+     * @returns The updated note, `null` when it does not exist
+     */
+    async update(id: string, changes: Omit<NoteUpdate, "updatedAt">) {
+      return (
+        (await db
+          .updateTable("note")
+          .set({ ...changes, updatedAt: new Date() })
+          .where("id", "=", id)
+          .returningAll()
+          .executeTakeFirst()) ?? null
+      );
+    }
+  };
+}
+
+export type NoteRepository = ReturnType<typeof createNoteRepository>;
@@ -0,0 +1,36 @@
+import type { ColumnType, Generated, Insertable, Selectable, Updateable } from "kysely";
+
+/**
+ * The `feedback` table, created by `data/db/migrations/0001_create_feedback.ts`. Columns are snake_case
+ * in SQL and camelCase here, see `CamelCasePlugin` in `lib/db.ts`.
+ */
+export interface FeedbackTable {
+  /** Id of the signed-in user who sent the feedback, `null` for anonymous feedback. */
+  authorId: string | null;
+  createdAt: ColumnType<Date, never, never>;
+  email: string;
+  id: Generated<string>;
+  message: string;
+}
+
+export type Feedback = Selectable<FeedbackTable>;
+export type NewFeedback = Insertable<FeedbackTable>;
+export type FeedbackUpdate = Updateable<FeedbackTable>;
+
+/**
+ * The `note` table, created by `data/db/migrations/0002_create_note.ts`.
+ */
+export interface NoteTable {
+  /** Id of the user who wrote the note, who alone may read and change it. */
+  authorId: ColumnType<string, string, never>;
+  content: string;
+  createdAt: ColumnType<Date, never, never>;
+  id: Generated<string>;
+  title: string;
+  /** Set by `NoteRepository.update`. */
+  updatedAt: ColumnType<Date, never, Date>;
+}
+
+export type Note = Selectable<NoteTable>;
+export type NewNote = Insertable<NoteTable>;
+export type NoteUpdate = Updateable<NoteTable>;
@@ -0,0 +1,60 @@
+import type { Kysely } from "kysely";
+import { DEMO_USER_ID } from "~/features/auth/server/db/users";
+import type { NewFeedback, NewNote } from "~/features/example-feature/server/db/schema";
+import type { Database } from "~/lib/db";
+
+/**
+ * Sample feedback for local development, with fixed ids so seeding again changes nothing.
+ */
+const SAMPLE_FEEDBACK: Array<NewFeedback & { id: string }> = [
+  {
+    authorId: null,
+    email: "ada@example.com",
+    id: "00000000-0000-4000-8000-000000000001",
+    message: "The template saved me a week of setting up logging and tests."
+  },
+  {
+    authorId: null,
+    email: "grace@example.com",
+    id: "00000000-0000-4000-8000-000000000002",
+    message: "Would love to see an example of a paginated list."
+  }
+];
+
+/**
+ * Notes of the demo user (`AUTH_DEMO_EMAIL`), listed on `/notes` once signed in as them.
+ */
+const SAMPLE_NOTES: Array<NewNote & { id: string }> = [
+  {
+    authorId: DEMO_USER_ID,
+    content: "Start with the example feature: schemas, repository, actions, permissions, pages and tests.",
+    id: "00000000-0000-4000-8000-000000000101",
+    title: "Welcome to the notes example"
+  },
+  {
+    authorId: DEMO_USER_ID,
+    content: "Copy features/example-feature, rename the resource and add a migration for its table.",
+    id: "00000000-0000-4000-8000-000000000102",
+    title: "Adding a feature"
+  }
+];
+
+export async function seedFeedback(db: Kysely<Database>) {
+  const { numInsertedOrUpdatedRows = 0n } = await db
+    .insertInto("feedback")
+    .values(SAMPLE_FEEDBACK)
+    .onConflict((conflict) => conflict.column("id").doNothing())
+    .executeTakeFirstOrThrow();
+
+  return Number(numInsertedOrUpdatedRows);
+}
+
+export async function seedNotes(db: Kysely<Database>) {
+  const { numInsertedOrUpdatedRows = 0n } = await db
+    .insertInto("note")
+    .values(SAMPLE_NOTES)
+    .onConflict((conflict) => conflict.column("id").doNothing())
+    .executeTakeFirstOrThrow();
+
+  return Number(numInsertedOrUpdatedRows);
+}
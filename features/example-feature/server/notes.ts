@@ -0,0 +1,18 @@
+import { z } from "zod";
+import { createNoteRepository } from "~/features/example-feature/server/db/note-repository";
+import { can } from "~/features/example-feature/server/permissions";
+import { getCurrentUser } from "~/lib/auth";
+
+/**
+ * Loads a note for a page. Returns `null` both when it does not exist and when the signed-in user may not
+ * perform the action on it, so pages answer either with a 404 and do not reveal which notes exist.
+ */
+export async function findNoteFor(action: "read" | "update", id: string) {
+  if (!z.uuid().safeParse(id).success) {
+    return null;
+  }
+
+  const [user, note] = await Promise.all([getCurrentUser(), createNoteRepository().findById(id)]);
+
+  return note && can(user, action, { ownerId: note.authorId, type: "note" }) ? note : null;
+}
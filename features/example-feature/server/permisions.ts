@@ -1,3 +0,0 @@
-/**
- * This file is part of the Example Feature for the Open Source
- */
@@ -0,0 +1,66 @@
+import { can } from "~/features/example-feature/server/permissions";
+
+const users = {
+  admin: { id: "admin-1", roles: ["admin"] },
+  member: { id: "member-1", roles: ["member"] },
+  viewer: { id: "viewer-1", roles: ["viewer"] }
+};
+
+const ownFeedback = (role: keyof typeof users) => ({ ownerId: users[role].id, type: "feedback" as const });
+const othersFeedback = { ownerId: "someone-else", type: "feedback" as const };
+
+describe("feedback permissions", () => {
+  test.each([
+    // role, action, own feedback, someone else's feedback
+    ["admin", "create", true, true],
+    ["admin", "read", true, true],
+    ["admin", "update", true, true],
+    ["admin", "delete", true, true],
+    ["member", "create", true, true],
+    ["member", "read", true, true],
+    ["member", "update", true, false],
+    ["member", "delete", true, false],
+    ["viewer", "create", false, false],
+    ["viewer", "read", true, true],
+    ["viewer", "update", false, false],
+    ["viewer", "delete", false, false]
+  ] as const)("%s may %s: own %s, others %s", (role, action, own, others) => {
+    expect(can(users[role], action, ownFeedback(role))).toBe(own);
+    expect(can(users[role], action, othersFeedback)).toBe(others);
+  });
+
+  test("allows nothing to anonymous users", () => {
+    for (const action of ["create", "read", "update", "delete"] as const) {
+      expect(can(null, action, "feedback")).toBe(false);
+    }
+  });
+});
+
+describe("note permissions", () => {
+  const ownNote = (role: keyof typeof users) => ({ ownerId: users[role].id, type: "note" as const });
+  const othersNote = { ownerId: "someone-else", type: "note" as const };
+
+  test.each([
+    // role, action, own note, someone else's note
+    ["admin", "create", true, true],
+    ["admin", "read", true, true],
+    ["admin", "update", true, true],
+    ["admin", "delete", true, true],
+    ["member", "create", true, true],
+    ["member", "read", true, false],
+    ["member", "update", true, false],
+    ["member", "delete", true, false],
+    ["viewer", "create", false, false],
+    ["viewer", "read", false, false],
+    ["viewer", "update", false, false],
+    ["viewer", "delete", false, false]
+  ] as const)("%s may %s: own %s, others %s", (role, action, own, others) => {
+    expect(can(users[role], action, ownNote(role))).toBe(own);
+    expect(can(users[role], action, othersNote)).toBe(others);
+  });
+
+  test("requires the note to check ownership", () => {
+    expect(can(users.member, "create", "note")).toBe(true);
+    expect(can(users.member, "read", "note")).toBe(false);
+  });
+});
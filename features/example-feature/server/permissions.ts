@@ -0,0 +1,27 @@
+/**
+ * This file is part of the Example Feature for the Open Source
+ */
+import { createPermissions } from "~/lib/permissions";
+
+/**
+ * Who may do what with the example feature's resources. Feedback: admins manage everything, members send
+ * feedback and manage their own, viewers only read. Notes are private: admins manage all of them, members
+ * write notes and manage their own, viewers have none.
+ */
+export const { assertCan, can } = createPermissions({
+  resources: {
+    feedback: ["create", "read", "update", "delete"],
+    note: ["create", "read", "update", "delete"]
+  },
+  roles: {
+    admin: {
+      feedback: { create: true, delete: true, read: true, update: true },
+      note: { create: true, delete: true, read: true, update: true }
+    },
+    member: {
+      feedback: { create: true, delete: "own", read: true, update: "own" },
+      note: { create: true, delete: "own", read: "own", update: "own" }
+    },
+    viewer: { feedback: { read: true } }
+  }
+});
@@ -0,0 +1,64 @@
+import { OTLPMetricExporter } from "@opentelemetry/exporter-metrics-otlp-http";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { ConsoleMetricExporter, PeriodicExportingMetricReader } from "@opentelemetry/sdk-metrics";
+import { NodeSDK } from "@opentelemetry/sdk-node";
+import { BatchSpanProcessor, ConsoleSpanExporter, SimpleSpanProcessor } from "@opentelemetry/sdk-trace";
+import { env } from "~/data/env/server";
+import { createLogger } from "~/lib/logger";
+import { createTelemetryResource, getOtlpExporterOptions } from "~/lib/telemetry";
+
+/**
+ * OpenTelemetry SDK setup, loaded by `register()` in `instrumentation.ts` for the Node.js runtime only.
+ *
+ * Next.js emits spans for incoming requests, the proxy, route handlers and rendering on its own once a tracer
+ * provider is registered. Exporters are selected with `OTEL_TRACES_EXPORTER` and `OTEL_METRICS_EXPORTER`
+ * (`none` by default, `console` for local development, `otlp` for a collector).
+ */
+
+const telemetryLogger = createLogger({ module: "telemetry" });
+
+function createSpanProcessors() {
+  switch (env.OTEL_TRACES_EXPORTER) {
+    case "console":
+      return [new SimpleSpanProcessor({ exporter: new ConsoleSpanExporter() })];
+    case "otlp":
+      return [new BatchSpanProcessor({ exporter: new OTLPTraceExporter(getOtlpExporterOptions("traces")) })];
+    default:
+      return [];
+  }
+}
+
+function createMetricReaders() {
+  switch (env.OTEL_METRICS_EXPORTER) {
+    case "console":
+      return [new PeriodicExportingMetricReader({ exporter: new ConsoleMetricExporter() })];
+    case "otlp":
+      return [
+        new PeriodicExportingMetricReader({ exporter: new OTLPMetricExporter(getOtlpExporterOptions("metrics")) })
+      ];
+    default:
+      return [];
+  }
+}
+
+const spanProcessors = createSpanProcessors();
+const metricReaders = createMetricReaders();
+
+if (spanProcessors.length > 0 || metricReaders.length > 0) {
+  const sdk = new NodeSDK({
+    metricReaders,
+    resource: createTelemetryResource(),
+    spanProcessors
+  });
+
+  sdk.start();
+  telemetryLogger
+    .withMetadata({ metricsExporter: env.OTEL_METRICS_EXPORTER, tracesExporter: env.OTEL_TRACES_EXPORTER })
+    .info("OpenTelemetry started");
+
+  process.once("SIGTERM", () => {
+    sdk.shutdown().catch((error: unknown) => {
+      telemetryLogger.withError(error).error("OpenTelemetry shutdown failed");
+    });
+  });
+}
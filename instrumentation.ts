@@ -0,0 +1,45 @@
+import type { Instrumentation } from "next";
+
+/**
+ * Called once when a Next.js server instance starts. Validates and logs the environment, failing before
+ * anything else starts when a variable is invalid, sets up OpenTelemetry, see `instrumentation.node.ts`,
+ * starts the access log of pages and server actions and brings an embedded database up to date.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { logEnvSummary } = await import("~/data/env/summary");
+    logEnvSummary();
+
+    await import("./instrumentation.node");
+
+    const { startAccessLog } = await import("~/lib/access-log");
+    startAccessLog();
+
+    const { migrateEmbeddedDatabase } = await import("~/lib/db");
+    await migrateEmbeddedDatabase();
+  }
+}
+
+/**
+ * Called by Next.js for every error thrown while rendering pages, handling route handlers, server actions
+ * and the proxy, with the route pattern that failed. Complements the access log, see `lib/access-log.ts`.
+ */
+export const onRequestError: Instrumentation.onRequestError = async (error, request, context) => {
+  if (process.env.NEXT_RUNTIME !== "nodejs") {
+    return;
+  }
+
+  const { createLogger } = await import("~/lib/logger");
+  const { REQUEST_ID_HEADER } = await import("~/lib/request-context");
+
+  createLogger({ module: "instrumentation", requestId: request.headers[REQUEST_ID_HEADER] })
+    .withError(error)
+    .withMetadata({
+      method: request.method,
+      path: request.path,
+      renderSource: context.renderSource,
+      route: context.routePath,
+      routeType: context.routeType
+    })
+    .error("Request failed");
+};
@@ -0,0 +1,105 @@
+import { createServer, type RequestListener } from "node:http";
+import type { AddressInfo } from "node:net";
+import { isRouteHandlerPath, startAccessLog } from "~/lib/access-log";
+
+const accessLog = vi.hoisted(() => ({
+  entries: [] as Array<{ context: Record<string, unknown>; level: string; metadata: Record<string, unknown> }>
+}));
+
+vi.mock("~/lib/logger", () => ({
+  createLogger: (context: Record<string, unknown>) => ({
+    withMetadata: (metadata: Record<string, unknown>) =>
+      Object.fromEntries(
+        ["error", "info", "warn"].map((level) => [level, () => accessLog.entries.push({ context, level, metadata })])
+      )
+  })
+}));
+
+async function request(path: string, listener: RequestListener) {
+  const server = createServer(listener);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  try {
+    const { port } = server.address() as AddressInfo;
+    await (await fetch(`http://127.0.0.1:${port}${path}`, { method: "POST" })).text();
+  } finally {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  }
+}
+
+describe("isRouteHandlerPath", () => {
+  test("matches the API and the paths rewritten to it", () => {
+    expect(isRouteHandlerPath("/api/notes/1")).toBe(true);
+    expect(isRouteHandlerPath("/health")).toBe(true);
+    expect(isRouteHandlerPath("/dev/logs/stream")).toBe(true);
+  });
+
+  test("does not match pages", () => {
+    expect(isRouteHandlerPath("/")).toBe(false);
+    expect(isRouteHandlerPath("/notes/1")).toBe(false);
+    expect(isRouteHandlerPath("/apidocs")).toBe(false);
+    expect(isRouteHandlerPath("/dev/logs")).toBe(false);
+  });
+});
+
+describe("startAccessLog", () => {
+  beforeAll(() => {
+    startAccessLog();
+  });
+
+  beforeEach(() => {
+    accessLog.entries = [];
+  });
+
+  test("logs pages and server actions the proxy ran for once sent", async () => {
+    await request("/notes?page=2", (_, response) => {
+      response.setHeader("x-request-id", "request-1");
+      response.setHeader("content-length", "5");
+      response.end("hello");
+    });
+
+    await vi.waitFor(() => {
+      expect(accessLog.entries).toEqual([
+        {
+          context: { module: "access-log", requestId: "request-1" },
+          level: "info",
+          metadata: {
+            durationMs: expect.any(Number),
+            method: "POST",
+            path: "/notes",
+            responseSize: 5,
+            route: "/notes",
+            status: 200
+          }
+        }
+      ]);
+    });
+  });
+
+  test("logs client and server error statuses at warn and error level", async () => {
+    for (const status of [404, 503]) {
+      await request("/notes", (_, response) => {
+        response.setHeader("x-request-id", `request-${status}`);
+        response.statusCode = status;
+        response.end();
+      });
+    }
+
+    await vi.waitFor(() => {
+      expect(accessLog.entries.map(({ level }) => level)).toEqual(["warn", "error"]);
+    });
+  });
+
+  test("leaves out route handlers and requests the proxy did not run for", async () => {
+    await request("/api/notes", (_, response) => {
+      response.setHeader("x-request-id", "request-2");
+      response.end();
+    });
+    await request("/_next/static/chunk.js", (_, response) => {
+      response.end();
+    });
+
+    expect(accessLog.entries).toEqual([]);
+  });
+});
@@ -0,0 +1,83 @@
+import { subscribe } from "node:diagnostics_channel";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { createLogger, type Logger } from "~/lib/logger";
+import { REQUEST_ID_HEADER } from "~/lib/request-context";
+
+export interface AccessLogEntry {
+  durationMs: number;
+  method: string;
+  path: string;
+  /** Bytes of the response body, when known. */
+  responseSize?: number;
+  route: string;
+  status: number;
+}
+
+/**
+ * Paths served by route handlers, whose access-log entry `withRouteHandler` writes with the route pattern and
+ * the size of the body, including the rewrites of `next.config.ts`.
+ */
+const ROUTE_HANDLER_PATHS = ["/api", "/dev/logs/stream", "/health", "/healthz", "/metrics", "/ping"];
+
+/**
+ * Whether requests of the path are handled by a route handler rather than a page or a server action.
+ */
+export function isRouteHandlerPath(pathname: string) {
+  return ROUTE_HANDLER_PATHS.some((path) => pathname === path || pathname.startsWith(`${path}/`));
+}
+
+/**
+ * Writes the `Request completed` entry of a request, at `error` for 5xx and `warn` for 4xx statuses.
+ */
+export function logAccess(requestLogger: Logger, entry: AccessLogEntry) {
+  const accessLogger = requestLogger.withMetadata(entry);
+
+  if (entry.status >= 500) {
+    accessLogger.error("Request completed");
+  } else if (entry.status >= 400) {
+    accessLogger.warn("Request completed");
+  } else {
+    accessLogger.info("Request completed");
+  }
+}
+
+let started = false;
+
+/**
+ * Writes the access-log entry of page renders and server actions, and of the responses `proxy.ts` sends on
+ * their paths itself (sign-in redirects, rejected cross-site posts), once the Node.js server finished sending
+ * them. Requests the proxy did not run for, such as static files, are left out. Relies on the `http`
+ * diagnostics channels, so it covers `next start` and `next dev` rather than serverless platforms.
+ */
+export function startAccessLog() {
+  if (started) {
+    return;
+  }
+  started = true;
+
+  const startTimes = new WeakMap<IncomingMessage, number>();
+
+  subscribe("http.server.request.start", (message) => {
+    startTimes.set((message as { request: IncomingMessage }).request, performance.now());
+  });
+
+  subscribe("http.server.response.finish", (message) => {
+    const { request, response } = message as { request: IncomingMessage; response: ServerResponse };
+    const requestId = response.getHeader(REQUEST_ID_HEADER);
+    const path = new URL(request.url ?? "/", "http://localhost").pathname;
+    const startTime = startTimes.get(request);
+    if (typeof requestId !== "string" || startTime === undefined || isRouteHandlerPath(path)) {
+      return;
+    }
+
+    const contentLength = Number(response.getHeader("content-length"));
+    logAccess(createLogger({ module: "access-log", requestId }), {
+      durationMs: Math.round((performance.now() - startTime) * 100) / 100,
+      method: request.method ?? "GET",
+      path,
+      ...(Number.isInteger(contentLength) ? { responseSize: contentLength } : {}),
+      route: path,
+      status: response.statusCode
+    });
+  });
+}
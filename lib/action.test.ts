@@ -0,0 +1,162 @@
+import { notFound, redirect } from "next/navigation";
+import { z } from "zod";
+import { createAction } from "~/lib/action";
+import { ConflictError, ValidationError } from "~/lib/errors";
+import { getRequestContext, REQUEST_ID_HEADER } from "~/lib/request-context";
+
+const logs = vi.hoisted(() => ({
+  entries: [] as Array<{ context: Record<string, unknown>; error?: unknown; level: string }>
+}));
+
+const env = vi.hoisted(() => ({ NODE_ENV: "test" }));
+
+vi.mock("~/data/env/server", () => ({ env }));
+
+vi.mock("next/headers", () => ({ headers: async () => new Headers({ [REQUEST_ID_HEADER]: "request-1" }) }));
+
+vi.mock("~/lib/logger", () => {
+  const createLogger = (context: Record<string, unknown>, error?: unknown) => ({
+    withContext: (extra: Record<string, unknown>) => createLogger({ ...context, ...extra }, error),
+    withError: (thrown: unknown) => createLogger(context, thrown),
+    withMetadata: () =>
+      Object.fromEntries(
+        ["error", "info", "warn"].map((level) => [
+          level,
+          () => logs.entries.push({ context, level, ...(error ? { error } : {}) })
+        ])
+      )
+  });
+
+  return { getRequestLogger: () => createLogger({ requestId: getRequestContext()?.requestId }) };
+});
+
+const noteSchema = z.object({
+  tags: z.array(z.string().min(1)).default([]),
+  title: z.string().trim().min(1, "Title is required")
+});
+
+describe("createAction", () => {
+  beforeEach(() => {
+    logs.entries = [];
+    env.NODE_ENV = "test";
+  });
+
+  test("runs the handler with the parsed input", async () => {
+    const handler = vi.fn((input: z.output<typeof noteSchema>) => ({ id: "1", ...input }));
+    const createNote = createAction({ handler, name: "notes.create", schema: noteSchema });
+
+    await expect(createNote({ title: "  Groceries " })).resolves.toEqual({
+      data: { id: "1", tags: [], title: "Groceries" },
+      ok: true
+    });
+    expect(handler).toHaveBeenCalledWith({ tags: [], title: "Groceries" });
+    expect(logs.entries).toEqual([
+      { context: { action: "notes.create", module: "actions", requestId: "request-1" }, level: "info" }
+    ]);
+  });
+
+  test("returns field errors for invalid input without running the handler", async () => {
+    const handler = vi.fn();
+    const createNote = createAction({ handler, name: "notes.create", schema: noteSchema });
+
+    await expect(createNote({ tags: [""], title: " " })).resolves.toEqual({
+      fieldErrors: { "tags.0": [expect.any(String)], title: ["Title is required"] },
+      ok: false
+    });
+    expect(handler).not.toHaveBeenCalled();
+    expect(logs.entries.map(({ level }) => level)).toEqual(["warn"]);
+  });
+
+  test("returns issues of the input as a whole as the form error", async () => {
+    const createNote = createAction({ handler: vi.fn(), name: "notes.create", schema: noteSchema });
+
+    await expect(createNote(undefined as never)).resolves.toEqual({
+      fieldErrors: {},
+      formError: expect.any(String),
+      ok: false
+    });
+  });
+
+  test("rejects input the permission check denies", async () => {
+    const handler = vi.fn();
+    const authorize = vi.fn(async ({ title }: { title: string }) => title !== "Secret");
+    const createNote = createAction({ authorize, handler, name: "notes.create", schema: noteSchema });
+
+    await expect(createNote({ title: "Secret" })).resolves.toEqual({
+      fieldErrors: {},
+      formError: "You are not allowed to perform this action",
+      ok: false
+    });
+    expect(authorize).toHaveBeenCalledWith({ tags: [], title: "Secret" });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  test("maps application errors thrown by the handler", async () => {
+    const createNote = createAction({
+      handler: () => {
+        throw new ConflictError("A note with this title already exists");
+      },
+      name: "notes.create",
+      schema: noteSchema
+    });
+
+    await expect(createNote({ title: "Groceries" })).resolves.toEqual({
+      fieldErrors: {},
+      formError: "A note with this title already exists",
+      ok: false
+    });
+  });
+
+  test("maps validation errors thrown by the handler to their fields", async () => {
+    const createNote = createAction({
+      handler: () => {
+        throw new ValidationError("Duplicate title", { issues: [{ message: "Already taken", path: "title" }] });
+      },
+      name: "notes.create",
+      schema: noteSchema
+    });
+
+    await expect(createNote({ title: "Groceries" })).resolves.toEqual({
+      fieldErrors: { title: ["Already taken"] },
+      ok: false
+    });
+  });
+
+  test("logs unexpected errors and hides them in production", async () => {
+    const error = new Error("Connection terminated unexpectedly");
+    const createNote = createAction({
+      handler: () => {
+        throw error;
+      },
+      name: "notes.create",
+      schema: noteSchema
+    });
+
+    await expect(createNote({ title: "Groceries" })).resolves.toMatchObject({
+      formError: "Connection terminated unexpectedly"
+    });
+
+    env.NODE_ENV = "production";
+    await expect(createNote({ title: "Groceries" })).resolves.toEqual({
+      fieldErrors: {},
+      formError: "Something went wrong, please try again",
+      ok: false
+    });
+    expect(logs.entries).toEqual([
+      expect.objectContaining({ error, level: "error" }),
+      expect.objectContaining({ error, level: "error" })
+    ]);
+  });
+
+  test("lets redirects and not-found errors through to Next.js", async () => {
+    const action = createAction({
+      handler: ({ title }) => (title === "missing" ? notFound() : redirect("/notes")),
+      name: "notes.create",
+      schema: noteSchema
+    });
+
+    await expect(action({ title: "Note" })).rejects.toMatchObject({ digest: expect.stringMatching(/^NEXT_REDIRECT;/) });
+    await expect(action({ title: "missing" })).rejects.toMatchObject({ digest: "NEXT_HTTP_ERROR_FALLBACK;404" });
+    expect(logs.entries).toEqual([]);
+  });
+});
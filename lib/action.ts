@@ -0,0 +1,127 @@
+import { unstable_rethrow } from "next/navigation";
+import type { z } from "zod";
+import { env } from "~/data/env/server";
+import { ForbiddenError, isAppError, ValidationError } from "~/lib/errors";
+import { getRequestLogger } from "~/lib/logger";
+import { withActionRequestContext } from "~/lib/request-context";
+
+/**
+ * Messages per invalid field, keyed by the dot-separated field path used by `react-hook-form`, e.g. `items.0.name`.
+ */
+export type FieldErrors = Record<string, Array<string>>;
+
+/**
+ * Result of an action created with `createAction`. Expected failures are returned rather than thrown, so
+ * the form can show them next to the fields (`fieldErrors`) or above the form (`formError`).
+ */
+export type ActionResult<Data> = { data: Data; ok: true } | { fieldErrors: FieldErrors; formError?: string; ok: false };
+
+export interface CreateActionOptions<Schema extends z.ZodType, Data> {
+  /**
+   * Permission check run with the validated input before the handler, e.g. `(input) => canEditNote(input.id)`.
+   * Returning `false` fails the action with a `ForbiddenError`.
+   */
+  authorize?: (input: z.output<Schema>) => boolean | Promise<boolean>;
+  handler: (input: z.output<Schema>) => Data | Promise<Data>;
+  /** Action name used in the logs, e.g. `notes.create`. */
+  name: string;
+  /** Schema of the action input, usually shared with the form from the feature's `schemas/` folder. */
+  schema: Schema;
+}
+
+const INTERNAL_ERROR_MESSAGE = "Something went wrong, please try again";
+
+function failed(fieldErrors: FieldErrors, formError?: string): ActionResult<never> {
+  return formError ? { fieldErrors, formError, ok: false } : { fieldErrors, ok: false };
+}
+
+/**
+ * Maps a thrown error to a failed result. Validation issues become field errors (issues of the input as
+ * a whole the form error), other application errors their message; anything else is hidden behind
+ * a generic message in production.
+ */
+function toFailedResult(error: unknown) {
+  if (error instanceof ValidationError) {
+    const fieldErrors: FieldErrors = {};
+    const formErrors: Array<string> = [];
+    for (const { message, path } of error.issues) {
+      if (path) {
+        fieldErrors[path] = [...(fieldErrors[path] ?? []), message];
+      } else {
+        formErrors.push(message);
+      }
+    }
+
+    if (formErrors.length === 0 && Object.keys(fieldErrors).length === 0) {
+      formErrors.push(error.message);
+    }
+
+    return failed(fieldErrors, formErrors.length > 0 ? formErrors.join(" ") : undefined);
+  }
+  if (isAppError(error) && error.expose) {
+    return failed({}, error.message);
+  }
+
+  const exposeInternals = env.NODE_ENV !== "production" && error instanceof Error;
+  return failed({}, exposeInternals ? error.message : INTERNAL_ERROR_MESSAGE);
+}
+
+/**
+ * Creates a server action that validates its input with the schema, checks permissions, runs the handler
+ * and returns an `ActionResult` instead of throwing. It runs within the request context, so logs carry the
+ * request id, and every failure is logged: client errors at `warn`, unexpected ones at `error`. `redirect()` and
+ * `notFound()` called by the handler still navigate.
+ * Pair it with `useActionForm` (`lib/use-action-form.ts`) on the client.
+ *
+ * @example
+ * // features/notes/server/actions/create-note.ts
+ * "use server";
+ *
+ * export const createNote = createAction({
+ *   authorize: async () => canCreateNotes(await getCurrentUser()),
+ *   handler: (input) => insertNote(input),
+ *   name: "notes.create",
+ *   schema: createNoteSchema
+ * });
+ */
+export function createAction<Schema extends z.ZodType, Data>({
+  authorize,
+  handler,
+  name,
+  schema
+}: CreateActionOptions<Schema, Data>) {
+  return withActionRequestContext(async (input: z.input<Schema>): Promise<ActionResult<Data>> => {
+    const actionLogger = getRequestLogger().withContext({ action: name, module: "actions" });
+    const startTime = performance.now();
+
+    try {
+      const result = await schema.safeParseAsync(input);
+      if (!result.success) {
+        throw ValidationError.fromZodError(result.error, "The submitted data is invalid");
+      }
+
+      if (authorize && !(await authorize(result.data))) {
+        throw new ForbiddenError();
+      }
+
+      const data = await handler(result.data);
+      actionLogger.withMetadata({ durationMs: Math.round(performance.now() - startTime) }).info("Action completed");
+
+      return { data, ok: true };
+    } catch (error) {
+      // `redirect()` and `notFound()` throw to hand control back to Next.js, they are not failures
+      unstable_rethrow(error);
+
+      const failedLogger = actionLogger
+        .withError(error)
+        .withMetadata({ durationMs: Math.round(performance.now() - startTime) });
+      if (isAppError(error) && error.expose) {
+        failedLogger.warn("Action rejected");
+      } else {
+        failedLogger.error("Action failed");
+      }
+
+      return toFailedResult(error);
+    }
+  });
+}
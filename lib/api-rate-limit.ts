@@ -0,0 +1,139 @@
+import { createHash } from "node:crypto";
+import { env } from "~/data/env/server";
+import { isSameToken } from "~/lib/bearer-token";
+import {
+  consumeRateLimit,
+  createMemoryRateLimitStore,
+  getClientIp,
+  type RateLimitAlgorithm,
+  type RateLimitStore,
+  slidingWindow,
+  tokenBucket
+} from "~/lib/rate-limit";
+
+export interface ApiRateLimitRule {
+  algorithm: RateLimitAlgorithm;
+  /**
+   * API keys the paths accept, for rules counting by API key. Requests with a key not in the list are counted by
+   * IP, so made-up keys do not get limits of their own.
+   */
+  apiKeys?: () => Array<string | undefined>;
+  /**
+   * What requests are counted by: the client IP, the signed-in user or a valid API key (`Authorization: Bearer`
+   * or `X-API-Key`). Requests without a user or valid API key are counted by IP.
+   */
+  key: "api-key" | "ip" | "user";
+  /** Part of the keys in the store, so rules sharing a client keep separate limits. */
+  name: string;
+  /** Path prefixes the rule applies to. */
+  paths: Array<string>;
+}
+
+/**
+ * Limits of `proxy.ts`, the first rule matching the path applies. Health and metrics paths include the
+ * aliases rewritten to them in `next.config.ts`.
+ */
+export const API_RATE_LIMIT_RULES: Array<ApiRateLimitRule> = [
+  {
+    // Probes of every instance share the IP of the orchestrator
+    algorithm: tokenBucket({ capacity: 120, refillPerSecond: 2 }),
+    key: "ip",
+    name: "health",
+    paths: ["/api/health", "/api/healthz", "/health", "/healthz", "/ping"]
+  },
+  {
+    algorithm: tokenBucket({ capacity: 30, refillPerSecond: 0.5 }),
+    apiKeys: () => [env.METRICS_TOKEN],
+    key: "api-key",
+    name: "metrics",
+    paths: ["/api/metrics", "/metrics"]
+  },
+  {
+    // Sign-in redirects and callbacks; the credentials sign-in limits attempts per email and IP on its own
+    algorithm: slidingWindow({ limit: 60, windowMs: 60_000 }),
+    key: "ip",
+    name: "auth",
+    paths: ["/api/auth"]
+  },
+  {
+    algorithm: tokenBucket({ capacity: 120, refillPerSecond: 2 }),
+    key: "user",
+    name: "api",
+    paths: ["/api"]
+  }
+];
+
+// Kept on `globalThis`, so a store set in `instrumentation.ts` is the one the proxy uses
+const globalForRateLimit = globalThis as typeof globalThis & { rateLimitStore?: RateLimitStore };
+
+/**
+ * Returns the store of the API rate limits, in memory unless another one was set with `setRateLimitStore`.
+ */
+export function getRateLimitStore() {
+  globalForRateLimit.rateLimitStore ??= createMemoryRateLimitStore();
+
+  return globalForRateLimit.rateLimitStore;
+}
+
+/**
+ * Replaces the store of the API rate limits, e.g. with `createRedisRateLimitStore` to share them across instances.
+ */
+export function setRateLimitStore(store: RateLimitStore) {
+  globalForRateLimit.rateLimitStore = store;
+}
+
+/**
+ * Returns the rule applying to the path, or `undefined` when it is not rate limited.
+ */
+export function findApiRateLimitRule(pathname: string, rules = API_RATE_LIMIT_RULES) {
+  return rules.find(({ paths }) => paths.some((path) => pathname === path || pathname.startsWith(`${path}/`)));
+}
+
+function getApiKey(request: Request) {
+  const authorization = request.headers.get("authorization");
+
+  return authorization?.startsWith("Bearer ")
+    ? authorization.slice("Bearer ".length)
+    : request.headers.get("x-api-key");
+}
+
+function isValidApiKey(rule: ApiRateLimitRule, apiKey: string) {
+  return (rule.apiKeys?.() ?? []).some((validKey) => validKey !== undefined && isSameToken(apiKey, validKey));
+}
+
+/**
+ * Returns the key a request is counted by under the rule. API keys are hashed, so they are not kept in the store.
+ */
+export function getApiRateLimitKey(rule: ApiRateLimitRule, request: Request, userId: string | undefined) {
+  const apiKey = rule.key === "api-key" ? getApiKey(request) : null;
+  if (apiKey && isValidApiKey(rule, apiKey)) {
+    return `${rule.name}:api-key:${createHash("sha256").update(apiKey).digest("base64url")}`;
+  }
+  if (rule.key === "user" && userId) {
+    return `${rule.name}:user:${userId}`;
+  }
+
+  return `${rule.name}:ip:${getClientIp(request)}`;
+}
+
+/**
+ * Counts a request against the rule of its path.
+ * @param request - Incoming request
+ * @param userId - Id of the signed-in user, if any
+ * @returns The decision with the policy of the rule, `null` when the path is not rate limited
+ */
+export async function checkApiRateLimit(request: Request, userId: string | undefined, now = Date.now()) {
+  const rule = findApiRateLimitRule(new URL(request.url).pathname);
+  if (!rule) {
+    return null;
+  }
+
+  const decision = await consumeRateLimit(
+    getRateLimitStore(),
+    getApiRateLimitKey(rule, request, userId),
+    rule.algorithm,
+    now
+  );
+
+  return { decision, policy: rule.algorithm.policy, rule: rule.name };
+}
@@ -0,0 +1,100 @@
+import {
+  getAuthOrigin,
+  getProtectedPaths,
+  getSignInUrl,
+  isProtectedPath,
+  sanitizeCallbackUrl,
+  shouldUseSecureCookies
+} from "~/lib/auth";
+
+const env = vi.hoisted(() => ({
+  APP_URL: undefined as string | undefined,
+  AUTH_PROTECTED_PATHS: undefined as string | undefined,
+  AUTH_URL: undefined as string | undefined,
+  NODE_ENV: "test"
+}));
+
+vi.mock("~/data/env/server", () => ({ env }));
+
+beforeEach(() => {
+  env.APP_URL = undefined;
+  env.AUTH_PROTECTED_PATHS = undefined;
+  env.AUTH_URL = undefined;
+  env.NODE_ENV = "test";
+});
+
+describe("isProtectedPath", () => {
+  test("protects /account and /notes by default", () => {
+    expect(getProtectedPaths()).toEqual(["/account", "/notes"]);
+    expect(isProtectedPath("/account")).toBe(true);
+    expect(isProtectedPath("/account/settings")).toBe(true);
+    expect(isProtectedPath("/accounts")).toBe(false);
+    expect(isProtectedPath("/")).toBe(false);
+  });
+
+  test("protects the configured prefixes", () => {
+    env.AUTH_PROTECTED_PATHS = " /dashboard/ , /api/notes";
+
+    expect(getProtectedPaths()).toEqual(["/dashboard", "/api/notes"]);
+    expect(isProtectedPath("/dashboard")).toBe(true);
+    expect(isProtectedPath("/api/notes/1")).toBe(true);
+    expect(isProtectedPath("/account")).toBe(false);
+  });
+});
+
+describe("sanitizeCallbackUrl", () => {
+  test("keeps paths on this site", () => {
+    expect(sanitizeCallbackUrl("/account?tab=profile#roles")).toBe("/account?tab=profile#roles");
+    expect(sanitizeCallbackUrl("/a/../account")).toBe("/account");
+  });
+
+  test("rejects URLs leading to other sites", () => {
+    expect(sanitizeCallbackUrl("https://evil.example/account")).toBe("/");
+    expect(sanitizeCallbackUrl("//evil.example/account")).toBe("/");
+    expect(sanitizeCallbackUrl("/\\evil.example/account")).toBe("/");
+    expect(sanitizeCallbackUrl("javascript:alert(1)")).toBe("/");
+    expect(sanitizeCallbackUrl(undefined, "/account")).toBe("/account");
+    expect(sanitizeCallbackUrl(["/account"])).toBe("/");
+  });
+});
+
+describe("getSignInUrl", () => {
+  test("returns to the callback URL once signed in", () => {
+    expect(getSignInUrl("/account?tab=profile")).toBe("/sign-in?callbackUrl=%2Faccount%3Ftab%3Dprofile");
+    expect(getSignInUrl("/")).toBe("/sign-in");
+    expect(getSignInUrl()).toBe("/sign-in");
+  });
+});
+
+describe("AUTH_URL", () => {
+  test("overrides the request protocol and origin", () => {
+    const request = new Request("http://localhost:3000/api/auth/signin/github", {
+      headers: { "x-forwarded-host": "app.example.com", "x-forwarded-proto": "https,http" }
+    });
+
+    expect(shouldUseSecureCookies("https:")).toBe(true);
+    expect(shouldUseSecureCookies("http")).toBe(false);
+    expect(shouldUseSecureCookies(null)).toBe(false);
+    expect(getAuthOrigin(request)).toBe("https://app.example.com");
+    expect(getAuthOrigin(new Request("http://127.0.0.1:3000/api/auth/signin/github"))).toBe("http://127.0.0.1:3000");
+
+    env.AUTH_URL = "https://auth.example.com/app";
+    expect(shouldUseSecureCookies("http:")).toBe(true);
+    expect(getAuthOrigin(request)).toBe("https://auth.example.com");
+  });
+
+  test("falls back to APP_URL", () => {
+    env.APP_URL = "https://app.example.com";
+
+    expect(getAuthOrigin(new Request("http://localhost:3000/api/auth/signout"))).toBe("https://app.example.com");
+  });
+
+  test("is required in production rather than trusting the forwarded headers", () => {
+    env.NODE_ENV = "production";
+    const request = new Request("http://localhost:3000/api/auth/signin/github", {
+      headers: { "x-forwarded-host": "attacker.example", "x-forwarded-proto": "https" }
+    });
+
+    expect(() => getAuthOrigin(request)).toThrow("AUTH_URL or APP_URL must be set in production");
+  });
+});
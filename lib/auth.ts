@@ -0,0 +1,143 @@
+import { cookies, headers } from "next/headers";
+import { cache } from "react";
+import { env } from "~/data/env/server";
+import {
+  createSession,
+  decryptSession,
+  encryptSession,
+  getSessionCookieOptions,
+  SESSION_COOKIE,
+  type SessionUser
+} from "~/lib/session";
+
+/**
+ * Page unauthenticated users are redirected to from protected paths.
+ */
+export const SIGN_IN_PATH = "/sign-in";
+
+/**
+ * Protected when `AUTH_PROTECTED_PATHS` is not set. `npm run generate:feature` adds the pages of new features.
+ */
+const DEFAULT_PROTECTED_PATHS = ["/account", "/notes"];
+
+/**
+ * Path prefixes only signed-in users may visit: `AUTH_PROTECTED_PATHS` (comma-separated) or the default ones.
+ */
+export function getProtectedPaths() {
+  return (env.AUTH_PROTECTED_PATHS?.split(",") ?? DEFAULT_PROTECTED_PATHS)
+    .map((path) => path.trim().replace(/\/+$/, ""))
+    .filter(Boolean);
+}
+
+/**
+ * Whether the path is one of the prefixes or below it, e.g. `/account/settings` for `/account`
+ * but not `/accounts`.
+ */
+export function isProtectedPath(pathname: string, prefixes = getProtectedPaths()) {
+  return prefixes.some((prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`));
+}
+
+/**
+ * Reduces the URL to return to after signing in to a path on this site, so sign-in links cannot redirect
+ * users to other sites (open redirect).
+ * @returns The path with its query and hash, or `fallback` for absolute and protocol-relative URLs
+ */
+export function sanitizeCallbackUrl(value: unknown, fallback = "/") {
+  if (typeof value !== "string" || !value.startsWith("/")) {
+    return fallback;
+  }
+
+  const base = new URL("http://localhost");
+  const url = new URL(value, base);
+  if (url.origin !== base.origin) {
+    return fallback;
+  }
+
+  return `${url.pathname}${url.search}${url.hash}`;
+}
+
+/**
+ * URL of the sign-in page returning to `callbackUrl` once signed in.
+ */
+export function getSignInUrl(callbackUrl?: string) {
+  return callbackUrl && callbackUrl !== "/" ? `${SIGN_IN_PATH}?${new URLSearchParams({ callbackUrl })}` : SIGN_IN_PATH;
+}
+
+/**
+ * Whether cookies get the `Secure` attribute: when `AUTH_URL` (or `APP_URL`) uses HTTPS or, without either,
+ * the request did.
+ * @param protocol - Protocol of the request, e.g. `https:` or the `x-forwarded-proto` header
+ */
+export function shouldUseSecureCookies(protocol: string | null | undefined) {
+  return (env.AUTH_URL ?? env.APP_URL ?? protocol ?? "").startsWith("https");
+}
+
+/**
+ * Origin the browser sees the app at, used for OAuth redirect URIs and redirects from route handlers:
+ * `AUTH_URL` or `APP_URL`, required in production. Outside of production it is otherwise derived from the `Host`
+ * and `X-Forwarded-*` headers of the request, which clients can set to anything.
+ */
+export function getAuthOrigin(request: Request) {
+  const authUrl = env.AUTH_URL ?? env.APP_URL;
+  if (authUrl) {
+    return new URL(authUrl).origin;
+  }
+  if (env.NODE_ENV === "production") {
+    throw new Error("AUTH_URL or APP_URL must be set in production");
+  }
+
+  const url = new URL(request.url);
+  const host = request.headers.get("x-forwarded-host") ?? request.headers.get("host") ?? url.host;
+  const protocol = request.headers.get("x-forwarded-proto")?.split(",")[0]?.trim() ?? url.protocol.slice(0, -1);
+
+  return `${protocol}://${host}`;
+}
+
+/**
+ * Returns the session of the signed-in user, read once per request from the session cookie.
+ * @returns `null` when nobody is signed in or the session expired
+ */
+export const getSession = cache(async () => {
+  const cookieStore = await cookies();
+  const result = await decryptSession(cookieStore.get(SESSION_COOKIE)?.value);
+
+  return result?.session ?? null;
+});
+
+/**
+ * Returns the signed-in user in server components, route handlers and server actions. Pass it to the
+ * permission checks of `lib/permissions.ts`, which deny everything to `null`.
+ *
+ * @example
+ * const user = await getCurrentUser();
+ * if (!user) {
+ *   redirect(getSignInUrl("/account"));
+ * }
+ */
+export async function getCurrentUser(): Promise<SessionUser | null> {
+  return (await getSession())?.user ?? null;
+}
+
+/**
+ * Signs the user in by setting a new session cookie. Call it from route handlers and server actions only,
+ * server components cannot set cookies.
+ */
+export async function startSession(user: SessionUser, provider: string) {
+  const [cookieStore, headerStore] = await Promise.all([cookies(), headers()]);
+  const session = createSession(user, provider);
+
+  cookieStore.set(
+    SESSION_COOKIE,
+    await encryptSession(session),
+    getSessionCookieOptions(shouldUseSecureCookies(headerStore.get("x-forwarded-proto")))
+  );
+
+  return session;
+}
+
+/**
+ * Signs the user out by deleting the session cookie.
+ */
+export async function endSession() {
+  (await cookies()).delete(SESSION_COOKIE);
+}
@@ -0,0 +1,27 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+/**
+ * Checks whether the request carries the expected token in its `Authorization: Bearer` header.
+ * Both values are hashed first, so the comparison runs in constant time regardless of their lengths.
+ * @param request - Incoming request
+ * @param token - Expected token, `undefined` when none is configured
+ * @returns Always `false` when no token is configured
+ */
+export function hasBearerToken(request: Request, token: string | undefined) {
+  const authorization = request.headers.get("authorization");
+
+  if (!token || !authorization?.startsWith("Bearer ")) {
+    return false;
+  }
+
+  return isSameToken(authorization.slice("Bearer ".length), token);
+}
+
+/**
+ * Compares a token sent by a client with the expected one in constant time, like `hasBearerToken`.
+ */
+export function isSameToken(actual: string, expected: string) {
+  return timingSafeEqual(digest(actual), digest(expected));
+}
@@ -0,0 +1,97 @@
+import type { ClientErrorReport } from "~/lib/client-errors";
+
+const sendBeacon = vi.fn((_url: string, _data: Blob) => true);
+
+const loadModule = async () => {
+  vi.resetModules();
+  return import("~/lib/client-errors");
+};
+
+const sentReports = () =>
+  Promise.all(sendBeacon.mock.calls.map(async ([, data]) => JSON.parse(await data.text()) as ClientErrorReport));
+
+beforeEach(() => {
+  sendBeacon.mockClear();
+  vi.stubGlobal("navigator", { sendBeacon });
+  vi.stubGlobal("window", { location: { href: "http://localhost/dashboard" } });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("clientErrorReportSchema", () => {
+  test("accepts a complete report", async () => {
+    const { clientErrorReportSchema } = await loadModule();
+
+    const result = clientErrorReportSchema.safeParse({
+      digest: "2894021587",
+      message: "Cannot read properties of undefined",
+      name: "TypeError",
+      source: "error-boundary",
+      stack: "TypeError: Cannot read properties of undefined\n    at Page",
+      url: "http://localhost/dashboard"
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  test("rejects unknown sources and oversized fields", async () => {
+    const { clientErrorReportSchema } = await loadModule();
+
+    expect(clientErrorReportSchema.safeParse({ message: "x", source: "server", url: "/" }).success).toBe(false);
+    expect(
+      clientErrorReportSchema.safeParse({ message: "x".repeat(1001), source: "window-error", url: "/" }).success
+    ).toBe(false);
+  });
+});
+
+describe("reportClientError", () => {
+  test("sends the error with the page url via sendBeacon", async () => {
+    const { CLIENT_ERRORS_ENDPOINT, reportClientError } = await loadModule();
+    const error = Object.assign(new TypeError("Boom"), { digest: "123" });
+
+    reportClientError(error, "error-boundary");
+
+    expect(sendBeacon).toHaveBeenCalledWith(CLIENT_ERRORS_ENDPOINT, expect.any(Blob));
+    await expect(sentReports()).resolves.toEqual([
+      {
+        digest: "123",
+        message: "Boom",
+        name: "TypeError",
+        source: "error-boundary",
+        stack: error.stack,
+        url: "http://localhost/dashboard"
+      }
+    ]);
+  });
+
+  test("reports non-error values and truncates long fields", async () => {
+    const { clientErrorReportSchema, reportClientError } = await loadModule();
+
+    reportClientError("x".repeat(5000), "unhandled-rejection");
+
+    const [report] = await sentReports();
+    expect(report?.message).toHaveLength(1000);
+    expect(clientErrorReportSchema.safeParse(report).success).toBe(true);
+  });
+
+  test("sends repeated errors once and caps reports per page", async () => {
+    const { reportClientError } = await loadModule();
+
+    reportClientError(new Error("Same"), "window-error");
+    reportClientError(new Error("Same"), "window-error");
+    for (let index = 0; index < 20; index++) {
+      reportClientError(new Error(`Error ${index}`), "window-error");
+    }
+
+    expect(sendBeacon).toHaveBeenCalledTimes(10);
+  });
+
+  test("does nothing without sendBeacon support", async () => {
+    const { reportClientError } = await loadModule();
+    vi.stubGlobal("navigator", undefined);
+
+    expect(() => reportClientError(new Error("Boom"), "window-error")).not.toThrow();
+  });
+});
@@ -0,0 +1,75 @@
+import { z } from "zod";
+
+export const CLIENT_ERRORS_ENDPOINT = "/api/client-errors";
+
+/**
+ * Upper bound of a report body in bytes, enforced by the ingestion route before parsing.
+ */
+export const MAX_CLIENT_ERROR_REPORT_BYTES = 16 * 1024;
+
+/**
+ * Maximum number of reports a single page load sends, so an error thrown in a render loop cannot flood the server.
+ */
+const MAX_REPORTS_PER_PAGE = 10;
+
+const MAX_LENGTH = { digest: 64, message: 1000, name: 100, stack: 8000, url: 2048 };
+
+export const clientErrorReportSchema = z.object({
+  /** Hash of the server-side error, set by Next.js for errors thrown in server components. */
+  digest: z.string().max(MAX_LENGTH.digest).optional(),
+  message: z.string().max(MAX_LENGTH.message),
+  name: z.string().max(MAX_LENGTH.name).optional(),
+  source: z.enum(["error-boundary", "global-error", "window-error", "unhandled-rejection"]),
+  stack: z.string().max(MAX_LENGTH.stack).optional(),
+  url: z.string().max(MAX_LENGTH.url)
+});
+
+export type ClientErrorReport = z.infer<typeof clientErrorReportSchema>;
+export type ClientErrorSource = ClientErrorReport["source"];
+
+function truncate(value: string, maxLength: number): string;
+function truncate(value: string | undefined, maxLength: number): string | undefined;
+function truncate(value: string | undefined, maxLength: number) {
+  return value?.slice(0, maxLength);
+}
+
+let reportsSent = 0;
+const reportedErrors = new Set<string>();
+
+/**
+ * Sends a client-side error to `/api/client-errors` with `navigator.sendBeacon`, which survives page unloads.
+ * Fields are truncated to the schema limits, repeated errors are sent once and each page load sends
+ * at most `MAX_REPORTS_PER_PAGE` reports.
+ * @param error - Thrown value, `Error` instances carry the most detail
+ * @param source - Where the error was caught
+ *
+ * @example
+ * React.useEffect(() => {
+ *   reportClientError(error, "error-boundary");
+ * }, [error]);
+ */
+export function reportClientError(error: unknown, source: ClientErrorSource) {
+  if (typeof navigator === "undefined" || typeof navigator.sendBeacon !== "function") {
+    return;
+  }
+
+  const { digest, message, name, stack } =
+    error instanceof Error ? (error as Error & { digest?: string }) : { message: String(error) };
+  const key = digest ?? message;
+  if (reportsSent >= MAX_REPORTS_PER_PAGE || reportedErrors.has(key)) {
+    return;
+  }
+  reportsSent += 1;
+  reportedErrors.add(key);
+
+  const report: ClientErrorReport = {
+    digest: truncate(digest, MAX_LENGTH.digest),
+    message: truncate(message, MAX_LENGTH.message),
+    name: truncate(name, MAX_LENGTH.name),
+    source,
+    stack: truncate(stack, MAX_LENGTH.stack),
+    url: truncate(window.location.href, MAX_LENGTH.url)
+  };
+
+  navigator.sendBeacon(CLIENT_ERRORS_ENDPOINT, new Blob([JSON.stringify(report)], { type: "application/json" }));
+}
@@ -0,0 +1,121 @@
+import {
+  type CorsRule,
+  findCorsRule,
+  getCorsAllowedOrigins,
+  getCorsHeaders,
+  isPreflightRequest,
+  matchCorsOrigin
+} from "~/lib/cors";
+
+const env = vi.hoisted(() => ({ CORS_ALLOWED_ORIGINS: undefined as string | undefined }));
+
+vi.mock("~/data/env/server", () => ({ env }));
+
+beforeEach(() => {
+  env.CORS_ALLOWED_ORIGINS = undefined;
+});
+
+const rule: CorsRule = {
+  credentials: true,
+  exposedHeaders: ["X-Request-ID"],
+  headers: ["Content-Type"],
+  maxAge: 600,
+  methods: ["GET", "POST"],
+  origins: ["https://app.example.com", "https://*.preview.example.com"],
+  paths: ["/api"]
+};
+
+describe("getCorsAllowedOrigins", () => {
+  test("allows no origins by default", () => {
+    expect(getCorsAllowedOrigins()).toEqual([]);
+  });
+
+  test("reads CORS_ALLOWED_ORIGINS", () => {
+    env.CORS_ALLOWED_ORIGINS = " https://app.example.com , https://*.example.com";
+
+    expect(getCorsAllowedOrigins()).toEqual(["https://app.example.com", "https://*.example.com"]);
+  });
+});
+
+describe("findCorsRule", () => {
+  test("lets any origin call the health checks", () => {
+    expect(findCorsRule("/api/health/live")?.origins).toEqual(["*"]);
+    expect(findCorsRule("/healthz")?.origins).toEqual(["*"]);
+  });
+
+  test("lets the origins of CORS_ALLOWED_ORIGINS call the API", () => {
+    env.CORS_ALLOWED_ORIGINS = "https://app.example.com";
+
+    expect(findCorsRule("/api/notes")).toMatchObject({ credentials: true, origins: ["https://app.example.com"] });
+  });
+
+  test.each(["/", "/notes", "/metrics", "/apis"])("keeps %s same-origin", (pathname) => {
+    expect(findCorsRule(pathname)).toBeUndefined();
+  });
+});
+
+describe("matchCorsOrigin", () => {
+  test.each([
+    ["https://app.example.com", "listed"],
+    ["https://pr-12.preview.example.com", "listed"],
+    ["https://a.b.preview.example.com", "listed"],
+    ["https://preview.example.com", null],
+    ["http://app.example.com", null],
+    ["https://app.example.com.evil.example", null],
+    ["https://evil.example/.preview.example.com", null]
+  ])("%s is %s", (origin, match) => {
+    expect(matchCorsOrigin(origin, rule)).toBe(match);
+  });
+
+  test("allows any origin with *", () => {
+    expect(matchCorsOrigin("https://evil.example", { ...rule, origins: ["*"] })).toBe("any");
+    expect(matchCorsOrigin("https://app.example.com", { ...rule, origins: ["*", "https://app.example.com"] })).toBe(
+      "listed"
+    );
+  });
+});
+
+describe("isPreflightRequest", () => {
+  test("detects preflights", () => {
+    const headers = { "access-control-request-method": "POST", origin: "https://app.example.com" };
+
+    expect(isPreflightRequest(new Request("https://api.example.com/api", { headers, method: "OPTIONS" }))).toBe(true);
+    expect(isPreflightRequest(new Request("https://api.example.com/api", { method: "OPTIONS" }))).toBe(false);
+    expect(isPreflightRequest(new Request("https://api.example.com/api", { headers }))).toBe(false);
+  });
+});
+
+describe("getCorsHeaders", () => {
+  test("answers preflights of allowed origins", () => {
+    expect(getCorsHeaders(rule, "https://app.example.com", { preflight: true })).toEqual({
+      "Access-Control-Allow-Credentials": "true",
+      "Access-Control-Allow-Headers": "Content-Type",
+      "Access-Control-Allow-Methods": "GET, POST",
+      "Access-Control-Allow-Origin": "https://app.example.com",
+      "Access-Control-Max-Age": "600",
+      Vary: "Origin"
+    });
+  });
+
+  test("exposes headers to allowed origins", () => {
+    expect(getCorsHeaders(rule, "https://app.example.com", { preflight: false })).toEqual({
+      "Access-Control-Allow-Credentials": "true",
+      "Access-Control-Allow-Origin": "https://app.example.com",
+      "Access-Control-Expose-Headers": "X-Request-ID",
+      Vary: "Origin"
+    });
+  });
+
+  test("allows any origin without cookies", () => {
+    expect(getCorsHeaders({ ...rule, origins: ["*"] }, "https://evil.example", { preflight: false })).toEqual({
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Expose-Headers": "X-Request-ID"
+    });
+  });
+
+  test("leaves out other origins", () => {
+    expect(getCorsHeaders(rule, "https://evil.example", { preflight: true })).toEqual({ Vary: "Origin" });
+    expect(getCorsHeaders(rule, null, { preflight: false })).toEqual({ Vary: "Origin" });
+    expect(getCorsHeaders({ ...rule, origins: ["*"] }, null, { preflight: false })).toEqual({});
+  });
+});
@@ -0,0 +1,161 @@
+import { env } from "~/data/env/server";
+
+export interface CorsRule {
+  /** Whether browsers may send cookies with the requests. Never applies to origins allowed by `*`. */
+  credentials: boolean;
+  /** Response headers scripts of other origins may read, besides the CORS-safelisted ones. */
+  exposedHeaders: Array<string>;
+  /** Request headers other origins may send, besides the CORS-safelisted ones. */
+  headers: Array<string>;
+  /** Seconds browsers may cache a preflight response. */
+  maxAge: number;
+  methods: Array<string>;
+  /**
+   * Origins allowed to call the paths: exact origins (`https://app.example.com`), subdomain wildcards
+   * (`https://*.example.com`) or `*` for any origin.
+   */
+  origins: Array<string>;
+  /** Path prefixes the rule applies to. */
+  paths: Array<string>;
+}
+
+/**
+ * Returns the origins `CORS_ALLOWED_ORIGINS` allows to call the API, none by default.
+ */
+export function getCorsAllowedOrigins() {
+  return (env.CORS_ALLOWED_ORIGINS ?? "")
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+}
+
+/**
+ * CORS policy of `proxy.ts`, the first rule matching the path applies. Paths without a rule are same-origin only.
+ */
+export function getCorsRules(): Array<CorsRule> {
+  return [
+    {
+      // Status pages of any origin may poll the health checks
+      credentials: false,
+      exposedHeaders: [],
+      headers: [],
+      maxAge: 24 * 60 * 60,
+      methods: ["GET", "HEAD"],
+      origins: ["*"],
+      paths: ["/api/health", "/api/healthz", "/health", "/healthz", "/ping"]
+    },
+    {
+      credentials: true,
+      exposedHeaders: [
+        "RateLimit-Limit",
+        "RateLimit-Policy",
+        "RateLimit-Remaining",
+        "RateLimit-Reset",
+        "Retry-After",
+        "traceresponse",
+        "X-Request-ID"
+      ],
+      headers: [
+        "Authorization",
+        "Content-Type",
+        "traceparent",
+        "tracestate",
+        "X-API-Key",
+        "X-CSRF-Token",
+        "X-Request-ID"
+      ],
+      maxAge: 10 * 60,
+      methods: ["GET", "HEAD", "POST", "PUT", "PATCH", "DELETE"],
+      origins: getCorsAllowedOrigins(),
+      paths: ["/api"]
+    }
+  ];
+}
+
+/**
+ * Returns the rule applying to the path, or `undefined` when other origins may not call it.
+ */
+export function findCorsRule(pathname: string, rules = getCorsRules()) {
+  return rules.find(({ paths }) => paths.some((path) => pathname === path || pathname.startsWith(`${path}/`)));
+}
+
+function matchesOriginPattern(origin: string, pattern: string) {
+  if (!pattern.includes("*")) {
+    return origin === pattern;
+  }
+
+  // `https://*.example.com` matches subdomains at any depth, not `https://example.com` itself
+  const [prefix = "", suffix = ""] = pattern.split("*");
+  const subdomain = origin.slice(prefix.length, origin.length - suffix.length);
+
+  return (
+    origin.length > prefix.length + suffix.length &&
+    origin.startsWith(prefix) &&
+    origin.endsWith(suffix) &&
+    /^[a-z0-9-]+(\.[a-z0-9-]+)*$/i.test(subdomain)
+  );
+}
+
+/**
+ * Tells whether the rule allows the origin: `listed` when matched by one of its origins or wildcards, `any`
+ * when only by `*`, `null` when not allowed.
+ */
+export function matchCorsOrigin(origin: string, rule: CorsRule) {
+  if (rule.origins.some((pattern) => pattern !== "*" && matchesOriginPattern(origin, pattern))) {
+    return "listed";
+  }
+
+  return rule.origins.includes("*") ? "any" : null;
+}
+
+/**
+ * Whether the request is a CORS preflight, sent by browsers before requests other origins cannot send with a form.
+ */
+export function isPreflightRequest(request: Request) {
+  return (
+    request.method === "OPTIONS" &&
+    request.headers.has("origin") &&
+    request.headers.has("access-control-request-method")
+  );
+}
+
+/**
+ * Returns the CORS headers of a response to a request of the origin. Disallowed origins and same-origin requests
+ * get no `Access-Control-*` headers, so browsers block the response to other origins; `Vary: Origin` tells caches
+ * the response depends on the origin unless the rule allows any.
+ *
+ * @example
+ * const rule = findCorsRule(request.nextUrl.pathname);
+ * if (rule) {
+ *   const headers = getCorsHeaders(rule, request.headers.get("origin"), { preflight: false });
+ *   for (const [name, value] of Object.entries(headers)) {
+ *     response.headers.set(name, value);
+ *   }
+ * }
+ */
+export function getCorsHeaders(
+  rule: CorsRule,
+  origin: string | null,
+  { preflight }: { preflight: boolean }
+): Record<string, string> {
+  const match = origin ? matchCorsOrigin(origin, rule) : null;
+  if (!match) {
+    return rule.origins.every((pattern) => pattern === "*") ? {} : { Vary: "Origin" };
+  }
+
+  return {
+    "Access-Control-Allow-Origin": match === "listed" && origin ? origin : "*",
+    ...(rule.credentials && match === "listed" ? { "Access-Control-Allow-Credentials": "true" } : {}),
+    ...(preflight
+      ? {
+          "Access-Control-Allow-Methods": rule.methods.join(", "),
+          ...(rule.headers.length > 0 ? { "Access-Control-Allow-Headers": rule.headers.join(", ") } : {}),
+          "Access-Control-Max-Age": String(rule.maxAge)
+        }
+      : {}),
+    ...(!preflight && rule.exposedHeaders.length > 0
+      ? { "Access-Control-Expose-Headers": rule.exposedHeaders.join(", ") }
+      : {}),
+    ...(match === "listed" ? { Vary: "Origin" } : {})
+  };
+}
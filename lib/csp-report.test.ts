@@ -0,0 +1,71 @@
+import { cspReportSchema } from "~/lib/csp-report";
+
+describe("cspReportSchema", () => {
+  test("reads legacy report-uri reports", () => {
+    const result = cspReportSchema.safeParse({
+      "csp-report": {
+        "blocked-uri": "inline",
+        "column-number": 12,
+        disposition: "enforce",
+        "document-uri": "https://app.example.com/notes",
+        "line-number": 3,
+        "original-policy": "script-src 'self'",
+        referrer: "",
+        "script-sample": "alert(1)",
+        "source-file": "https://app.example.com/notes",
+        "status-code": 200,
+        "violated-directive": "script-src-elem"
+      }
+    });
+
+    expect(result.data).toEqual([
+      {
+        blockedUrl: "inline",
+        columnNumber: 12,
+        disposition: "enforce",
+        documentUrl: "https://app.example.com/notes",
+        effectiveDirective: "script-src-elem",
+        lineNumber: 3,
+        sample: "alert(1)",
+        sourceFile: "https://app.example.com/notes",
+        statusCode: 200
+      }
+    ]);
+  });
+
+  test("reads batches of the Reporting API", () => {
+    const body = {
+      blockedURL: "https://evil.example.com/script.js",
+      disposition: "report",
+      documentURL: "https://app.example.com/",
+      effectiveDirective: "script-src-elem",
+      originalPolicy: "script-src 'self'",
+      statusCode: 200
+    };
+    const result = cspReportSchema.safeParse([
+      { age: 10, body, type: "csp-violation", url: "https://app.example.com/", user_agent: "Mozilla/5.0" },
+      { age: 12, body: { ...body, documentURL: "https://app.example.com/notes" }, type: "csp-violation" }
+    ]);
+
+    expect(result.data).toEqual([
+      {
+        blockedUrl: "https://evil.example.com/script.js",
+        disposition: "report",
+        documentUrl: "https://app.example.com/",
+        effectiveDirective: "script-src-elem",
+        statusCode: 200
+      },
+      expect.objectContaining({ documentUrl: "https://app.example.com/notes" })
+    ]);
+  });
+
+  test.each([
+    ["an empty object", {}],
+    ["a report without document URL", { "csp-report": { "blocked-uri": "inline" } }],
+    ["other report types", [{ body: { documentURL: "https://app.example.com/" }, type: "deprecation" }]],
+    ["an empty batch", []],
+    ["an oversized URL", { "csp-report": { "document-uri": `https://app.example.com/${"x".repeat(3000)}` } }]
+  ])("rejects %s", (_, payload) => {
+    expect(cspReportSchema.safeParse(payload).success).toBe(false);
+  });
+});
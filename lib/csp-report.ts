@@ -0,0 +1,109 @@
+import { z } from "zod";
+
+export const CSP_REPORT_ENDPOINT = "/api/csp-report";
+
+/**
+ * Upper bound of a report body in bytes, enforced by the ingestion route before parsing.
+ */
+export const MAX_CSP_REPORT_BYTES = 32 * 1024;
+
+/**
+ * Reports the Reporting API may batch into one request, the rest are dropped.
+ */
+const MAX_REPORTS_PER_REQUEST = 20;
+
+const url = z.string().max(2048);
+const text = z.string().max(1000);
+const position = z.number().int().nonnegative();
+
+/**
+ * Body of the legacy `report-uri` reports, sent as `application/csp-report`.
+ */
+const legacyReportSchema = z.object({
+  "csp-report": z.object({
+    "blocked-uri": url.optional(),
+    "column-number": position.optional(),
+    disposition: z.enum(["enforce", "report"]).optional(),
+    "document-uri": url,
+    "effective-directive": text.optional(),
+    "line-number": position.optional(),
+    "script-sample": text.optional(),
+    "source-file": url.optional(),
+    "status-code": z.number().int().optional(),
+    "violated-directive": text.optional()
+  })
+});
+
+/**
+ * Body of the Reporting API reports of the `report-to` directive, sent as `application/reports+json`.
+ */
+const reportingApiSchema = z
+  .array(
+    z.object({
+      body: z.object({
+        blockedURL: url.optional(),
+        columnNumber: position.optional(),
+        disposition: z.enum(["enforce", "report"]).optional(),
+        documentURL: url,
+        effectiveDirective: text.optional(),
+        lineNumber: position.optional(),
+        sample: text.optional(),
+        sourceFile: url.optional(),
+        statusCode: z.number().int().optional()
+      }),
+      type: z.literal("csp-violation")
+    })
+  )
+  .min(1)
+  .max(MAX_REPORTS_PER_REQUEST);
+
+export interface CspViolation {
+  /** URL of the blocked resource, or `inline`, `eval` and the like. */
+  blockedUrl?: string;
+  columnNumber?: number;
+  disposition?: "enforce" | "report";
+  documentUrl: string;
+  /** Directive that blocked the resource, e.g. `script-src-elem`. */
+  effectiveDirective?: string;
+  lineNumber?: number;
+  /** First characters of the blocked inline script or style. */
+  sample?: string;
+  sourceFile?: string;
+  statusCode?: number;
+}
+
+/**
+ * Schema of the reports `/api/csp-report` accepts in either format browsers send, normalized to `CspViolation`s.
+ */
+export const cspReportSchema = z.union([
+  legacyReportSchema.transform(
+    ({ "csp-report": report }): Array<CspViolation> => [
+      {
+        blockedUrl: report["blocked-uri"],
+        columnNumber: report["column-number"],
+        disposition: report.disposition,
+        documentUrl: report["document-uri"],
+        effectiveDirective: report["effective-directive"] ?? report["violated-directive"],
+        lineNumber: report["line-number"],
+        sample: report["script-sample"],
+        sourceFile: report["source-file"],
+        statusCode: report["status-code"]
+      }
+    ]
+  ),
+  reportingApiSchema.transform((reports) =>
+    reports.map(
+      ({ body }): CspViolation => ({
+        blockedUrl: body.blockedURL,
+        columnNumber: body.columnNumber,
+        disposition: body.disposition,
+        documentUrl: body.documentURL,
+        effectiveDirective: body.effectiveDirective,
+        lineNumber: body.lineNumber,
+        sample: body.sample,
+        sourceFile: body.sourceFile,
+        statusCode: body.statusCode
+      })
+    )
+  )
+]);
@@ -0,0 +1,255 @@
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  CSRF_COOKIE,
+  checkCsrf,
+  generateCsrfToken,
+  getAllowedOrigins,
+  getServerActionIds,
+  isMutatingMethod
+} from "~/lib/csrf";
+
+const env = vi.hoisted(() => ({
+  AUTH_URL: undefined as string | undefined,
+  CSRF_ALLOWED_ORIGINS: undefined as string | undefined
+}));
+
+vi.mock("~/data/env/server", () => ({ env }));
+
+beforeEach(() => {
+  env.AUTH_URL = undefined;
+  env.CSRF_ALLOWED_ORIGINS = undefined;
+});
+
+const host = "app.example.com";
+const token = generateCsrfToken();
+const serverActionIds = new Set(["7fc692a9"]);
+
+function post(path: string, { body, headers = {} }: { body?: BodyInit; headers?: Record<string, string> } = {}) {
+  // String bodies are JSON unless told otherwise, `Request` would send them as `text/plain`
+  const contentType: Record<string, string> = typeof body === "string" ? { "content-type": "application/json" } : {};
+
+  return new Request(`https://${host}${path}`, { body, headers: { ...contentType, ...headers }, method: "POST" });
+}
+
+function form(fields: Record<string, string>) {
+  return new URLSearchParams(fields);
+}
+
+describe("generateCsrfToken", () => {
+  test("generates 256-bit base64url tokens", () => {
+    expect(token).toMatch(/^[\w-]{43}$/);
+    expect(generateCsrfToken()).not.toBe(token);
+  });
+});
+
+describe("getAllowedOrigins", () => {
+  test("allows no other origins by default", () => {
+    expect(getAllowedOrigins()).toEqual([]);
+  });
+
+  test("allows the origin of AUTH_URL and CSRF_ALLOWED_ORIGINS", () => {
+    env.AUTH_URL = "https://auth.example.com/app";
+    env.CSRF_ALLOWED_ORIGINS = "https://admin.example.com, http://localhost:6006";
+
+    expect(getAllowedOrigins()).toEqual([
+      "https://auth.example.com",
+      "https://admin.example.com",
+      "http://localhost:6006"
+    ]);
+  });
+});
+
+describe("getServerActionIds", () => {
+  let manifestPath: string;
+
+  const writeManifest = (ids: Array<string>, modifiedAt: Date) => {
+    writeFileSync(manifestPath, JSON.stringify({ edge: {}, node: Object.fromEntries(ids.map((id) => [id, {}])) }));
+    utimesSync(manifestPath, modifiedAt, modifiedAt);
+  };
+
+  beforeEach(() => {
+    manifestPath = path.join(mkdtempSync(path.join(tmpdir(), "csrf-")), "server-reference-manifest.json");
+  });
+
+  afterEach(() => {
+    rmSync(path.dirname(manifestPath), { force: true, recursive: true });
+  });
+
+  test("reads the action ids of the build", () => {
+    writeManifest(["7fc692a9", "40e1a2b3"], new Date(2026, 0, 1));
+
+    expect(getServerActionIds(manifestPath)).toEqual(new Set(["7fc692a9", "40e1a2b3"]));
+  });
+
+  test("reads the manifest again only once it changed", () => {
+    writeManifest(["7fc692a9"], new Date(2026, 0, 1));
+    const ids = getServerActionIds(manifestPath);
+
+    expect(getServerActionIds(manifestPath)).toBe(ids);
+
+    writeManifest(["40e1a2b3"], new Date(2026, 0, 2));
+    expect(getServerActionIds(manifestPath)).toEqual(new Set(["40e1a2b3"]));
+  });
+
+  test("has no actions without a manifest", () => {
+    expect(getServerActionIds(manifestPath)).toEqual(new Set());
+  });
+});
+
+describe("isMutatingMethod", () => {
+  test.each(["POST", "PUT", "PATCH", "DELETE", "post"])("%s is mutating", (method) => {
+    expect(isMutatingMethod(method)).toBe(true);
+  });
+
+  test.each(["GET", "HEAD", "OPTIONS"])("%s is safe", (method) => {
+    expect(isMutatingMethod(method)).toBe(false);
+  });
+});
+
+describe("checkCsrf", () => {
+  test("allows safe methods from anywhere", async () => {
+    const request = new Request(`https://${host}/api/notes`, { headers: { origin: "https://evil.example" } });
+
+    expect(await checkCsrf(request, { host })).toEqual({ allowed: true });
+  });
+
+  test("allows requests of the app's own origin", async () => {
+    const request = post("/api/notes", { body: "{}", headers: { origin: `https://${host}` } });
+
+    expect(await checkCsrf(request, { host })).toEqual({ allowed: true });
+  });
+
+  test("compares the app's own origin by host", async () => {
+    const request = post("/api/notes", { body: "{}", headers: { origin: `http://${host}` } });
+
+    expect(await checkCsrf(request, { host })).toEqual({ allowed: true });
+  });
+
+  test("allows requests of allowed origins", async () => {
+    const request = post("/api/notes", { body: "{}", headers: { origin: "https://admin.example.com" } });
+
+    expect(await checkCsrf(request, { allowedOrigins: ["https://admin.example.com"], host })).toEqual({
+      allowed: true
+    });
+  });
+
+  test.each([
+    ["another origin", { origin: "https://evil.example" }, "Origin https://evil.example is not allowed"],
+    ["an opaque origin", { origin: "null" }, "Origin null is not allowed"],
+    [
+      "a referrer of another origin",
+      { referer: "https://evil.example/page" },
+      "Origin https://evil.example is not allowed"
+    ],
+    ["a cross-site fetch without origin", { "sec-fetch-site": "cross-site" }, "Sec-Fetch-Site is cross-site"],
+    ["a same-site fetch without origin", { "sec-fetch-site": "same-site" }, "Sec-Fetch-Site is same-site"]
+  ])("rejects requests of %s", async (_, headers, reason) => {
+    expect(await checkCsrf(post("/api/notes", { body: "{}", headers }), { host })).toEqual({
+      allowed: false,
+      reason
+    });
+  });
+
+  test("allows clients other than browsers", async () => {
+    expect(await checkCsrf(post("/api/notes", { body: "{}" }), { host })).toEqual({ allowed: true });
+  });
+
+  test("does not check exempt paths", async () => {
+    const request = post("/api/csp-report", { body: "{}", headers: { origin: "https://evil.example" } });
+
+    expect(await checkCsrf(request, { host })).toEqual({ allowed: true });
+  });
+
+  describe("form posts", () => {
+    const cookie = `theme=dark; ${CSRF_COOKIE}=${token}`;
+
+    test("accept the token in the form", async () => {
+      const request = post("/api/auth/signout", { body: form({ csrfToken: token }), headers: { cookie } });
+
+      expect(await checkCsrf(request, { host })).toEqual({ allowed: true });
+    });
+
+    test("accept the token in the header", async () => {
+      const body = new FormData();
+      body.set("title", "Note");
+      const request = post("/api/notes", { body, headers: { cookie, "x-csrf-token": token } });
+
+      expect(await checkCsrf(request, { host })).toEqual({ allowed: true });
+    });
+
+    test("leave the body to the handler", async () => {
+      const request = post("/api/auth/signout", { body: form({ csrfToken: token }), headers: { cookie } });
+
+      await checkCsrf(request, { host });
+
+      expect((await request.formData()).get("csrfToken")).toBe(token);
+    });
+
+    test("reject a missing token", async () => {
+      expect(await checkCsrf(post("/api/auth/signout", { body: form({}), headers: { cookie } }), { host })).toEqual({
+        allowed: false,
+        reason: "CSRF token missing"
+      });
+      expect(await checkCsrf(post("/api/auth/signout", { body: form({ csrfToken: token }) }), { host })).toEqual({
+        allowed: false,
+        reason: "CSRF token missing"
+      });
+    });
+
+    test("reject a token not matching the cookie", async () => {
+      const request = post("/api/auth/signout", {
+        body: form({ csrfToken: generateCsrfToken() }),
+        headers: { cookie }
+      });
+
+      expect(await checkCsrf(request, { host })).toEqual({ allowed: false, reason: "CSRF token mismatch" });
+    });
+
+    test("leave server actions to Next.js", async () => {
+      const body = new FormData();
+      body.set("$ACTION_ID_7fc692a9", "");
+
+      expect(await checkCsrf(post("/notes", { body }), { host, serverActionIds })).toEqual({ allowed: true });
+      expect(
+        await checkCsrf(post("/notes", { body: form({}), headers: { "next-action": "7fc692a9" } }), { host })
+      ).toEqual({ allowed: true });
+    });
+
+    test("reject fields of actions the app does not have", async () => {
+      const body = new FormData();
+      body.set("$ACTION_ID_made-up", "");
+      body.set("$ACTION_bypass", "");
+
+      expect(await checkCsrf(post("/notes", { body }), { host, serverActionIds })).toEqual({
+        allowed: false,
+        reason: "CSRF token missing"
+      });
+    });
+
+    test("reject action fields posted to route handlers", async () => {
+      const body = new FormData();
+      body.set("$ACTION_ID_7fc692a9", "");
+
+      expect(await checkCsrf(post("/api/auth/signout", { body }), { host, serverActionIds })).toEqual({
+        allowed: false,
+        reason: "CSRF token missing"
+      });
+    });
+
+    test("check text/plain posts for the token", async () => {
+      const headers = { "content-type": "text/plain" };
+
+      expect(await checkCsrf(post("/api/auth/signout", { body: "a=b", headers }), { host })).toEqual({
+        allowed: false,
+        reason: "CSRF token missing"
+      });
+      expect(
+        await checkCsrf(post("/api/notes", { body: "a=b", headers: { ...headers, cookie, "x-csrf-token": token } }), {
+          host
+        })
+      ).toEqual({ allowed: true });
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import { readFileSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { cookies } from "next/headers";
+import { env } from "~/data/env/server";
+import { isRouteHandlerPath } from "~/lib/access-log";
+
+/**
+ * Name of the cookie holding the double-submit token of the browser.
+ */
+export const CSRF_COOKIE = "csrf.token";
+
+/**
+ * Header carrying the token with requests sent by scripts.
+ */
+export const CSRF_HEADER = "x-csrf-token";
+
+/**
+ * Name of the hidden field carrying the token with form posts, see `CsrfTokenField`.
+ */
+export const CSRF_FIELD = "csrfToken";
+
+/**
+ * Paths accepting cross-site requests, such as reports browsers send on their own and webhooks. Their handlers
+ * must not rely on cookies.
+ */
+export const CSRF_EXEMPT_PATHS = ["/api/csp-report"];
+
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS", "TRACE"]);
+
+/**
+ * Content types of HTML forms, the requests a cross-site page can send without a CORS preflight.
+ */
+const FORM_CONTENT_TYPES = ["application/x-www-form-urlencoded", "multipart/form-data", "text/plain"];
+
+const ACTION_ID_FIELD_PREFIX = "$ACTION_ID_";
+
+export type CsrfCheck = { allowed: true } | { allowed: false; reason: string };
+
+export interface CsrfCheckOptions {
+  /** Origins other than the app's own allowed to send mutating requests, e.g. `https://admin.example.com`. */
+  allowedOrigins?: Array<string>;
+  /** Host the app is served at, from the `X-Forwarded-Host` or `Host` header. */
+  host: string | null;
+  /** Ids of the app's server actions, `getServerActionIds()` by default. */
+  serverActionIds?: ReadonlySet<string>;
+}
+
+/**
+ * Manifest of the server actions of the running build. Next.js inlines `process.env.NODE_ENV` as the mode the bundle
+ * was built in, whatever `NODE_ENV` the server runs with, and `next dev` writes its output to `.next/dev`, so it
+ * does not overwrite the one of `next build`.
+ */
+const SERVER_ACTION_MANIFEST = join(
+  process.env.NODE_ENV === "development" ? ".next/dev/server" : ".next/server",
+  "server-reference-manifest.json"
+);
+
+let serverActionIds: { ids: ReadonlySet<string>; mtimeMs: number; path: string } | undefined;
+
+/**
+ * Returns the ids of the app's server actions, from the manifest Next.js writes next to the server bundles. Read
+ * again only once the manifest changed, as `next dev` rewrites it when actions are edited. Empty without
+ * a manifest, so form posts are then all checked for the token.
+ */
+export function getServerActionIds(manifestPath = join(process.cwd(), SERVER_ACTION_MANIFEST)) {
+  try {
+    const { mtimeMs } = statSync(manifestPath);
+    if (serverActionIds?.path !== manifestPath || serverActionIds.mtimeMs !== mtimeMs) {
+      const manifest = JSON.parse(readFileSync(manifestPath, "utf8")) as { node?: Record<string, unknown> };
+      serverActionIds = { ids: new Set(Object.keys(manifest.node ?? {})), mtimeMs, path: manifestPath };
+    }
+
+    return serverActionIds.ids;
+  } catch {
+    return new Set<string>();
+  }
+}
+
+/**
+ * Generates the double-submit token of a browser: 256 random bits, base64url-encoded.
+ */
+export function generateCsrfToken() {
+  return randomBytes(32).toString("base64url");
+}
+
+/**
+ * Returns the origins allowed besides the app's own: those of `APP_URL`, `AUTH_URL` and `CSRF_ALLOWED_ORIGINS`.
+ */
+export function getAllowedOrigins() {
+  const origins = (env.CSRF_ALLOWED_ORIGINS ?? "")
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+
+  const appUrls = [env.APP_URL, env.AUTH_URL].filter((url) => url !== undefined);
+
+  return [...appUrls.map((url) => new URL(url).origin), ...origins];
+}
+
+/**
+ * Whether a request can change state: anything but `GET`, `HEAD`, `OPTIONS` and `TRACE`.
+ */
+export function isMutatingMethod(method: string) {
+  return !SAFE_METHODS.has(method.toUpperCase());
+}
+
+function getRequestOrigin(request: Request) {
+  const origin = request.headers.get("origin");
+  if (origin) {
+    return origin;
+  }
+
+  // Browsers leave out `Origin` in a few cases, the referrer then tells where the request comes from
+  const referer = request.headers.get("referer");
+  if (referer && URL.canParse(referer)) {
+    return new URL(referer).origin;
+  }
+
+  return null;
+}
+
+function isAllowedOrigin(origin: string, { allowedOrigins = [], host }: CsrfCheckOptions) {
+  if (allowedOrigins.includes(origin)) {
+    return true;
+  }
+
+  // Compared by host like the origin check of server actions, so TLS terminated by a proxy does not matter
+  return URL.canParse(origin) && new URL(origin).host === host;
+}
+
+/**
+ * Whether a request is the form post of a server action, checked by Next.js on its own: with the `Next-Action`
+ * header when sent by React, which cross-site forms cannot set, or with the `$ACTION_ID_<id>` field of one of the
+ * app's actions when the form was submitted before hydration. Route handlers do not run actions, so the field
+ * does not exempt posts to them; nor does it exempt forms of bound actions, which must carry the token.
+ */
+function isServerActionPost(request: Request, form: FormData | null, serverActionIds: () => ReadonlySet<string>) {
+  if (request.headers.has("next-action")) {
+    return true;
+  }
+  if (!form || isRouteHandlerPath(new URL(request.url).pathname)) {
+    return false;
+  }
+
+  const actionIds = [...form.keys()]
+    .filter((name) => name.startsWith(ACTION_ID_FIELD_PREFIX))
+    .map((name) => name.slice(ACTION_ID_FIELD_PREFIX.length));
+
+  return actionIds.length > 0 && actionIds.every((id) => serverActionIds().has(id));
+}
+
+function getCookie(request: Request, name: string) {
+  for (const pair of request.headers.get("cookie")?.split(";") ?? []) {
+    const [key, ...value] = pair.split("=");
+    if (key?.trim() === name) {
+      return decodeURIComponent(value.join("=").trim());
+    }
+  }
+
+  return null;
+}
+
+function tokensMatch(expected: string, actual: string) {
+  const expectedBytes = Buffer.from(expected);
+  const actualBytes = Buffer.from(actual);
+
+  return expectedBytes.length === actualBytes.length && timingSafeEqual(expectedBytes, actualBytes);
+}
+
+/**
+ * Checks a mutating request against cross-site request forgery, in two layers:
+ *
+ * 1. `Origin` (or `Referer`) must be the app's own or allowed; without either, `Sec-Fetch-Site` must not be
+ *    `cross-site` or `same-site`. Requests without any of these headers come from clients other than browsers,
+ *    which do not send cookies on their own.
+ * 2. Form posts other than server actions, including `text/plain` ones, must carry the token of the `csrf.token`
+ *    cookie in the `csrfToken` field or the `X-CSRF-Token` header (double submit), covering browsers not sending
+ *    these headers.
+ *
+ * Safe methods and `CSRF_EXEMPT_PATHS` are not checked.
+ */
+export async function checkCsrf(request: Request, options: CsrfCheckOptions): Promise<CsrfCheck> {
+  const { pathname } = new URL(request.url);
+  if (!isMutatingMethod(request.method) || CSRF_EXEMPT_PATHS.includes(pathname)) {
+    return { allowed: true };
+  }
+
+  const origin = getRequestOrigin(request);
+  if (origin && !isAllowedOrigin(origin, options)) {
+    return { allowed: false, reason: `Origin ${origin} is not allowed` };
+  }
+  const fetchSite = request.headers.get("sec-fetch-site");
+  if (!origin && (fetchSite === "cross-site" || fetchSite === "same-site")) {
+    return { allowed: false, reason: `Sec-Fetch-Site is ${fetchSite}` };
+  }
+
+  const contentType = request.headers.get("content-type")?.split(";")[0]?.trim().toLowerCase() ?? "";
+  if (!FORM_CONTENT_TYPES.includes(contentType)) {
+    return { allowed: true };
+  }
+
+  // Read from a copy, so the handler still gets the body
+  const form = await request
+    .clone()
+    .formData()
+    .catch(() => null);
+  if (isServerActionPost(request, form, () => options.serverActionIds ?? getServerActionIds())) {
+    return { allowed: true };
+  }
+
+  const expected = getCookie(request, CSRF_COOKIE);
+  const field = form?.get(CSRF_FIELD);
+  const actual = request.headers.get(CSRF_HEADER) ?? (typeof field === "string" ? field : null);
+  if (!expected || !actual) {
+    return { allowed: false, reason: "CSRF token missing" };
+  }
+  if (!tokensMatch(expected, actual)) {
+    return { allowed: false, reason: "CSRF token mismatch" };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Options of the token cookie. It lasts as long as the browser session; `proxy.ts` sets a new one when missing.
+ */
+export function getCsrfCookieOptions(secure: boolean) {
+  return {
+    httpOnly: true,
+    path: "/",
+    sameSite: "lax" as const,
+    secure
+  };
+}
+
+/**
+ * Returns the token of the current request for forms posting to route handlers, see `CsrfTokenField`.
+ */
+export async function getCsrfToken() {
+  return (await cookies()).get(CSRF_COOKIE)?.value ?? null;
+}
@@ -0,0 +1,111 @@
+const { env } = vi.hoisted(() => ({
+  env: { DATABASE_URL: undefined as string | undefined, NODE_ENV: "test" }
+}));
+
+vi.mock("~/data/env/server", () => ({ env }));
+
+import { sql } from "kysely";
+import { migrations } from "~/data/db/migrations";
+import {
+  createDatabase,
+  getDatabaseUrl,
+  hasDatabase,
+  IN_MEMORY_DATABASE_URL,
+  migrateDown,
+  migrateToLatest
+} from "~/lib/db";
+
+describe("getDatabaseUrl", () => {
+  afterEach(() => {
+    env.DATABASE_URL = undefined;
+    env.NODE_ENV = "test";
+  });
+
+  test("returns DATABASE_URL when set", () => {
+    env.DATABASE_URL = "postgres://localhost:5432/app";
+
+    expect(getDatabaseUrl()).toBe("postgres://localhost:5432/app");
+  });
+
+  test("defaults to an embedded database outside of production", () => {
+    expect(getDatabaseUrl()).toBe(IN_MEMORY_DATABASE_URL);
+
+    env.NODE_ENV = "development";
+    expect(getDatabaseUrl()).toBe("pglite://.data/pglite");
+  });
+
+  test("requires DATABASE_URL in production", () => {
+    env.NODE_ENV = "production";
+
+    expect(() => getDatabaseUrl()).toThrow("DATABASE_URL must be set in production");
+  });
+
+  test("has no database in production without DATABASE_URL", () => {
+    expect(hasDatabase()).toBe(true);
+
+    env.NODE_ENV = "production";
+    expect(hasDatabase()).toBe(false);
+
+    env.DATABASE_URL = "postgres://localhost:5432/app";
+    expect(hasDatabase()).toBe(true);
+  });
+});
+
+describe("migrations", () => {
+  const db = createDatabase(IN_MEMORY_DATABASE_URL);
+
+  // Starting PGlite takes a few seconds
+  beforeAll(async () => {
+    await sql`select 1`.execute(db);
+  }, 30_000);
+
+  afterAll(async () => {
+    await db.destroy();
+  });
+
+  const tables = async () =>
+    (await db.introspection.getTables()).map(({ name }) => name).filter((name) => !name.startsWith("kysely_"));
+
+  test("migrate up and down", async () => {
+    const names = Object.keys(migrations);
+
+    expect((await migrateToLatest(db)).map(({ migrationName }) => migrationName)).toEqual(names);
+    expect(await migrateToLatest(db)).toEqual([]);
+    expect(await tables()).toContain("feedback");
+
+    expect(await migrateDown(db)).toEqual([
+      expect.objectContaining({ direction: "Down", migrationName: names.at(-1), status: "Success" })
+    ]);
+    expect((await migrateDown(db, { all: true })).map(({ migrationName }) => migrationName)).toEqual(
+      names.slice(0, -1).reverse()
+    );
+    expect(await tables()).toEqual([]);
+  });
+});
+
+describe("embedded database", () => {
+  const db = createDatabase(IN_MEMORY_DATABASE_URL);
+
+  // Starting PGlite takes a few seconds
+  beforeAll(async () => {
+    await sql`select 1`.execute(db);
+  }, 30_000);
+
+  afterAll(async () => {
+    await db.destroy();
+  });
+
+  test("runs concurrent transactions one after the other", async () => {
+    await sql`create table counter (value integer not null)`.execute(db);
+    await sql`insert into counter values (0)`.execute(db);
+
+    const increment = () =>
+      db.transaction().execute(async (trx) => {
+        const { rows } = await sql<{ value: number }>`select value from counter`.execute(trx);
+        await sql`update counter set value = ${(rows[0]?.value ?? 0) + 1}`.execute(trx);
+      });
+    await Promise.all([increment(), increment(), increment()]);
+
+    expect((await sql<{ value: number }>`select value from counter`.execute(db)).rows).toEqual([{ value: 3 }]);
+  });
+});
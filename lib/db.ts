@@ -0,0 +1,170 @@
+import { mkdirSync } from "node:fs";
+import { PGlite } from "@electric-sql/pglite";
+import {
+  CamelCasePlugin,
+  Kysely,
+  type LogEvent,
+  type MigrationResultSet,
+  Migrator,
+  NO_MIGRATIONS,
+  PostgresDialect
+} from "kysely";
+import pg from "pg";
+import { migrations } from "~/data/db/migrations";
+import type { Database } from "~/data/db/schema";
+import { env } from "~/data/env/server";
+import { getRequestLogger } from "~/lib/logger";
+import { PGliteDialect } from "~/lib/pglite-dialect";
+
+export type { Database } from "~/data/db/schema";
+
+const PGLITE_PROTOCOL = "pglite://";
+
+/**
+ * Embedded database used in development when `DATABASE_URL` is not set, stored in `.data/pglite`.
+ */
+export const DEFAULT_DATABASE_URL = `${PGLITE_PROTOCOL}.data/pglite`;
+
+/**
+ * Embedded database kept in memory, used in tests when `DATABASE_URL` is not set.
+ */
+export const IN_MEMORY_DATABASE_URL = `${PGLITE_PROTOCOL}memory`;
+
+const DEFAULT_POOL_MAX = 10;
+
+/**
+ * Returns `DATABASE_URL`, or the embedded database outside of production: in memory in tests, on disk otherwise.
+ */
+export function getDatabaseUrl() {
+  if (env.DATABASE_URL) {
+    return env.DATABASE_URL;
+  }
+  if (env.NODE_ENV === "production") {
+    throw new Error("DATABASE_URL must be set in production");
+  }
+
+  return env.NODE_ENV === "test" ? IN_MEMORY_DATABASE_URL : DEFAULT_DATABASE_URL;
+}
+
+/**
+ * Whether the app has a database: `DATABASE_URL` is set, or the embedded one is used outside of production. The
+ * env validation requires `DATABASE_URL` in production, so only builds skipping it have none.
+ */
+export function hasDatabase() {
+  return Boolean(env.DATABASE_URL) || env.NODE_ENV !== "production";
+}
+
+/**
+ * Whether the URL points to a PGlite database running inside this process rather than a Postgres server.
+ */
+export function isEmbeddedDatabase(url: string) {
+  return url.startsWith(PGLITE_PROTOCOL);
+}
+
+function createPGlite(url: string) {
+  if (url === IN_MEMORY_DATABASE_URL) {
+    return new PGlite("memory://");
+  }
+
+  // PGlite creates the database directory, but not its parents
+  const directory = url.slice(PGLITE_PROTOCOL.length);
+  mkdirSync(directory, { recursive: true });
+
+  return new PGlite(directory);
+}
+
+function logQuery(event: LogEvent) {
+  const queryLogger = getRequestLogger()
+    .withContext({ module: "db" })
+    .withMetadata({ durationMs: Math.round(event.queryDurationMillis * 100) / 100, sql: event.query.sql });
+
+  // Failed queries surface as errors of the request, the query itself is only worth a debug entry
+  if (event.level === "error") {
+    queryLogger.withError(event.error).debug("Query failed");
+  } else {
+    queryLogger.trace("Query executed");
+  }
+}
+
+/**
+ * Creates a database client: a connection pool for `postgres://` URLs (`DATABASE_POOL_MAX` connections,
+ * 10 by default) or an embedded PGlite database for `pglite://<directory>` and `pglite://memory`.
+ * Prefer `getDb()`, which shares one client per process; create your own for scripts and tests.
+ */
+export function createDatabase(url = getDatabaseUrl()) {
+  const dialect = isEmbeddedDatabase(url)
+    ? new PGliteDialect(createPGlite(url))
+    : new PostgresDialect({
+        pool: new pg.Pool({ connectionString: url, max: Number(env.DATABASE_POOL_MAX ?? DEFAULT_POOL_MAX) })
+      });
+
+  return new Kysely<Database>({ dialect, log: logQuery, plugins: [new CamelCasePlugin()] });
+}
+
+// Kept on `globalThis`, as modules are evaluated once per route bundle and again on every hot reload,
+// and an embedded database directory must only be opened once per process
+const globalForDb = globalThis as typeof globalThis & { db?: Kysely<Database> };
+
+/**
+ * Returns the database client shared by the whole process, see `createDatabase`.
+ *
+ * @example
+ * const notes = await getDb().selectFrom("note").selectAll().where("authorId", "=", user.id).execute();
+ */
+export function getDb() {
+  globalForDb.db ??= createDatabase();
+
+  return globalForDb.db;
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: migrations run against any state of the schema
+export function createMigrator(db: Kysely<any>) {
+  return new Migrator({ db, provider: { getMigrations: async () => migrations } });
+}
+
+async function runMigrations(migrate: Promise<MigrationResultSet>) {
+  const { error, results = [] } = await migrate;
+  if (error) {
+    const failed = results.find(({ status }) => status === "Error");
+    throw new Error(failed ? `Migration ${failed.migrationName} failed` : "Migrations failed", { cause: error });
+  }
+
+  return results;
+}
+
+/**
+ * Runs the pending migrations of `data/db/migrations`.
+ * @returns The migrations that ran
+ */
+export function migrateToLatest(db: Kysely<Database> = getDb()) {
+  return runMigrations(createMigrator(db).migrateToLatest());
+}
+
+/**
+ * Reverts the last migration that ran, or all of them with `all`.
+ * @returns The migrations that were reverted
+ */
+export function migrateDown(db: Kysely<Database> = getDb(), { all = false } = {}) {
+  const migrator = createMigrator(db);
+
+  return runMigrations(all ? migrator.migrateTo(NO_MIGRATIONS) : migrator.migrateDown());
+}
+
+/**
+ * Brings an embedded database up to date when the server starts, as no other process can open it meanwhile.
+ * Postgres servers are migrated by the deployment with `npm run db:migrate` instead.
+ */
+export async function migrateEmbeddedDatabase() {
+  // Production builds have no database to migrate
+  if (!hasDatabase() || !isEmbeddedDatabase(getDatabaseUrl())) {
+    return;
+  }
+
+  const results = await migrateToLatest();
+  if (results.length > 0) {
+    getRequestLogger()
+      .withContext({ module: "db" })
+      .withMetadata({ migrations: results.map(({ migrationName }) => migrationName) })
+      .info("Embedded database migrated");
+  }
+}
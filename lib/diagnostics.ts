@@ -0,0 +1,93 @@
+import { statSync } from "node:fs";
+import path from "node:path";
+import { monitorEventLoopDelay } from "node:perf_hooks";
+import { getRelease } from "~/data/env/app";
+import { env } from "~/data/env/server";
+import { hasBearerToken } from "~/lib/bearer-token";
+
+export interface Diagnostics {
+  build: {
+    commitSha: string | null;
+    time: string | null;
+    version: string;
+  };
+  runtime: {
+    eventLoopLagMs: {
+      max: number;
+      mean: number;
+      p50: number;
+      p99: number;
+    };
+    memory: {
+      arrayBuffers: number;
+      external: number;
+      heapTotal: number;
+      heapUsed: number;
+      rss: number;
+    };
+    nodeVersion: string;
+    pid: number;
+    platform: string;
+    uptimeSeconds: number;
+  };
+}
+
+/**
+ * Event loop delay sampled continuously from the moment this module is first loaded.
+ */
+const eventLoopDelay = monitorEventLoopDelay({ resolution: 20 });
+eventLoopDelay.enable();
+
+const toMilliseconds = (nanoseconds: number) => Math.round((nanoseconds / 1e6) * 100) / 100;
+
+/**
+ * Falls back to the modification time of `.next/BUILD_ID`, written once by `next build`.
+ */
+function getBuildTime() {
+  if (env.BUILD_TIME) {
+    return env.BUILD_TIME;
+  }
+
+  try {
+    return statSync(path.join(process.cwd(), ".next", "BUILD_ID")).mtime.toISOString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Collects build metadata and a snapshot of the Node.js runtime state.
+ */
+export function getDiagnostics(): Diagnostics {
+  const { arrayBuffers, external, heapTotal, heapUsed, rss } = process.memoryUsage();
+  const { commitSha, version } = getRelease();
+
+  return {
+    build: {
+      commitSha,
+      time: getBuildTime(),
+      version
+    },
+    runtime: {
+      eventLoopLagMs: {
+        max: toMilliseconds(eventLoopDelay.max),
+        mean: toMilliseconds(eventLoopDelay.mean),
+        p50: toMilliseconds(eventLoopDelay.percentile(50)),
+        p99: toMilliseconds(eventLoopDelay.percentile(99))
+      },
+      memory: { arrayBuffers, external, heapTotal, heapUsed, rss },
+      nodeVersion: process.version,
+      pid: process.pid,
+      platform: process.platform,
+      uptimeSeconds: Math.round(process.uptime())
+    }
+  };
+}
+
+/**
+ * Checks whether the request carries the `HEALTH_DIAGNOSTICS_TOKEN` as a bearer token.
+ * Always `false` when no token is configured, so diagnostics stay private by default.
+ */
+export function isDiagnosticsAuthorized(request: Request) {
+  return hasBearerToken(request, env.HEALTH_DIAGNOSTICS_TOKEN);
+}
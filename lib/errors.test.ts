@@ -0,0 +1,96 @@
+import { z } from "zod";
+import {
+  AppError,
+  ConflictError,
+  ForbiddenError,
+  isAppError,
+  NotFoundError,
+  RateLimitedError,
+  UnauthorizedError,
+  ValidationError
+} from "~/lib/errors";
+
+describe("AppError", () => {
+  test.each([
+    [new NotFoundError(), 404, "not_found", "Not Found"],
+    [new ValidationError(), 400, "validation_failed", "Bad Request"],
+    [new UnauthorizedError(), 401, "unauthorized", "Unauthorized"],
+    [new ForbiddenError(), 403, "forbidden", "Forbidden"],
+    [new ConflictError(), 409, "conflict", "Conflict"],
+    [new RateLimitedError(), 429, "rate_limited", "Too Many Requests"]
+  ])("%s has status %i and code %s", (error, status, code, title) => {
+    expect(error).toBeInstanceOf(AppError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toMatchObject({ code, expose: true, status, title });
+    expect(error.message).not.toBe("");
+  });
+
+  test("names errors after their class", () => {
+    expect(new NotFoundError("Note 42 does not exist")).toMatchObject({
+      message: "Note 42 does not exist",
+      name: "NotFoundError"
+    });
+  });
+
+  test("keeps the cause, extensions and headers", () => {
+    const cause = new Error("Duplicate key");
+    const error = new ConflictError("Email already taken", {
+      cause,
+      extensions: { field: "email" },
+      headers: { "X-Conflict": "email" }
+    });
+
+    expect(error.cause).toBe(cause);
+    expect(error.extensions).toEqual({ field: "email" });
+    expect(error.headers.get("x-conflict")).toBe("email");
+  });
+
+  test("does not expose the message of server errors", () => {
+    const error = new AppError("Upstream timed out", { code: "bad_gateway", status: 502, title: "Bad Gateway" });
+
+    expect(error.expose).toBe(false);
+  });
+
+  test("challenges for a bearer token when unauthorized", () => {
+    expect(new UnauthorizedError().headers.get("www-authenticate")).toBe("Bearer");
+    expect(
+      new UnauthorizedError("Session expired", {
+        headers: { "WWW-Authenticate": 'Bearer error="invalid_token"' }
+      }).headers.get("www-authenticate")
+    ).toBe('Bearer error="invalid_token"');
+  });
+
+  test("sets Retry-After in whole seconds when rate limited", () => {
+    const error = new RateLimitedError(undefined, { retryAfterSeconds: 12.3 });
+
+    expect(error.retryAfterSeconds).toBe(12.3);
+    expect(error.headers.get("retry-after")).toBe("13");
+    expect(new RateLimitedError().headers.has("retry-after")).toBe(false);
+  });
+
+  test("lists the issues of a failed Zod parse", () => {
+    const result = z
+      .object({ tags: z.array(z.string()), title: z.string().min(1) })
+      .safeParse({ tags: [1], title: "" });
+    if (result.success) {
+      throw new Error("Expected the parse to fail");
+    }
+
+    const error = ValidationError.fromZodError(result.error);
+
+    expect(error.cause).toBe(result.error);
+    expect(error.issues).toEqual([
+      { message: expect.any(String), path: "tags.0" },
+      { message: expect.any(String), path: "title" }
+    ]);
+    expect(error.extensions).toEqual({ issues: error.issues });
+  });
+});
+
+describe("isAppError", () => {
+  test("narrows application errors only", () => {
+    expect(isAppError(new ForbiddenError())).toBe(true);
+    expect(isAppError(new Error("Boom"))).toBe(false);
+    expect(isAppError("Boom")).toBe(false);
+  });
+});
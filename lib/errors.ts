@@ -0,0 +1,150 @@
+import type { z } from "zod";
+
+export interface AppErrorOptions extends ErrorOptions {
+  /** Additional members of the problem details, e.g. `{ balance: 30 }`. */
+  extensions?: Record<string, unknown>;
+  /** Headers added to the error response, e.g. `Retry-After`. */
+  headers?: HeadersInit;
+}
+
+interface AppErrorInit extends AppErrorOptions {
+  /** Stable machine-readable identifier, sent as the `code` member of the problem details. */
+  code: string;
+  status: number;
+  /** Short summary of the problem type, the HTTP reason phrase for the built-in errors. */
+  title: string;
+}
+
+/**
+ * Expected failures thrown anywhere below a route handler. `withRouteHandler` turns them into RFC 9457
+ * `application/problem+json` responses with their status, see `lib/problem-details.ts`; anything else
+ * thrown becomes a 500 whose details are only shown outside of production.
+ *
+ * @example
+ * const note = await findNote(id);
+ * if (!note) {
+ *   throw new NotFoundError(`Note ${id} does not exist`);
+ * }
+ */
+export class AppError extends Error {
+  readonly code: string;
+  readonly extensions: Record<string, unknown>;
+  readonly headers: Headers;
+  readonly status: number;
+  readonly title: string;
+
+  constructor(message: string, { code, extensions = {}, headers, status, title, ...options }: AppErrorInit) {
+    super(message, options);
+    this.name = new.target.name;
+    this.code = code;
+    this.extensions = extensions;
+    this.headers = new Headers(headers);
+    this.status = status;
+    this.title = title;
+  }
+
+  /**
+   * Whether the message may be sent to clients. Messages of server errors (5xx) may contain internals
+   * and are only shown outside of production.
+   */
+  get expose() {
+    return this.status < 500;
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message = "The requested resource was not found", options: AppErrorOptions = {}) {
+    super(message, { ...options, code: "not_found", status: 404, title: "Not Found" });
+  }
+}
+
+export interface ValidationIssue {
+  message: string;
+  /** Dot-separated path of the invalid value, empty for the input itself. */
+  path: string;
+}
+
+/**
+ * Lists the issues of a failed Zod parse, with their paths below `basePath`, e.g. `["query"]`.
+ */
+export function toValidationIssues(error: z.ZodError, basePath: Array<PropertyKey> = []): Array<ValidationIssue> {
+  return error.issues.map((issue) => ({
+    message: issue.message,
+    path: [...basePath, ...issue.path].map(String).join(".")
+  }));
+}
+
+export interface ValidationErrorOptions extends AppErrorOptions {
+  issues?: Array<ValidationIssue>;
+}
+
+export class ValidationError extends AppError {
+  readonly issues: Array<ValidationIssue>;
+
+  constructor(message = "The request is invalid", { issues = [], ...options }: ValidationErrorOptions = {}) {
+    super(message, {
+      ...options,
+      code: "validation_failed",
+      extensions: { ...options.extensions, issues },
+      status: 400,
+      title: "Bad Request"
+    });
+    this.issues = issues;
+  }
+
+  /**
+   * Creates a validation error listing every issue of a failed Zod parse.
+   */
+  static fromZodError(error: z.ZodError, message?: string) {
+    return new ValidationError(message, { cause: error, issues: toValidationIssues(error) });
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message = "Authentication is required", options: AppErrorOptions = {}) {
+    const headers = new Headers(options.headers);
+    if (!headers.has("WWW-Authenticate")) {
+      headers.set("WWW-Authenticate", "Bearer");
+    }
+
+    super(message, { ...options, code: "unauthorized", headers, status: 401, title: "Unauthorized" });
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message = "You are not allowed to perform this action", options: AppErrorOptions = {}) {
+    super(message, { ...options, code: "forbidden", status: 403, title: "Forbidden" });
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message = "The request conflicts with the current state of the resource", options: AppErrorOptions = {}) {
+    super(message, { ...options, code: "conflict", status: 409, title: "Conflict" });
+  }
+}
+
+export interface RateLimitedErrorOptions extends AppErrorOptions {
+  /** Seconds until the client may retry, sent as `Retry-After`. */
+  retryAfterSeconds?: number;
+}
+
+export class RateLimitedError extends AppError {
+  readonly retryAfterSeconds: number | undefined;
+
+  constructor(message = "Too many requests", { retryAfterSeconds, ...options }: RateLimitedErrorOptions = {}) {
+    const headers = new Headers(options.headers);
+    if (retryAfterSeconds !== undefined) {
+      headers.set("Retry-After", String(Math.max(0, Math.ceil(retryAfterSeconds))));
+    }
+
+    super(message, { ...options, code: "rate_limited", headers, status: 429, title: "Too Many Requests" });
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * Narrows an unknown thrown value to an `AppError`.
+ */
+export function isAppError(error: unknown): error is AppError {
+  return error instanceof AppError;
+}
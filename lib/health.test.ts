@@ -0,0 +1,214 @@
+import { NextRequest } from "next/server";
+import { createHealthCheckHandler, getHealthChecks, registerHealthCheck, runHealthChecks } from "~/lib/health";
+
+const TOKEN = "diagnostics-token-for-tests";
+
+const env = vi.hoisted(() => ({
+  APP_VERSION: "1.2.3",
+  GIT_COMMIT_SHA: "abc123",
+  HEALTH_DIAGNOSTICS_TOKEN: undefined as string | undefined
+}));
+
+vi.mock("~/data/env/server", () => ({ env }));
+
+describe("registerHealthCheck", () => {
+  test("registers probes for readiness by default", () => {
+    const unregister = registerHealthCheck({ check: () => undefined, name: "default-mode" });
+
+    expect(getHealthChecks("readiness").map(({ name }) => name)).toContain("default-mode");
+    expect(getHealthChecks("liveness").map(({ name }) => name)).not.toContain("default-mode");
+
+    unregister();
+    expect(getHealthChecks("readiness").map(({ name }) => name)).not.toContain("default-mode");
+  });
+
+  test("replaces a probe registered under the same name", () => {
+    const unregisterFirst = registerHealthCheck({ check: () => ({ version: 1 }), name: "replaced" });
+    const unregisterSecond = registerHealthCheck({ check: () => ({ version: 2 }), name: "replaced" });
+
+    expect(getHealthChecks("readiness").filter(({ name }) => name === "replaced")).toHaveLength(1);
+
+    unregisterFirst();
+    expect(getHealthChecks("readiness").map(({ name }) => name)).toContain("replaced");
+
+    unregisterSecond();
+    expect(getHealthChecks("readiness").map(({ name }) => name)).not.toContain("replaced");
+  });
+});
+
+describe("runHealthChecks", () => {
+  const cleanups: Array<() => void> = [];
+
+  afterEach(() => {
+    for (const cleanup of cleanups.splice(0)) {
+      cleanup();
+    }
+  });
+
+  test("reports ok with no probes registered", async () => {
+    const report = await runHealthChecks("liveness");
+
+    expect(report).toMatchObject({ checks: {}, mode: "liveness", status: "ok" });
+    expect(report.timestamp).toEqual(expect.any(String));
+  });
+
+  test("returns a per-check breakdown with details", async () => {
+    cleanups.push(
+      registerHealthCheck({ check: () => ({ connections: 3 }), name: "database" }),
+      registerHealthCheck({ check: async () => undefined, name: "cache" })
+    );
+
+    const report = await runHealthChecks("readiness");
+
+    expect(report.status).toBe("ok");
+    expect(report.checks.database).toMatchObject({ critical: true, details: { connections: 3 }, status: "pass" });
+    expect(report.checks.cache).toMatchObject({ critical: true, status: "pass" });
+    expect(report.checks.cache).not.toHaveProperty("details");
+  });
+
+  test("reports error when a critical probe fails", async () => {
+    cleanups.push(
+      registerHealthCheck({
+        check: () => {
+          throw new Error("Connection refused");
+        },
+        name: "database"
+      })
+    );
+
+    const report = await runHealthChecks("readiness");
+
+    expect(report.status).toBe("error");
+    expect(report.checks.database).toMatchObject({ error: "Connection refused", status: "fail" });
+  });
+
+  test("reports degraded when only a non-critical probe fails", async () => {
+    cleanups.push(
+      registerHealthCheck({ check: () => undefined, name: "database" }),
+      registerHealthCheck({ check: () => Promise.reject(new Error("Bad gateway")), critical: false, name: "search" })
+    );
+
+    const report = await runHealthChecks("readiness");
+
+    expect(report.status).toBe("degraded");
+    expect(report.checks.search).toMatchObject({ critical: false, error: "Bad gateway", status: "fail" });
+  });
+
+  test("fails probes exceeding their timeout and aborts their signal", async () => {
+    let receivedSignal: AbortSignal | undefined;
+    cleanups.push(
+      registerHealthCheck({
+        check: (signal) => {
+          receivedSignal = signal;
+          return new Promise(() => undefined);
+        },
+        name: "slow",
+        timeoutMs: 20
+      })
+    );
+
+    const report = await runHealthChecks("readiness");
+
+    expect(report.status).toBe("error");
+    expect(report.checks.slow).toMatchObject({ error: "Timed out after 20ms", status: "fail" });
+    expect(receivedSignal?.aborted).toBe(true);
+  });
+
+  test("runs probes concurrently", async () => {
+    const delay = () => new Promise<void>((resolve) => setTimeout(resolve, 50));
+    cleanups.push(
+      registerHealthCheck({ check: delay, name: "first" }),
+      registerHealthCheck({ check: delay, name: "second" }),
+      registerHealthCheck({ check: delay, name: "third" })
+    );
+
+    const startTime = performance.now();
+    await runHealthChecks("readiness");
+
+    expect(performance.now() - startTime).toBeLessThan(140);
+  });
+});
+
+describe("createHealthCheckHandler", () => {
+  test("responds with 200 and the report when healthy", async () => {
+    const unregister = registerHealthCheck({ check: () => undefined, modes: ["liveness"], name: "alive" });
+
+    const response = await createHealthCheckHandler("liveness")(
+      new NextRequest("http://localhost/api/health/live"),
+      {}
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("cache-control")).toBe("no-store");
+    await expect(response.json()).resolves.toMatchObject({ checks: { alive: { status: "pass" } }, status: "ok" });
+
+    unregister();
+  });
+
+  test("responds with 503 when a critical probe fails", async () => {
+    const unregister = registerHealthCheck({ check: () => Promise.reject(new Error("Down")), name: "database" });
+
+    const response = await createHealthCheckHandler("readiness")(
+      new NextRequest("http://localhost/api/health/ready"),
+      {}
+    );
+
+    expect(response.status).toBe(503);
+    await expect(response.json()).resolves.toMatchObject({ mode: "readiness", status: "error" });
+
+    unregister();
+  });
+});
+
+describe("createHealthCheckHandler diagnostics", () => {
+  const detailedRequest = (headers?: HeadersInit) =>
+    new NextRequest("http://localhost/api/health?detailed=true", { headers });
+
+  beforeEach(() => {
+    env.HEALTH_DIAGNOSTICS_TOKEN = TOKEN;
+  });
+
+  test("keeps the public response minimal", async () => {
+    const response = await createHealthCheckHandler("readiness")(new NextRequest("http://localhost/api/health"), {});
+
+    await expect(response.json()).resolves.not.toHaveProperty("diagnostics");
+  });
+
+  test("includes build and runtime diagnostics with a valid token", async () => {
+    const response = await createHealthCheckHandler("readiness")(
+      detailedRequest({ authorization: `Bearer ${TOKEN}` }),
+      {}
+    );
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({
+      diagnostics: {
+        build: { commitSha: "abc123", version: "1.2.3" },
+        runtime: {
+          eventLoopLagMs: { max: expect.any(Number), mean: expect.any(Number) },
+          memory: { heapUsed: expect.any(Number), rss: expect.any(Number) },
+          nodeVersion: process.version,
+          uptimeSeconds: expect.any(Number)
+        }
+      }
+    });
+  });
+
+  test("rejects detailed mode with a wrong token", async () => {
+    const response = await createHealthCheckHandler("readiness")(detailedRequest({ authorization: "Bearer nope" }), {});
+
+    expect(response.status).toBe(401);
+    await expect(response.json()).resolves.not.toHaveProperty("diagnostics");
+  });
+
+  test("rejects detailed mode when no token is configured", async () => {
+    env.HEALTH_DIAGNOSTICS_TOKEN = undefined;
+
+    const response = await createHealthCheckHandler("readiness")(
+      detailedRequest({ authorization: `Bearer ${TOKEN}` }),
+      {}
+    );
+
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,204 @@
+import { z } from "zod";
+import { type Diagnostics, getDiagnostics, isDiagnosticsAuthorized } from "~/lib/diagnostics";
+import { UnauthorizedError } from "~/lib/errors";
+import { getRequestLogger } from "~/lib/logger";
+import { createRouteHandler, type RouteHandlerOptions } from "~/lib/route-handler";
+
+/**
+ * Liveness answers "is the process alive and able to serve at all?" (restart the pod when it fails),
+ * readiness answers "can this instance take traffic right now?" (remove it from the load balancer when it fails).
+ */
+export const healthCheckModeSchema = z.enum(["liveness", "readiness"]);
+
+export type HealthCheckMode = z.infer<typeof healthCheckModeSchema>;
+
+export const healthStatusSchema = z.enum(["ok", "degraded", "error"]);
+
+export type HealthStatus = z.infer<typeof healthStatusSchema>;
+
+export type HealthCheckResult = void | Record<string, unknown>;
+
+export interface HealthCheck {
+  /**
+   * Probe implementation. Resolve (optionally with details) when healthy, throw or reject when not.
+   * The signal is aborted once the probe exceeds its timeout.
+   */
+  check: (signal: AbortSignal) => HealthCheckResult | Promise<HealthCheckResult>;
+  /**
+   * A failing critical probe turns the whole report into `error` (HTTP 503), a failing non-critical
+   * one only marks it as `degraded`. Defaults to `true`.
+   */
+  critical?: boolean;
+  /** Modes the probe takes part in. Defaults to `["readiness"]`. */
+  modes?: Array<HealthCheckMode>;
+  /** Unique probe name, e.g. `database`, `cache`, `payments-api`. */
+  name: string;
+  /** Maximum time in milliseconds the probe may take before it is reported as failed. Defaults to 2000. */
+  timeoutMs?: number;
+}
+
+export const healthCheckReportSchema = z.object({
+  critical: z.boolean(),
+  details: z.record(z.string(), z.unknown()).optional(),
+  durationMs: z.number().nonnegative(),
+  error: z.string().optional(),
+  status: z.enum(["pass", "fail"])
+});
+
+export type HealthCheckReport = z.infer<typeof healthCheckReportSchema>;
+
+/**
+ * Body of the health endpoints.
+ */
+export const healthReportSchema = z.object({
+  checks: z.record(z.string(), healthCheckReportSchema),
+  diagnostics: z.custom<Diagnostics>((value) => typeof value === "object" && value !== null).optional(),
+  mode: healthCheckModeSchema,
+  status: healthStatusSchema,
+  timestamp: z.iso.datetime()
+});
+
+export type HealthReport = z.infer<typeof healthReportSchema>;
+
+const DEFAULT_TIMEOUT_MS = 2000;
+
+const registry = new Map<string, HealthCheck>();
+
+/**
+ * Registers a named probe in the health-check registry. Registering a name again replaces the
+ * previous probe, which keeps hot module reloading in development from piling up duplicates.
+ * @param healthCheck - Probe definition
+ * @returns Function removing the probe from the registry
+ *
+ * @example
+ * registerHealthCheck({
+ *   name: "database",
+ *   timeoutMs: 1000,
+ *   check: async () => {
+ *     await db.execute("select 1");
+ *   }
+ * });
+ */
+export function registerHealthCheck(healthCheck: HealthCheck) {
+  registry.set(healthCheck.name, healthCheck);
+
+  return () => {
+    if (registry.get(healthCheck.name) === healthCheck) {
+      registry.delete(healthCheck.name);
+    }
+  };
+}
+
+/**
+ * Returns the probes taking part in the given mode.
+ */
+export function getHealthChecks(mode: HealthCheckMode) {
+  return [...registry.values()].filter((healthCheck) => (healthCheck.modes ?? ["readiness"]).includes(mode));
+}
+
+async function runHealthCheck(healthCheck: HealthCheck): Promise<HealthCheckReport> {
+  const critical = healthCheck.critical ?? true;
+  const timeoutMs = healthCheck.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const controller = new AbortController();
+  const startTime = performance.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error(`Timed out after ${timeoutMs}ms`);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    const details = await Promise.race([Promise.resolve().then(() => healthCheck.check(controller.signal)), timeout]);
+
+    return {
+      critical,
+      durationMs: Math.round(performance.now() - startTime),
+      status: "pass",
+      ...(details ? { details } : {})
+    };
+  } catch (error) {
+    return {
+      critical,
+      durationMs: Math.round(performance.now() - startTime),
+      error: error instanceof Error ? error.message : String(error),
+      status: "fail"
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Runs all probes registered for the given mode concurrently, each bounded by its own timeout.
+ * @param mode - Which probes to run
+ * @returns Aggregated report with a per-check breakdown
+ */
+export async function runHealthChecks(mode: HealthCheckMode): Promise<HealthReport> {
+  const healthChecks = getHealthChecks(mode);
+  const reports = await Promise.all(healthChecks.map(runHealthCheck));
+
+  const checks: Record<string, HealthCheckReport> = {};
+  let status: HealthStatus = "ok";
+
+  for (const [index, healthCheck] of healthChecks.entries()) {
+    const report = reports[index];
+    if (!report) {
+      continue;
+    }
+    checks[healthCheck.name] = report;
+
+    if (report.status === "fail" && report.critical) {
+      status = "error";
+    } else if (report.status === "fail" && status === "ok") {
+      status = "degraded";
+    }
+  }
+
+  return { checks, mode, status, timestamp: new Date().toISOString() };
+}
+
+/**
+ * Creates a `GET` route handler answering with the health report of the given mode.
+ * Responds with 503 when any critical probe fails, 200 otherwise.
+ *
+ * Adding `?detailed=true` together with `Authorization: Bearer <HEALTH_DIAGNOSTICS_TOKEN>` extends the
+ * report with build and runtime diagnostics; without a valid token the request is rejected with 401.
+ *
+ * @example
+ * // app/api/health/ready/route.ts
+ * export const GET = createHealthCheckHandler("readiness", { route: "/api/health/ready" });
+ */
+export function createHealthCheckHandler(mode: HealthCheckMode, options?: RouteHandlerOptions) {
+  return createRouteHandler({
+    ...options,
+    handler: async ({ query: { detailed }, request }) => {
+      const healthLogger = getRequestLogger().withContext({ mode, module: "health" });
+      healthLogger.withMetadata({ detailed }).info("Health check endpoint called");
+
+      if (detailed && !isDiagnosticsAuthorized(request)) {
+        throw new UnauthorizedError("Health diagnostics require a valid token");
+      }
+
+      const report = await runHealthChecks(mode);
+      if (detailed) {
+        report.diagnostics = getDiagnostics();
+      }
+
+      if (report.status === "ok") {
+        healthLogger.withMetadata({ report }).debug("Health check successful");
+      } else {
+        healthLogger.withMetadata({ report }).warn("Health check reported failing probes");
+      }
+
+      return report;
+    },
+    headers: { "Cache-Control": "no-store" },
+    query: z.object({ detailed: z.stringbool().default(false) }),
+    response: healthReportSchema,
+    status: (report) => (report.status === "error" ? 503 : 200)
+  });
+}
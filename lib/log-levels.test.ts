@@ -0,0 +1,117 @@
+import { TestLoggingLibrary, TestTransport } from "loglayer";
+import { createLogLevelController, createLogLevelPlugin, parseModuleLevels } from "~/lib/log-levels";
+import { createLogger, logLevels } from "~/lib/logger";
+
+describe("parseModuleLevels", () => {
+  test("parses module=level pairs", () => {
+    expect(parseModuleLevels("api=debug, proxy=warn")).toEqual({ api: "debug", proxy: "warn" });
+  });
+
+  test("ignores malformed entries", () => {
+    expect(parseModuleLevels("api=verbose,=info,proxy,health=error")).toEqual({ health: "error" });
+    expect(parseModuleLevels(undefined)).toEqual({});
+  });
+});
+
+describe("createLogLevelController", () => {
+  const createController = () =>
+    createLogLevelController({ defaultLevel: "info", moduleLevels: { api: "debug", proxy: "warn" } });
+
+  test("resolves configured module levels and falls back to the default", () => {
+    const controller = createController();
+
+    expect(controller.getLevel("api")).toBe("debug");
+    expect(controller.getLevel("proxy")).toBe("warn");
+    expect(controller.getLevel("health")).toBe("info");
+    expect(controller.getLevel()).toBe("info");
+  });
+
+  test("checks whether a level is enabled for a module", () => {
+    const controller = createController();
+
+    expect(controller.isEnabled("debug", "api")).toBe(true);
+    expect(controller.isEnabled("info", "proxy")).toBe(false);
+    expect(controller.isEnabled("error", "proxy")).toBe(true);
+  });
+
+  test("applies module overrides over global overrides over configuration", () => {
+    const controller = createController();
+
+    controller.setOverride({ level: "error", module: "*", ttlMs: 1000 }, 0);
+    controller.setOverride({ level: "trace", module: "proxy", ttlMs: 1000 }, 0);
+
+    expect(controller.getLevel("proxy", 10)).toBe("trace");
+    expect(controller.getLevel("api", 10)).toBe("error");
+  });
+
+  test("reverts overrides once their TTL elapsed", () => {
+    const controller = createController();
+
+    controller.setOverride({ level: "debug", module: "health", ttlMs: 1000 }, 0);
+
+    expect(controller.getLevel("health", 999)).toBe("debug");
+    expect(controller.getLevel("health", 1000)).toBe("info");
+    expect(controller.getState(1000).overrides).toEqual([]);
+  });
+
+  test("lists active overrides and clears them", () => {
+    const controller = createController();
+
+    controller.setOverride({ level: "debug", module: "health", ttlMs: 1000 }, 0);
+
+    expect(controller.getState(0)).toEqual({
+      defaultLevel: "info",
+      moduleLevels: { api: "debug", proxy: "warn" },
+      overrides: [{ expiresAt: new Date(1000).toISOString(), level: "debug", module: "health" }]
+    });
+    expect(controller.clearOverride("health")).toBe(true);
+    expect(controller.clearOverride("health")).toBe(false);
+  });
+});
+
+describe("createLogLevelPlugin", () => {
+  test("drops entries below the level of the logger's module", () => {
+    const library = new TestLoggingLibrary();
+    const controller = createLogLevelController({ moduleLevels: { proxy: "warn" } });
+    const plugin = createLogLevelPlugin(controller);
+    const transport = new TestTransport({ logger: library });
+
+    const proxyLogger = createLogger({ module: "proxy" }).withFreshTransports(transport).withFreshPlugins([plugin]);
+    proxyLogger.info("Dropped");
+    proxyLogger.warn("Kept");
+
+    expect(library.lines.map(({ data }) => data.at(-1))).toEqual(["Kept"]);
+  });
+
+  test("is applied by the root logger and follows runtime overrides", () => {
+    const library = new TestLoggingLibrary();
+    const featureLogger = createLogger({ module: "log-levels-test" }).withFreshTransports(
+      new TestTransport({ logger: library })
+    );
+
+    featureLogger.trace("Dropped");
+    logLevels.setOverride({ level: "trace", module: "log-levels-test", ttlMs: 60_000 });
+    featureLogger.trace("Kept");
+    logLevels.clearOverride("log-levels-test");
+
+    expect(library.lines.map(({ data }) => data.at(-1))).toEqual(["Kept"]);
+  });
+
+  test("shares runtime overrides with loggers of other bundles", async () => {
+    // A fresh module registry evaluates `lib/logger.ts` again, like the separate bundles of the proxy and routes
+    vi.resetModules();
+    const otherBundle = await import("~/lib/logger");
+    const library = new TestLoggingLibrary();
+    const proxyLogger = otherBundle
+      .createLogger({ module: "log-levels-test" })
+      .withFreshTransports(new TestTransport({ logger: library }));
+
+    logLevels.setOverride({ level: "trace", module: "log-levels-test", ttlMs: 60_000 });
+    proxyLogger.trace("Kept");
+    logLevels.clearOverride("log-levels-test");
+    proxyLogger.trace("Dropped");
+
+    expect(otherBundle.logLevels).toBe(logLevels);
+    expect(library.lines.map(({ data }) => data.at(-1))).toEqual(["Kept"]);
+  });
+});
@@ -0,0 +1,145 @@
+import type { LogLayerPlugin, LogLevelType } from "loglayer";
+
+/**
+ * Log levels from the most to the least severe.
+ */
+export const LOG_LEVEL_NAMES = ["fatal", "error", "warn", "info", "debug", "trace"] as const;
+
+/**
+ * Key of an override applying to all modules.
+ */
+export const ALL_MODULES = "*";
+
+export interface LogLevelOverride {
+  expiresAt: string;
+  level: LogLevelType;
+  /** Module the override applies to, `*` for all modules. */
+  module: string;
+}
+
+export interface LogLevelState {
+  defaultLevel: LogLevelType;
+  moduleLevels: Record<string, LogLevelType>;
+  overrides: Array<LogLevelOverride>;
+}
+
+export interface LogLevelControllerOptions {
+  /** Level of modules without a configured level (`LOG_LEVEL`). */
+  defaultLevel?: LogLevelType;
+  /** Levels per `module` context value (`LOG_LEVELS`). */
+  moduleLevels?: Record<string, LogLevelType>;
+}
+
+const isLogLevel = (value: string): value is LogLevelType => (LOG_LEVEL_NAMES as ReadonlyArray<string>).includes(value);
+
+/**
+ * Parses a `module=level` list as used by `LOG_LEVELS`, ignoring malformed entries.
+ * @param value - Raw list, e.g. `api=debug,proxy=warn`
+ * @returns Level per module
+ *
+ * @example
+ * parseModuleLevels("api=debug,proxy=warn"); // { api: "debug", proxy: "warn" }
+ */
+export function parseModuleLevels(value?: string) {
+  const moduleLevels: Record<string, LogLevelType> = {};
+
+  for (const entry of (value ?? "").split(",")) {
+    const [module, level] = entry.split("=").map((part) => part.trim());
+    if (module && level && isLogLevel(level)) {
+      moduleLevels[module] = level;
+    }
+  }
+
+  return moduleLevels;
+}
+
+/**
+ * Creates the controller deciding which entries reach the transports, based on the `module` context
+ * of the emitting logger (see `createLogger`). Levels are resolved in this order:
+ *
+ * 1. a runtime override of the module
+ * 2. a runtime override of all modules (`*`)
+ * 3. the configured module level (`LOG_LEVELS`)
+ * 4. the default level (`LOG_LEVEL`)
+ *
+ * Runtime overrides revert on their own once their TTL elapsed. They live in memory, so each
+ * server instance keeps its own.
+ */
+export function createLogLevelController({ defaultLevel = "info", moduleLevels = {} }: LogLevelControllerOptions) {
+  const overrides = new Map<string, { expiresAt: number; level: LogLevelType }>();
+
+  const getOverride = (module: string, now: number) => {
+    const override = overrides.get(module);
+    if (override && override.expiresAt <= now) {
+      overrides.delete(module);
+      return undefined;
+    }
+
+    return override?.level;
+  };
+
+  const getLevel = (module?: string, now = Date.now()): LogLevelType =>
+    (module ? getOverride(module, now) : undefined) ??
+    getOverride(ALL_MODULES, now) ??
+    (module ? moduleLevels[module] : undefined) ??
+    defaultLevel;
+
+  return {
+    /**
+     * Removes the runtime override of a module, or of all modules (`*`).
+     * @returns Whether an override was removed
+     */
+    clearOverride(module: string) {
+      return overrides.delete(module);
+    },
+
+    getLevel,
+
+    /**
+     * Returns the configured levels and the active runtime overrides.
+     */
+    getState(now = Date.now()): LogLevelState {
+      return {
+        defaultLevel,
+        moduleLevels: { ...moduleLevels },
+        overrides: [...overrides.keys()].flatMap((module) => {
+          const level = getOverride(module, now);
+          const override = overrides.get(module);
+
+          return level && override ? [{ expiresAt: new Date(override.expiresAt).toISOString(), level, module }] : [];
+        })
+      };
+    },
+
+    isEnabled(level: LogLevelType, module?: string) {
+      return LOG_LEVEL_NAMES.indexOf(level) <= LOG_LEVEL_NAMES.indexOf(getLevel(module));
+    },
+
+    /**
+     * Changes the level of a module, or of all modules (`*`), until the TTL elapses.
+     * @returns The active override
+     */
+    setOverride({ level, module, ttlMs }: { level: LogLevelType; module: string; ttlMs: number }, now = Date.now()) {
+      const expiresAt = now + ttlMs;
+      overrides.set(module, { expiresAt, level });
+
+      return { expiresAt: new Date(expiresAt).toISOString(), level, module } satisfies LogLevelOverride;
+    }
+  };
+}
+
+export type LogLevelController = ReturnType<typeof createLogLevelController>;
+
+/**
+ * LogLayer plugin dropping entries below the level of the emitting logger's `module`.
+ */
+export function createLogLevelPlugin(controller: LogLevelController): LogLayerPlugin {
+  return {
+    id: "log-levels",
+    shouldSendToLogger: ({ logLevel }, loglayer) => {
+      const { module } = loglayer.getContext();
+
+      return controller.isEnabled(logLevel, typeof module === "string" ? module : undefined);
+    }
+  };
+}
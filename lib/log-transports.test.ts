@@ -0,0 +1,73 @@
+import { HttpTransport } from "@loglayer/transport-http";
+import { LogFileRotationTransport } from "@loglayer/transport-log-file-rotation";
+import { PinoTransport } from "@loglayer/transport-pino";
+import { LogLayer } from "loglayer";
+import { createLogTransports, resolveLogTransportNames } from "~/lib/log-transports";
+import { OtlpLogTransport } from "~/lib/otlp-log-transport";
+
+describe("resolveLogTransportNames", () => {
+  test.each([
+    ["development", ["console", "file"]],
+    ["test", []],
+    ["production", ["console"]],
+    [undefined, ["console"]]
+  ])("defaults per environment (%s)", (nodeEnv, expected) => {
+    expect(resolveLogTransportNames(undefined, nodeEnv)).toEqual(expected);
+  });
+
+  test("uses the configured list over the default", () => {
+    expect(resolveLogTransportNames(" console , http ", "development")).toEqual(["console", "http"]);
+  });
+
+  test("selects no transport for none", () => {
+    expect(resolveLogTransportNames("none", "production")).toEqual([]);
+  });
+});
+
+describe("createLogTransports", () => {
+  test("creates one transport per configured name", () => {
+    const transports = createLogTransports({
+      httpUrl: "http://localhost:9999/logs",
+      transports: "console,file,http,otlp"
+    });
+
+    expect(transports.map((transport) => transport.constructor)).toEqual([
+      PinoTransport,
+      LogFileRotationTransport,
+      HttpTransport,
+      OtlpLogTransport
+    ]);
+  });
+
+  test("requires a URL for the http transport", () => {
+    expect(() => createLogTransports({ transports: "http" })).toThrow("LOG_HTTP_URL is required");
+  });
+
+  test("ships batches of JSON entries to the http endpoint", async () => {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => new Response(null, { status: 202 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const logger = new LogLayer({
+      transport: createLogTransports({
+        httpBatchSize: 2,
+        httpHeaders: "x-api-key=secret",
+        httpUrl: "http://localhost:9999/logs",
+        transports: "http"
+      })
+    });
+    logger.withMetadata({ orderId: 7 }).info("Order placed");
+    logger.warn("Stock low");
+
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledOnce());
+    const [url, init] = fetchMock.mock.calls[0] ?? [];
+
+    expect(url).toBe("http://localhost:9999/logs");
+    expect(new Headers(init?.headers).get("x-api-key")).toBe("secret");
+    expect(JSON.parse(String(init?.body))).toEqual([
+      expect.objectContaining({ level: "info", message: "Order placed", orderId: 7 }),
+      expect.objectContaining({ level: "warn", message: "Stock low" })
+    ]);
+
+    vi.unstubAllGlobals();
+  });
+});
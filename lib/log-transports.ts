@@ -0,0 +1,149 @@
+import path from "node:path";
+import { HttpTransport } from "@loglayer/transport-http";
+import { LogFileRotationTransport } from "@loglayer/transport-log-file-rotation";
+import { PinoTransport } from "@loglayer/transport-pino";
+import { OTLPLogExporter } from "@opentelemetry/exporter-logs-otlp-http";
+import type { LogLayerTransport } from "loglayer";
+import pino from "pino";
+import { OtlpLogTransport } from "~/lib/otlp-log-transport";
+import { createTelemetryResource, getOtlpExporterOptions, parseHeaderList } from "~/lib/telemetry";
+
+export const LOG_TRANSPORT_NAMES = ["console", "file", "http", "otlp", "none"] as const;
+
+export type LogTransportName = (typeof LOG_TRANSPORT_NAMES)[number];
+
+export interface LogTransportOptions {
+  fileMaxFiles?: string;
+  fileMaxSize?: string;
+  filePath?: string;
+  httpBatchSize?: number;
+  httpBatchTimeoutMs?: number;
+  httpHeaders?: string;
+  httpUrl?: string;
+  nodeEnv?: string;
+  transports?: string;
+}
+
+/**
+ * Project-local file read by the development log viewer, used when `LOG_FILE_PATH` is not set.
+ */
+export const DEFAULT_LOG_FILE_PATH = path.join(process.cwd(), "tmp", "app.log");
+
+const isLogTransportName = (name: string): name is LogTransportName =>
+  (LOG_TRANSPORT_NAMES as ReadonlyArray<string>).includes(name);
+
+/**
+ * Resolves the comma-separated `LOG_TRANSPORTS` list, defaulting per environment:
+ * console and file in development, nothing in tests and console in production.
+ * @param transports - Raw `LOG_TRANSPORTS` value
+ * @param nodeEnv - Current `NODE_ENV`
+ * @returns Selected transports, empty for `none`
+ */
+export function resolveLogTransportNames(transports: string | undefined, nodeEnv: string | undefined) {
+  const names = (transports ?? "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(isLogTransportName);
+
+  if (names.length === 0) {
+    switch (nodeEnv) {
+      case "development":
+        return ["console", "file"] satisfies Array<LogTransportName>;
+      case "test":
+        return [];
+      default:
+        return ["console"] satisfies Array<LogTransportName>;
+    }
+  }
+
+  return names.filter((name) => name !== "none");
+}
+
+function createConsoleTransport({ nodeEnv }: LogTransportOptions) {
+  const pinoLogger = pino({
+    formatters: {
+      level: (label) => {
+        return { level: label.toUpperCase() };
+      }
+    },
+    // Levels are enforced per module by the log-levels plugin of the root logger, see `lib/log-levels.ts`
+    level: "trace",
+    timestamp: pino.stdTimeFunctions.isoTime,
+    transport:
+      nodeEnv === "development"
+        ? {
+            options: {
+              colorize: true,
+              ignore: "pid,hostname",
+              translateTime: "SYS:standard"
+            },
+            target: "pino-pretty"
+          }
+        : undefined
+  });
+
+  return new PinoTransport({ logger: pinoLogger });
+}
+
+function createFileTransport({ fileMaxFiles, fileMaxSize, filePath = DEFAULT_LOG_FILE_PATH }: LogTransportOptions) {
+  return new LogFileRotationTransport({
+    auditFile: path.join(path.dirname(filePath), "audit.json"),
+    filename: filePath,
+    ...(fileMaxFiles ? { maxLogs: fileMaxFiles } : {}),
+    ...(fileMaxSize ? { size: fileMaxSize } : {})
+  });
+}
+
+function createHttpTransport({ httpBatchSize, httpBatchTimeoutMs, httpHeaders, httpUrl }: LogTransportOptions) {
+  if (!httpUrl) {
+    throw new Error("LOG_HTTP_URL is required when LOG_TRANSPORTS includes http");
+  }
+
+  return new HttpTransport({
+    batchMode: "array",
+    batchSendTimeout: httpBatchTimeoutMs ?? 5000,
+    batchSize: httpBatchSize ?? 100,
+    contentType: "application/json",
+    headers: parseHeaderList(httpHeaders),
+    maxRetries: 5,
+    // The log pipeline itself is failing, so report straight to stderr instead of recursing into the logger
+    onError: (error) => {
+      process.stderr.write(`Log shipping failed: ${error.message}\n`);
+    },
+    payloadTemplate: ({ data, logLevel, message }) =>
+      JSON.stringify({ level: logLevel, message, time: new Date().toISOString(), ...data }),
+    retryDelay: 1000,
+    url: httpUrl
+  });
+}
+
+function createOtlpTransport() {
+  return new OtlpLogTransport({
+    exporter: new OTLPLogExporter(getOtlpExporterOptions("logs")),
+    resource: createTelemetryResource()
+  });
+}
+
+/**
+ * Creates the transports selected by `LOG_TRANSPORTS`:
+ *
+ * - `console` — Pino to stdout, pretty-printed in development
+ * - `file` — rotating file (`LOG_FILE_PATH`, `LOG_FILE_MAX_SIZE`, `LOG_FILE_MAX_FILES`)
+ * - `http` — JSON batches POSTed to `LOG_HTTP_URL`, retried with exponential backoff
+ * - `otlp` — OpenTelemetry log records sent to `OTEL_EXPORTER_OTLP_ENDPOINT`
+ * - `none` — drops every entry
+ */
+export function createLogTransports(options: LogTransportOptions): Array<LogLayerTransport> {
+  return resolveLogTransportNames(options.transports, options.nodeEnv).map((name) => {
+    switch (name) {
+      case "file":
+        return createFileTransport(options);
+      case "http":
+        return createHttpTransport(options);
+      case "otlp":
+        return createOtlpTransport();
+      default:
+        return createConsoleTransport(options);
+    }
+  });
+}
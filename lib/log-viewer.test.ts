@@ -0,0 +1,174 @@
+import { appendFileSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  getLogFiles,
+  type LogEntry,
+  matchesLogFilter,
+  parseLogFilter,
+  parseLogLine,
+  readLogEntries,
+  tailLogFile
+} from "~/lib/log-viewer";
+
+function line(level: string, message: string, timestamp: string, context: Record<string, unknown> = {}) {
+  return `${JSON.stringify({ level, message, timestamp, ...context })}\n`;
+}
+
+const entry = (overrides: Partial<LogEntry> = {}): LogEntry => ({
+  data: { level: "info", message: "Request completed", path: "/api/health" },
+  level: "info",
+  message: "Request completed",
+  module: "http",
+  requestId: "req-1",
+  timestamp: "2026-01-15T10:30:00.000Z",
+  ...overrides
+});
+
+describe("parseLogLine", () => {
+  test("parses a JSON log line", () => {
+    expect(
+      parseLogLine(
+        '{"level":"warn","message":"Slow","timestamp":"2026-01-15T10:30:00.000Z","module":"db","requestId":"r"}'
+      )
+    ).toEqual({
+      data: { level: "warn", message: "Slow", module: "db", requestId: "r", timestamp: "2026-01-15T10:30:00.000Z" },
+      level: "warn",
+      message: "Slow",
+      module: "db",
+      requestId: "r",
+      timestamp: "2026-01-15T10:30:00.000Z"
+    });
+  });
+
+  test.each([
+    ["not json", "plain text"],
+    ["no level", '{"message":"x","timestamp":"2026-01-15T10:30:00.000Z"}'],
+    ["unknown level", '{"level":"verbose","message":"x","timestamp":"2026-01-15T10:30:00.000Z"}'],
+    ["no timestamp", '{"level":"info","message":"x"}'],
+    ["not an object", "42"]
+  ])("ignores a line that is not a log entry (%s)", (_, value) => {
+    expect(parseLogLine(value)).toBeUndefined();
+  });
+});
+
+describe("parseLogFilter", () => {
+  test("reads every field with repeated levels", () => {
+    const searchParams = new URLSearchParams(
+      "level=error&level=warn&module=proxy&requestId=abc&search=+timeout+&from=2026-01-15T10:00&to=2026-01-15T11:00:30"
+    );
+
+    expect(parseLogFilter(searchParams)).toEqual({
+      from: "2026-01-15T10:00",
+      levels: ["error", "warn"],
+      module: "proxy",
+      requestId: "abc",
+      search: "timeout",
+      to: "2026-01-15T11:00:30"
+    });
+  });
+
+  test("ignores invalid and empty values", () => {
+    expect(parseLogFilter(new URLSearchParams("level=loud&from=yesterday&module=&search=%20"))).toEqual({
+      from: undefined,
+      levels: undefined,
+      module: undefined,
+      requestId: undefined,
+      search: undefined,
+      to: undefined
+    });
+  });
+});
+
+describe("matchesLogFilter", () => {
+  test("matches everything with an empty filter", () => {
+    expect(matchesLogFilter(entry(), {})).toBe(true);
+  });
+
+  test.each([
+    [{ levels: ["error" as const] }, false],
+    [{ levels: ["info" as const, "error" as const] }, true],
+    [{ module: "proxy" }, false],
+    [{ module: "http" }, true],
+    [{ requestId: "req-2" }, false],
+    [{ requestId: "req-1" }, true]
+  ])("filters by level, module and request id (%o)", (filter, expected) => {
+    expect(matchesLogFilter(entry(), filter)).toBe(expected);
+  });
+
+  test("filters by time range", () => {
+    const timestamp = new Date(2026, 0, 15, 10, 30).toISOString();
+
+    expect(matchesLogFilter(entry({ timestamp }), { from: "2026-01-15T10:00", to: "2026-01-15T11:00" })).toBe(true);
+    expect(matchesLogFilter(entry({ timestamp }), { from: "2026-01-15T10:31" })).toBe(false);
+    expect(matchesLogFilter(entry({ timestamp }), { to: "2026-01-15T10:29:59" })).toBe(false);
+  });
+
+  test("searches the message and logged values case-insensitively", () => {
+    expect(matchesLogFilter(entry(), { search: "COMPLETED" })).toBe(true);
+    expect(matchesLogFilter(entry(), { search: "api/health" })).toBe(true);
+    expect(matchesLogFilter(entry(), { search: "timeout" })).toBe(false);
+  });
+});
+
+describe("log files", () => {
+  let directory: string;
+  let logFilePath: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "log-viewer-"));
+    logFilePath = path.join(directory, "app.log");
+  });
+
+  afterEach(() => {
+    rmSync(directory, { force: true, recursive: true });
+  });
+
+  test("lists nothing before the first log is written", () => {
+    expect(getLogFiles(logFilePath)).toEqual([]);
+  });
+
+  test("reads the rotated files listed in audit.json, newest entries first", async () => {
+    const rotated = path.join(directory, "app.log.1");
+    writeFileSync(rotated, line("info", "first", "2026-01-15T10:00:00.000Z"));
+    writeFileSync(
+      logFilePath,
+      line("error", "second", "2026-01-15T10:01:00.000Z", { module: "db" }) +
+        "garbage\n" +
+        line("info", "third", "2026-01-15T10:02:00.000Z")
+    );
+    writeFileSync(
+      path.join(directory, "audit.json"),
+      JSON.stringify({
+        files: [
+          { date: 2, name: logFilePath },
+          { date: 1, name: rotated },
+          { date: 0, name: path.join(directory, "deleted.log") }
+        ]
+      })
+    );
+
+    expect(getLogFiles(logFilePath)).toEqual([rotated, logFilePath]);
+    expect((await readLogEntries(logFilePath, {})).map(({ message }) => message)).toEqual(["third", "second", "first"]);
+    expect((await readLogEntries(logFilePath, { module: "db" })).map(({ message }) => message)).toEqual(["second"]);
+    expect((await readLogEntries(logFilePath, {}, 2)).map(({ message }) => message)).toEqual(["third", "second"]);
+  });
+
+  test("tails entries appended after it starts, following truncation", async () => {
+    writeFileSync(logFilePath, line("info", "existing", "2026-01-15T10:00:00.000Z"));
+    const onEntry = vi.fn();
+    const stop = tailLogFile(logFilePath, onEntry);
+
+    try {
+      appendFileSync(logFilePath, line("warn", "appended", "2026-01-15T10:01:00.000Z"));
+      await vi.waitFor(() => expect(onEntry).toHaveBeenCalledTimes(1), { interval: 100, timeout: 5000 });
+      expect(onEntry).toHaveBeenLastCalledWith(expect.objectContaining({ level: "warn", message: "appended" }));
+
+      writeFileSync(logFilePath, line("info", "rotated", "2026-01-15T10:02:00.000Z"));
+      await vi.waitFor(() => expect(onEntry).toHaveBeenCalledTimes(2), { interval: 100, timeout: 5000 });
+      expect(onEntry).toHaveBeenLastCalledWith(expect.objectContaining({ message: "rotated" }));
+    } finally {
+      stop();
+    }
+  });
+});
@@ -0,0 +1,202 @@
+import { createReadStream, existsSync, readFileSync, statSync, unwatchFile, watchFile } from "node:fs";
+import path from "node:path";
+import { createInterface } from "node:readline";
+import { z } from "zod";
+import { LOG_LEVEL_NAMES } from "~/lib/log-levels";
+
+/**
+ * Local log viewer backing `/dev/logs`: reads the JSON lines written by the `file` log transport,
+ * including rotated files listed in its `audit.json`, filters them and tails new entries.
+ * Development only, the page and its stream respond with 404 in any other environment.
+ */
+
+export type LogLevelName = (typeof LOG_LEVEL_NAMES)[number];
+
+export interface LogEntry {
+  /** The full parsed line, including context and metadata. */
+  data: Record<string, unknown>;
+  level: LogLevelName;
+  message: string;
+  module?: string;
+  requestId?: string;
+  timestamp: string;
+}
+
+export const logFilterSchema = z.object({
+  from: z.iso.datetime({ local: true }).optional().catch(undefined),
+  levels: z.array(z.enum(LOG_LEVEL_NAMES)).optional().catch(undefined),
+  module: z.string().trim().min(1).optional().catch(undefined),
+  requestId: z.string().trim().min(1).optional().catch(undefined),
+  search: z.string().trim().min(1).optional().catch(undefined),
+  to: z.iso.datetime({ local: true }).optional().catch(undefined)
+});
+
+export type LogFilter = z.infer<typeof logFilterSchema>;
+
+/**
+ * Whether the log viewer is available: only while running `next dev`.
+ */
+export function isLogViewerEnabled() {
+  return process.env.NODE_ENV === "development";
+}
+
+/**
+ * Reads a filter from URL search params (`level` may repeat). Invalid values are ignored.
+ */
+export function parseLogFilter(searchParams: URLSearchParams): LogFilter {
+  const value = (name: string) => searchParams.get(name) ?? undefined;
+  const levels = searchParams.getAll("level");
+
+  return logFilterSchema.parse({
+    from: value("from"),
+    levels: levels.length > 0 ? levels : undefined,
+    module: value("module"),
+    requestId: value("requestId"),
+    search: value("search"),
+    to: value("to")
+  });
+}
+
+/**
+ * Parses one line of the log file, or returns `undefined` for anything that is not a log entry.
+ */
+export function parseLogLine(line: string): LogEntry | undefined {
+  let data: unknown;
+  try {
+    data = JSON.parse(line);
+  } catch {
+    return undefined;
+  }
+  if (typeof data !== "object" || data === null) {
+    return undefined;
+  }
+
+  const { level, message, module, requestId, timestamp } = data as Record<string, unknown>;
+  const levelName = typeof level === "string" ? level.toLowerCase() : undefined;
+  if (!levelName || !(LOG_LEVEL_NAMES as ReadonlyArray<string>).includes(levelName) || typeof timestamp !== "string") {
+    return undefined;
+  }
+
+  return {
+    data: data as Record<string, unknown>,
+    level: levelName as LogLevelName,
+    message: typeof message === "string" ? message : "",
+    timestamp,
+    ...(typeof module === "string" ? { module } : {}),
+    ...(typeof requestId === "string" ? { requestId } : {})
+  };
+}
+
+/**
+ * Checks an entry against a filter. `from`/`to` are compared as local times, the search is case-insensitive
+ * and covers the message and every logged value.
+ */
+export function matchesLogFilter(entry: LogEntry, { from, levels, module, requestId, search, to }: LogFilter) {
+  const time = new Date(entry.timestamp).getTime();
+
+  if (levels && !levels.includes(entry.level)) {
+    return false;
+  }
+  if (module && entry.module !== module) {
+    return false;
+  }
+  if (requestId && entry.requestId !== requestId) {
+    return false;
+  }
+  if (from && time < new Date(from).getTime()) {
+    return false;
+  }
+  if (to && time > new Date(to).getTime()) {
+    return false;
+  }
+
+  return !search || JSON.stringify(entry.data).toLowerCase().includes(search.toLowerCase());
+}
+
+/**
+ * Lists the log files from the oldest to the newest: the rotated files recorded in `audit.json` next to
+ * the log file, or just the log file itself.
+ */
+export function getLogFiles(logFilePath: string) {
+  const auditFilePath = path.join(path.dirname(logFilePath), "audit.json");
+
+  try {
+    const audit = JSON.parse(readFileSync(auditFilePath, "utf8")) as { files?: Array<{ date: number; name: string }> };
+    const files = (audit.files ?? [])
+      .toSorted((first, second) => first.date - second.date)
+      .map(({ name }) => name)
+      .filter((name) => existsSync(name));
+
+    if (files.length > 0) {
+      return files;
+    }
+  } catch {
+    // No audit file yet, e.g. before the first rotation
+  }
+
+  return existsSync(logFilePath) ? [logFilePath] : [];
+}
+
+/**
+ * Reads the newest entries matching the filter across all log files.
+ * @param logFilePath - Path of the current log file
+ * @param filter - Entries to keep
+ * @param limit - Maximum number of entries returned
+ * @returns Matching entries, newest first
+ */
+export async function readLogEntries(logFilePath: string, filter: LogFilter, limit = 500) {
+  const entries: Array<LogEntry> = [];
+
+  for (const file of getLogFiles(logFilePath)) {
+    const lines = createInterface({ crlfDelay: Number.POSITIVE_INFINITY, input: createReadStream(file) });
+    for await (const line of lines) {
+      const entry = parseLogLine(line);
+      if (entry && matchesLogFilter(entry, filter)) {
+        entries.push(entry);
+        if (entries.length > limit) {
+          entries.shift();
+        }
+      }
+    }
+  }
+
+  return entries.reverse();
+}
+
+/**
+ * Calls `onEntry` for every entry appended to the log file from now on, following truncation and rotation.
+ * @returns Function stopping the watcher
+ */
+export function tailLogFile(logFilePath: string, onEntry: (entry: LogEntry) => void) {
+  let position = existsSync(logFilePath) ? statSync(logFilePath).size : 0;
+  let remainder = "";
+
+  const readAppended = (size: number) => {
+    // A smaller file means it was rotated or truncated, so start reading it from the beginning
+    if (size < position) {
+      position = 0;
+      remainder = "";
+    }
+    if (size === position) {
+      return;
+    }
+
+    const stream = createReadStream(logFilePath, { encoding: "utf8", end: size - 1, start: position });
+    position = size;
+    stream.on("data", (chunk) => {
+      const lines = (remainder + String(chunk)).split("\n");
+      remainder = lines.pop() ?? "";
+      for (const line of lines) {
+        const entry = parseLogLine(line);
+        if (entry) {
+          onEntry(entry);
+        }
+      }
+    });
+  };
+
+  const listener = (current: { size: number }) => readAppended(current.size);
+  watchFile(logFilePath, { interval: 500 }, listener);
+
+  return () => unwatchFile(logFilePath, listener);
+}
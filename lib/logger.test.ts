@@ -1,4 +1,7 @@
-import logger, { createLogger } from "~/lib/logger";
+import { TestLoggingLibrary, TestTransport } from "loglayer";
+import logger, { createLogger, getRequestLogger } from "~/lib/logger";
+import { REDACTED } from "~/lib/redact";
+import { runWithRequestContext } from "~/lib/request-context";
 
 describe("logger", () => {
   test("exports default logger instance", () => {
@@ -61,3 +64,101 @@ describe("createLogger", () => {
     expect(logger2.getContext().module).toBe("module-2");
   });
 });
+
+describe("getRequestLogger", () => {
+  test("includes the current request context", () => {
+    const context = {
+      method: "GET",
+      requestId: "request-1",
+      spanId: "00f067aa0ba902b7",
+      traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+      url: "http://localhost/api/health"
+    };
+
+    const requestLogger = runWithRequestContext(context, () => getRequestLogger());
+
+    expect(requestLogger.getContext()).toMatchObject(context);
+  });
+
+  test("returns a context-free child logger outside of a request", () => {
+    const requestLogger = getRequestLogger();
+
+    expect(requestLogger).not.toBe(logger);
+    expect(requestLogger.getContext()).not.toHaveProperty("requestId");
+  });
+});
+
+describe("redaction", () => {
+  const createTestLogger = () => {
+    const library = new TestLoggingLibrary();
+    const testLogger = createLogger({ module: "test" }).withFreshTransports(new TestTransport({ logger: library }));
+
+    return { library, testLogger };
+  };
+
+  const lastLogData = (library: TestLoggingLibrary) => library.getLastLine()?.data[0] as Record<string, unknown>;
+
+  test("masks sensitive headers in metadata", () => {
+    const { library, testLogger } = createTestLogger();
+
+    testLogger
+      .withMetadata({
+        headers: {
+          accept: "application/json",
+          authorization: "Bearer abc.def.ghi",
+          cookie: "session=secret",
+          "set-cookie": "session=secret",
+          "x-api-key": "key-123"
+        }
+      })
+      .info("Incoming request");
+
+    expect(lastLogData(library).headers).toEqual({
+      accept: "application/json",
+      authorization: REDACTED,
+      cookie: REDACTED,
+      "set-cookie": REDACTED,
+      "x-api-key": REDACTED
+    });
+  });
+
+  test("masks credentials and emails in nested metadata and context", () => {
+    const { library, testLogger } = createTestLogger();
+
+    testLogger
+      .withContext({ session: { refreshToken: "refresh-123", userId: "42" } })
+      .withMetadata({ form: { email: "jan@example.com", password: "hunter2", plan: "pro" } })
+      .info("User signed up");
+
+    expect(lastLogData(library)).toMatchObject({
+      form: { email: REDACTED, password: REDACTED, plan: "pro" },
+      session: { refreshToken: REDACTED, userId: "42" }
+    });
+  });
+
+  test("masks sensitive data in serialized errors", () => {
+    const { library, testLogger } = createTestLogger();
+    const error = Object.assign(new Error("Login failed for jan@example.com"), { token: "token-123" });
+
+    testLogger.withError(error).error("Authentication failed");
+
+    expect(lastLogData(library).err).toMatchObject({ message: `Login failed for ${REDACTED}`, token: REDACTED });
+  });
+
+  test("masks sensitive values in messages", () => {
+    const { library, testLogger } = createTestLogger();
+
+    testLogger.info("Password reset requested by jan@example.com");
+
+    expect(library.getLastLine()?.data).toContain(`Password reset requested by ${REDACTED}`);
+  });
+
+  test("does not mutate the logged objects", () => {
+    const { testLogger } = createTestLogger();
+    const headers = { authorization: "Bearer abc" };
+
+    testLogger.withMetadata({ headers }).info("Request");
+
+    expect(headers.authorization).toBe("Bearer abc");
+  });
+});
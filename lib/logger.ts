@@ -1,56 +1,56 @@
-import path from "node:path";
-import { LogFileRotationTransport } from "@loglayer/transport-log-file-rotation";
-import { PinoTransport } from "@loglayer/transport-pino";
-import { LogLayer, type LogLayerTransport } from "loglayer";
-import pino from "pino";
+import { LogLayer } from "loglayer";
 import { serializeError } from "serialize-error";
+import { env } from "~/data/env/server";
+import { createLogLevelController, createLogLevelPlugin, parseModuleLevels } from "~/lib/log-levels";
+import { createLogTransports } from "~/lib/log-transports";
+import { createRedactionPlugin, getRedactionOptions } from "~/lib/redact";
+import { getRequestContext } from "~/lib/request-context";
+import { createTraceCorrelationPlugin } from "~/lib/telemetry";
 
-const LOG_LEVEL = process.env.LOG_LEVEL || "info";
-const IS_DEV = process.env.NODE_ENV === "development";
+export type Logger = LogLayer;
 
-const LogDir = path.join(process.cwd(), "tmp");
-const LogFilePath = path.join(LogDir, "app.log");
-const AuditFilePath = path.join(LogDir, "audit.json");
+// Kept on `globalThis`, as modules are evaluated once per bundle (the proxy, every route and the instrumentation
+// hook get their own copy), so an override set through `/api/admin/log-levels` reaches every logger of the process
+const globalForLogLevels = globalThis as typeof globalThis & {
+  logLevels?: ReturnType<typeof createLogLevelController>;
+};
 
-const pinoLogger = pino({
-  formatters: {
-    level: (label) => {
-      return { level: label.toUpperCase() };
-    }
-  },
-  level: LOG_LEVEL,
-  timestamp: pino.stdTimeFunctions.isoTime,
-  transport: IS_DEV
-    ? {
-        options: {
-          colorize: true,
-          ignore: "pid,hostname",
-          translateTime: "SYS:standard"
-        },
-        target: "pino-pretty"
-      }
-    : undefined
-});
-
-const transports: Array<LogLayerTransport> = [new PinoTransport({ logger: pinoLogger })];
-
-if (IS_DEV) {
-  transports.push(
-    new LogFileRotationTransport({
-      auditFile: AuditFilePath,
-      filename: LogFilePath
-    })
-  );
-}
+/**
+ * Level per `module` context, from `LOG_LEVEL` and `LOG_LEVELS` and changeable at runtime through
+ * `/api/admin/log-levels`. Shared by the whole process.
+ */
+export const logLevels = (globalForLogLevels.logLevels ??= createLogLevelController({
+  defaultLevel: env.LOG_LEVEL,
+  moduleLevels: parseModuleLevels(env.LOG_LEVELS)
+}));
 
 /**
- * Root LogLayer instance. Fans out every log entry to Pino (console) and,
- * in development only, to a rotating file under a project-local `tmp`
- * directory so a session's log history can be reviewed and analyzed afterwards.
+ * Root LogLayer instance. Fans out every log entry to the transports selected by `LOG_TRANSPORTS`,
+ * see `lib/log-transports.ts`. By default that is Pino (console) plus, in development, a rotating file
+ * under a project-local `tmp` directory so a session's log history can be reviewed afterwards.
+ *
+ * Entries below the level of the logger's `module` are dropped, see `lib/log-levels.ts`.
+ * Every entry carries `trace_id`/`span_id` of the active trace, see `lib/telemetry.ts`, and secrets and PII
+ * are masked before reaching any transport, see `lib/redact.ts`.
  */
 const logger = new LogLayer({
   errorSerializer: serializeError,
-  transport: transports
+  plugins: [
+    createLogLevelPlugin(logLevels),
+    createTraceCorrelationPlugin(),
+    createRedactionPlugin(getRedactionOptions(env.LOG_REDACT_PATHS, env.LOG_REDACT_PATTERNS))
+  ],
+  transport: createLogTransports({
+    fileMaxFiles: env.LOG_FILE_MAX_FILES,
+    fileMaxSize: env.LOG_FILE_MAX_SIZE,
+    filePath: env.LOG_FILE_PATH,
+    httpBatchSize: env.LOG_HTTP_BATCH_SIZE,
+    httpBatchTimeoutMs: env.LOG_HTTP_BATCH_TIMEOUT_MS,
+    httpHeaders: env.LOG_HTTP_HEADERS,
+    httpUrl: env.LOG_HTTP_URL,
+    nodeEnv: env.NODE_ENV,
+    transports: env.LOG_TRANSPORTS
+  })
 });
 
 /**
@@ -66,4 +66,20 @@ export function createLogger(context: Record<string, unknown>) {
   return logger.child().withContext(context);
 }
 
+/**
+ * Returns a logger carrying the context of the request currently being handled (`requestId`, `method`, `url`).
+ * Outside of a request, e.g. during startup, it returns a plain child of the root logger.
+ * @returns Child logger instance
+ *
+ * @example
+ * export const GET = withRouteHandler(async () => {
+ *   getRequestLogger().info("Fetching users");
+ * });
+ */
+export function getRequestLogger() {
+  const context = getRequestContext();
+
+  return context ? createLogger({ ...context }) : logger.child();
+}
+
 export default logger;
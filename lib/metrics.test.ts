@@ -0,0 +1,41 @@
+import { metricsRegistry, recordHttpRequest } from "~/lib/metrics";
+
+describe("metricsRegistry", () => {
+  test("exposes default Node.js process metrics", async () => {
+    const metrics = await metricsRegistry.metrics();
+
+    expect(metrics).toContain("process_cpu_user_seconds_total");
+    expect(metrics).toContain("nodejs_heap_size_used_bytes");
+    expect(metricsRegistry.contentType).toContain("text/plain");
+  });
+
+  test("is shared by the bundles of the process", async () => {
+    // A fresh module registry evaluates `lib/metrics.ts` again, like the separate bundles of the proxy and routes
+    vi.resetModules();
+    const otherBundle = await import("~/lib/metrics");
+
+    otherBundle.recordHttpRequest({ durationMs: 5, method: "OPTIONS", route: otherBundle.PROXY_ROUTE, status: 204 });
+
+    expect(otherBundle.metricsRegistry).toBe(metricsRegistry);
+    expect(await metricsRegistry.metrics()).toContain(
+      'http_requests_total{method="OPTIONS",route="(proxy)",status_code="204"} 1'
+    );
+  });
+});
+
+describe("recordHttpRequest", () => {
+  test("counts requests and observes their latency in seconds", async () => {
+    recordHttpRequest({ durationMs: 120, method: "POST", route: "/api/orders", status: 201 });
+    recordHttpRequest({ durationMs: 30, method: "POST", route: "/api/orders", status: 201 });
+
+    const metrics = await metricsRegistry.metrics();
+
+    expect(metrics).toContain('http_requests_total{method="POST",route="/api/orders",status_code="201"} 2');
+    expect(metrics).toContain(
+      'http_request_duration_seconds_sum{method="POST",route="/api/orders",status_code="201"} 0.15'
+    );
+    expect(metrics).toContain(
+      'http_request_duration_seconds_bucket{le="0.05",method="POST",route="/api/orders",status_code="201"} 1'
+    );
+  });
+});
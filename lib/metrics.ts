@@ -0,0 +1,60 @@
+import { Counter, collectDefaultMetrics, Histogram, Registry } from "prom-client";
+
+export interface HttpRequestMetric {
+  durationMs: number;
+  method: string;
+  route: string;
+  status: number;
+}
+
+/**
+ * Route label of the requests `proxy.ts` answers itself (preflights, rate limits, rejected cross-site and
+ * anonymous requests), which never reach a route handler. Their path is left out to keep the label bounded.
+ */
+export const PROXY_ROUTE = "(proxy)";
+
+function createMetrics() {
+  const registry = new Registry();
+
+  collectDefaultMetrics({ register: registry });
+
+  return {
+    httpRequestDurationSeconds: new Histogram({
+      buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+      help: "Duration of HTTP requests handled by route handlers or answered by the proxy in seconds",
+      labelNames: ["method", "route", "status_code"],
+      name: "http_request_duration_seconds",
+      registers: [registry]
+    }),
+    httpRequestsTotal: new Counter({
+      help: "Total number of HTTP requests handled by route handlers or answered by the proxy",
+      labelNames: ["method", "route", "status_code"],
+      name: "http_requests_total",
+      registers: [registry]
+    }),
+    registry
+  };
+}
+
+// Kept on `globalThis`, as modules are evaluated once per bundle: the proxy and every route would otherwise
+// record to a registry of their own, and registering the default metrics twice on one registry throws
+const globalForMetrics = globalThis as typeof globalThis & { metrics?: ReturnType<typeof createMetrics> };
+
+const { httpRequestDurationSeconds, httpRequestsTotal, registry } = (globalForMetrics.metrics ??= createMetrics());
+
+/**
+ * Registry exposed by `/api/metrics`, shared by the whole process. Register custom metrics on it with
+ * `registers: [metricsRegistry]`.
+ */
+export const metricsRegistry = registry;
+
+/**
+ * Counts a handled request and records its latency. Called by `withRouteHandler` once the response was sent, and
+ * by `proxy.ts` for the requests it answers with `PROXY_ROUTE`.
+ */
+export function recordHttpRequest({ durationMs, method, route, status }: HttpRequestMetric) {
+  const labels = { method, route, status_code: status };
+
+  httpRequestsTotal.inc(labels);
+  httpRequestDurationSeconds.observe(labels, durationMs / 1000);
+}
@@ -0,0 +1,162 @@
+import type { AddressInfo } from "node:net";
+import {
+  createAuthorizationRequest,
+  exchangeAuthorizationCode,
+  getAuthorizationUrl,
+  getOAuthProvider,
+  getOAuthProviders,
+  sealAuthorizationState,
+  unsealAuthorizationState
+} from "~/lib/oauth";
+import { createMockOAuthServer, MOCK_OAUTH_CLIENT_ID, MOCK_OAUTH_CLIENT_SECRET } from "~/tests/e2e/mock-oauth-server";
+
+const env = vi.hoisted(() => ({
+  AUTH_GITHUB_ID: undefined as string | undefined,
+  AUTH_GITHUB_SECRET: undefined as string | undefined,
+  AUTH_OAUTH_AUTHORIZATION_URL: undefined as string | undefined,
+  AUTH_OAUTH_CLIENT_ID: undefined as string | undefined,
+  AUTH_OAUTH_CLIENT_SECRET: undefined as string | undefined,
+  AUTH_OAUTH_NAME: undefined as string | undefined,
+  AUTH_OAUTH_SCOPE: undefined as string | undefined,
+  AUTH_OAUTH_TOKEN_URL: undefined as string | undefined,
+  AUTH_OAUTH_USERINFO_URL: undefined as string | undefined,
+  AUTH_SECRET: "test-secret-at-least-32-characters-long",
+  NODE_ENV: "test"
+}));
+
+vi.mock("~/data/env/server", () => ({ env }));
+
+const REDIRECT_URI = "http://localhost:3000/api/auth/callback/oauth";
+
+const server = createMockOAuthServer();
+let issuer = "";
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  Object.assign(env, {
+    AUTH_GITHUB_ID: undefined,
+    AUTH_GITHUB_SECRET: undefined,
+    AUTH_OAUTH_AUTHORIZATION_URL: `${issuer}/authorize`,
+    AUTH_OAUTH_CLIENT_ID: MOCK_OAUTH_CLIENT_ID,
+    AUTH_OAUTH_CLIENT_SECRET: MOCK_OAUTH_CLIENT_SECRET,
+    AUTH_OAUTH_NAME: "Mock Provider",
+    AUTH_OAUTH_TOKEN_URL: `${issuer}/token`,
+    AUTH_OAUTH_USERINFO_URL: `${issuer}/userinfo`
+  });
+});
+
+/**
+ * Approves the sign-in on the mock provider's consent screen.
+ * @returns The search params of the redirect back to the app
+ */
+async function approve(authorizationUrl: URL, decision = "approve") {
+  const consent = await fetch(authorizationUrl);
+  expect(consent.status).toBe(200);
+
+  const form = new URLSearchParams(authorizationUrl.searchParams);
+  form.set("decision", decision);
+  form.set("email", "ada@example.com");
+  form.set("name", "Ada Lovelace");
+  const response = await fetch(`${issuer}/authorize`, { body: form, method: "POST", redirect: "manual" });
+
+  return new URL(response.headers.get("location") ?? "").searchParams;
+}
+
+describe("getOAuthProviders", () => {
+  test("lists the configured providers", () => {
+    expect(getOAuthProviders().map(({ id, name }) => ({ id, name }))).toEqual([{ id: "oauth", name: "Mock Provider" }]);
+
+    env.AUTH_GITHUB_ID = "github-client";
+    env.AUTH_GITHUB_SECRET = "github-secret";
+    env.AUTH_OAUTH_TOKEN_URL = undefined;
+    expect(getOAuthProviders().map(({ id }) => id)).toEqual(["github"]);
+    expect(getOAuthProvider("oauth")).toBeUndefined();
+  });
+});
+
+describe("authorization code flow", () => {
+  test("signs in with PKCE", async () => {
+    const provider = getOAuthProvider("oauth");
+    if (!provider) {
+      throw new Error("The mock provider is not configured");
+    }
+    const { codeChallenge, codeVerifier, state } = createAuthorizationRequest();
+
+    const authorizationUrl = getAuthorizationUrl(provider, { codeChallenge, redirectUri: REDIRECT_URI, state });
+    expect(Object.fromEntries(authorizationUrl.searchParams)).toEqual({
+      client_id: MOCK_OAUTH_CLIENT_ID,
+      code_challenge: codeChallenge,
+      code_challenge_method: "S256",
+      redirect_uri: REDIRECT_URI,
+      response_type: "code",
+      scope: "openid email profile",
+      state
+    });
+
+    const callback = await approve(authorizationUrl);
+    expect(callback.get("state")).toBe(state);
+
+    const accessToken = await exchangeAuthorizationCode(provider, {
+      code: callback.get("code") ?? "",
+      codeVerifier,
+      redirectUri: REDIRECT_URI
+    });
+    await expect(provider.profile(accessToken)).resolves.toEqual({
+      email: "ada@example.com",
+      id: "mock|ada@example.com",
+      name: "Ada Lovelace"
+    });
+  });
+
+  test("rejects codes exchanged without the code verifier", async () => {
+    const provider = getOAuthProvider("oauth");
+    if (!provider) {
+      throw new Error("The mock provider is not configured");
+    }
+    const { codeChallenge, state } = createAuthorizationRequest();
+
+    const callback = await approve(getAuthorizationUrl(provider, { codeChallenge, redirectUri: REDIRECT_URI, state }));
+
+    await expect(
+      exchangeAuthorizationCode(provider, {
+        code: callback.get("code") ?? "",
+        codeVerifier: createAuthorizationRequest().codeVerifier,
+        redirectUri: REDIRECT_URI
+      })
+    ).rejects.toThrow("The token endpoint rejected the code: invalid_grant");
+  });
+
+  test("reports denied sign-ins to the callback", async () => {
+    const provider = getOAuthProvider("oauth");
+    if (!provider) {
+      throw new Error("The mock provider is not configured");
+    }
+    const { codeChallenge, state } = createAuthorizationRequest();
+
+    const callback = await approve(
+      getAuthorizationUrl(provider, { codeChallenge, redirectUri: REDIRECT_URI, state }),
+      "deny"
+    );
+
+    expect(callback.get("error")).toBe("access_denied");
+    expect(callback.get("code")).toBeNull();
+  });
+});
+
+describe("authorization state", () => {
+  test("round-trips through the encrypted state cookie", async () => {
+    const state = { callbackUrl: "/account", codeVerifier: "verifier", provider: "oauth", state: "state" };
+
+    await expect(unsealAuthorizationState(await sealAuthorizationState(state))).resolves.toEqual(state);
+    await expect(unsealAuthorizationState(undefined)).resolves.toBeNull();
+    await expect(unsealAuthorizationState("forged")).resolves.toBeNull();
+  });
+});
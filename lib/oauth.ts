@@ -0,0 +1,257 @@
+import { createHash, randomBytes } from "node:crypto";
+import { z } from "zod";
+import { env } from "~/data/env/server";
+import { seal, unseal } from "~/lib/session";
+
+/**
+ * Name of the cookie holding the state of a sign-in in progress, read by the callback route.
+ */
+export const OAUTH_STATE_COOKIE = "auth.oauth-state";
+
+/**
+ * Time the user has to complete the sign-in at the provider, in seconds.
+ */
+export const OAUTH_STATE_MAX_AGE = 10 * 60;
+
+/**
+ * Time a request to a provider may take before it is aborted.
+ */
+const PROVIDER_TIMEOUT_MS = 10_000;
+
+/**
+ * The user as described by a provider.
+ */
+export interface OAuthProfile {
+  email: string;
+  /** Id of the user's account at the provider. */
+  id: string;
+  name: string | null;
+}
+
+/**
+ * An OAuth 2.0 provider signing users in with the authorization code flow and PKCE.
+ */
+export interface OAuthProvider {
+  authorizationUrl: string;
+  clientId: string;
+  clientSecret: string;
+  /** Identifier used in the sign-in and callback URLs, e.g. `github` for `/api/auth/callback/github`. */
+  id: string;
+  /** Name shown on the sign-in button. */
+  name: string;
+  /** Loads the profile of the user the access token was issued to. */
+  profile: (accessToken: string) => Promise<OAuthProfile>;
+  scope: string;
+  tokenUrl: string;
+}
+
+const authorizationStateSchema = z.object({
+  callbackUrl: z.string(),
+  codeVerifier: z.string(),
+  provider: z.string(),
+  state: z.string()
+});
+
+/**
+ * A sign-in in progress, stored encrypted in a cookie between the redirect to the provider and its callback.
+ */
+export type AuthorizationState = z.infer<typeof authorizationStateSchema>;
+
+const tokenResponseSchema = z.union([
+  z.object({ access_token: z.string() }),
+  z.object({ error: z.string(), error_description: z.string().optional() })
+]);
+
+const userinfoSchema = z.object({
+  email: z.string(),
+  name: z.string().nullish(),
+  sub: z.union([z.string(), z.number()])
+});
+
+const githubUserSchema = z.object({
+  email: z.string().nullable(),
+  id: z.number(),
+  login: z.string(),
+  name: z.string().nullable()
+});
+
+const githubEmailsSchema = z.array(z.object({ email: z.string(), primary: z.boolean(), verified: z.boolean() }));
+
+async function fetchJson(url: string, accessToken: string) {
+  const response = await fetch(url, {
+    headers: { Accept: "application/json", Authorization: `Bearer ${accessToken}` },
+    signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS)
+  });
+  if (!response.ok) {
+    throw new Error(`${url} responded with ${response.status}`);
+  }
+
+  return (await response.json()) as unknown;
+}
+
+function createGitHubProvider(clientId: string, clientSecret: string): OAuthProvider {
+  return {
+    authorizationUrl: "https://github.com/login/oauth/authorize",
+    clientId,
+    clientSecret,
+    id: "github",
+    name: "GitHub",
+    profile: async (accessToken) => {
+      const user = githubUserSchema.parse(await fetchJson("https://api.github.com/user", accessToken));
+      // The public profile email is optional, the primary one is listed with the `user:email` scope
+      const email =
+        user.email ??
+        githubEmailsSchema
+          .parse(await fetchJson("https://api.github.com/user/emails", accessToken))
+          .find(({ primary, verified }) => primary && verified)?.email;
+      if (!email) {
+        throw new Error("The GitHub account has no verified primary email");
+      }
+
+      return { email, id: String(user.id), name: user.name ?? user.login };
+    },
+    scope: "read:user user:email",
+    tokenUrl: "https://github.com/login/oauth/access_token"
+  };
+}
+
+function createGenericProvider(
+  authorizationUrl: string,
+  tokenUrl: string,
+  userinfoUrl: string,
+  clientId: string,
+  clientSecret: string
+): OAuthProvider {
+  return {
+    authorizationUrl,
+    clientId,
+    clientSecret,
+    id: "oauth",
+    name: env.AUTH_OAUTH_NAME ?? "OAuth",
+    profile: async (accessToken) => {
+      const { email, name, sub } = userinfoSchema.parse(await fetchJson(userinfoUrl, accessToken));
+
+      return { email, id: String(sub), name: name ?? null };
+    },
+    scope: env.AUTH_OAUTH_SCOPE ?? "openid email profile",
+    tokenUrl
+  };
+}
+
+/**
+ * Lists the configured providers: GitHub (`AUTH_GITHUB_*`) and any provider returning OpenID Connect
+ * userinfo claims (`AUTH_OAUTH_*`), such as Google, Auth0, Keycloak or the mock provider of the e2e tests.
+ */
+export function getOAuthProviders() {
+  const providers: Array<OAuthProvider> = [];
+
+  if (env.AUTH_GITHUB_ID && env.AUTH_GITHUB_SECRET) {
+    providers.push(createGitHubProvider(env.AUTH_GITHUB_ID, env.AUTH_GITHUB_SECRET));
+  }
+  if (
+    env.AUTH_OAUTH_AUTHORIZATION_URL &&
+    env.AUTH_OAUTH_TOKEN_URL &&
+    env.AUTH_OAUTH_USERINFO_URL &&
+    env.AUTH_OAUTH_CLIENT_ID &&
+    env.AUTH_OAUTH_CLIENT_SECRET
+  ) {
+    providers.push(
+      createGenericProvider(
+        env.AUTH_OAUTH_AUTHORIZATION_URL,
+        env.AUTH_OAUTH_TOKEN_URL,
+        env.AUTH_OAUTH_USERINFO_URL,
+        env.AUTH_OAUTH_CLIENT_ID,
+        env.AUTH_OAUTH_CLIENT_SECRET
+      )
+    );
+  }
+
+  return providers;
+}
+
+export function getOAuthProvider(id: string) {
+  return getOAuthProviders().find((provider) => provider.id === id);
+}
+
+/**
+ * Creates the `state` binding the callback to the browser that started the sign-in and the PKCE code
+ * verifier binding the authorization code to this server.
+ */
+export function createAuthorizationRequest() {
+  const codeVerifier = randomBytes(32).toString("base64url");
+
+  return {
+    codeChallenge: createHash("sha256").update(codeVerifier).digest("base64url"),
+    codeVerifier,
+    state: randomBytes(16).toString("base64url")
+  };
+}
+
+/**
+ * Encrypts the sign-in in progress into the value of the state cookie, valid for `OAUTH_STATE_MAX_AGE`.
+ */
+export function sealAuthorizationState(state: AuthorizationState) {
+  return seal(state, OAUTH_STATE_MAX_AGE);
+}
+
+/**
+ * @returns `null` when the cookie is missing, expired or tampered with
+ */
+export async function unsealAuthorizationState(value: string | undefined) {
+  const result = value ? await unseal(value) : null;
+  const parsed = authorizationStateSchema.safeParse(result?.payload);
+
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Builds the URL of the provider's consent screen the user is redirected to.
+ */
+export function getAuthorizationUrl(
+  provider: OAuthProvider,
+  { codeChallenge, redirectUri, state }: { codeChallenge: string; redirectUri: string; state: string }
+) {
+  const url = new URL(provider.authorizationUrl);
+  url.searchParams.set("client_id", provider.clientId);
+  url.searchParams.set("code_challenge", codeChallenge);
+  url.searchParams.set("code_challenge_method", "S256");
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("scope", provider.scope);
+  url.searchParams.set("state", state);
+
+  return url;
+}
+
+/**
+ * Exchanges the authorization code the provider redirected back with for an access token.
+ */
+export async function exchangeAuthorizationCode(
+  provider: OAuthProvider,
+  { code, codeVerifier, redirectUri }: { code: string; codeVerifier: string; redirectUri: string }
+) {
+  const response = await fetch(provider.tokenUrl, {
+    body: new URLSearchParams({
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
+      code,
+      code_verifier: codeVerifier,
+      grant_type: "authorization_code",
+      redirect_uri: redirectUri
+    }),
+    headers: { Accept: "application/json" },
+    method: "POST",
+    signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS)
+  });
+
+  // Some providers, GitHub among them, report errors with a 200 status
+  const result = tokenResponseSchema.safeParse(await response.json().catch(() => null));
+  if (!result.success) {
+    throw new Error(`The token endpoint responded with ${response.status} and an unexpected body`);
+  }
+  if ("error" in result.data) {
+    throw new Error(`The token endpoint rejected the code: ${result.data.error_description ?? result.data.error}`);
+  }
+
+  return result.data.access_token;
+}
@@ -0,0 +1,36 @@
+import { SeverityNumber } from "@opentelemetry/api-logs";
+import { InMemoryLogRecordExporter } from "@opentelemetry/sdk-logs";
+import { LogLayer } from "loglayer";
+import { OtlpLogTransport } from "~/lib/otlp-log-transport";
+
+describe("OtlpLogTransport", () => {
+  test("exports log entries as OpenTelemetry log records", async () => {
+    const exporter = new InMemoryLogRecordExporter();
+    const transport = new OtlpLogTransport({ exporter });
+    const logger = new LogLayer({ transport });
+
+    logger.withMetadata({ orderId: 7 }).error("Payment failed");
+    await transport.forceFlush();
+
+    expect(exporter.getFinishedLogRecords()).toEqual([
+      expect.objectContaining({
+        attributes: { orderId: 7 },
+        body: "Payment failed",
+        severityNumber: SeverityNumber.ERROR,
+        severityText: "ERROR"
+      })
+    ]);
+  });
+
+  test("respects the transport level", async () => {
+    const exporter = new InMemoryLogRecordExporter();
+    const transport = new OtlpLogTransport({ exporter, level: "warn" });
+    const logger = new LogLayer({ transport });
+
+    logger.info("Ignored");
+    logger.warn("Shipped");
+    await transport.forceFlush();
+
+    expect(exporter.getFinishedLogRecords().map(({ body }) => body)).toEqual(["Shipped"]);
+  });
+});
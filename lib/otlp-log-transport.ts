@@ -0,0 +1,58 @@
+import { LoggerlessTransport, type LoggerlessTransportConfig, type LogLayerTransportParams } from "@loglayer/transport";
+import { type AnyValueMap, type Logger as OtelLogger, SeverityNumber } from "@opentelemetry/api-logs";
+import type { Resource } from "@opentelemetry/resources";
+import { BatchLogRecordProcessor, LoggerProvider, type LogRecordExporter } from "@opentelemetry/sdk-logs";
+
+export interface OtlpLogTransportConfig extends LoggerlessTransportConfig {
+  /** Exporter receiving the batched log records, e.g. `OTLPLogExporter`. */
+  exporter: LogRecordExporter;
+  /** Service described in every exported record. */
+  resource?: Resource;
+}
+
+const SEVERITY_NUMBERS = {
+  debug: SeverityNumber.DEBUG,
+  error: SeverityNumber.ERROR,
+  fatal: SeverityNumber.FATAL,
+  info: SeverityNumber.INFO,
+  trace: SeverityNumber.TRACE,
+  warn: SeverityNumber.WARN
+};
+
+/**
+ * LogLayer transport shipping log entries as OpenTelemetry log records. Records are batched
+ * (512 per export, every second) and the OTLP exporter retries failed exports with exponential backoff.
+ * The provider is private to the transport, so logs are shipped whether or not tracing is enabled.
+ */
+export class OtlpLogTransport extends LoggerlessTransport {
+  private readonly loggerProvider: LoggerProvider;
+  private readonly otelLogger: OtelLogger;
+
+  constructor({ exporter, resource, ...config }: OtlpLogTransportConfig) {
+    super(config);
+    this.loggerProvider = new LoggerProvider({
+      processors: [new BatchLogRecordProcessor({ exporter })],
+      ...(resource ? { resource } : {})
+    });
+    this.otelLogger = this.loggerProvider.getLogger("loglayer");
+  }
+
+  shipToLogger({ data, hasData, logLevel, messages }: LogLayerTransportParams) {
+    // The active context links the record to the current span
+    this.otelLogger.emit({
+      attributes: hasData && data ? (data as AnyValueMap) : {},
+      body: messages.map(String).join(" "),
+      severityNumber: SEVERITY_NUMBERS[logLevel],
+      severityText: logLevel.toUpperCase()
+    });
+
+    return messages;
+  }
+
+  /**
+   * Exports all buffered records, e.g. before the process exits.
+   */
+  forceFlush() {
+    return this.loggerProvider.forceFlush();
+  }
+}
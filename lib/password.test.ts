@@ -0,0 +1,25 @@
+import { hashPassword, verifyPassword } from "~/lib/password";
+
+describe("hashPassword", () => {
+  test("creates salted scrypt hashes", async () => {
+    const [first, second] = await Promise.all([hashPassword("correct horse"), hashPassword("correct horse")]);
+
+    expect(first).toMatch(/^scrypt\$16384\$8\$1\$[\w-]+\$[\w-]+$/);
+    expect(first).not.toBe(second);
+  });
+});
+
+describe("verifyPassword", () => {
+  test("accepts the hashed password only", async () => {
+    const hash = await hashPassword("correct horse");
+
+    await expect(verifyPassword("correct horse", hash)).resolves.toBe(true);
+    await expect(verifyPassword("battery staple", hash)).resolves.toBe(false);
+  });
+
+  test("rejects malformed hashes", async () => {
+    await expect(verifyPassword("correct horse", "")).resolves.toBe(false);
+    await expect(verifyPassword("correct horse", "bcrypt$10$salt$key")).resolves.toBe(false);
+    await expect(verifyPassword("correct horse", "scrypt$3$8$1$c2FsdA$a2V5")).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,50 @@
+import { randomBytes, type ScryptOptions, scrypt, timingSafeEqual } from "node:crypto";
+
+const KEY_LENGTH = 64;
+const SCRYPT_OPTIONS = { N: 16_384, p: 1, r: 8 } satisfies ScryptOptions;
+
+function deriveKey(password: string, salt: Buffer, options: ScryptOptions) {
+  return new Promise<Buffer>((resolve, reject) => {
+    scrypt(password.normalize("NFKC"), salt, KEY_LENGTH, options, (error, key) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(key);
+      }
+    });
+  });
+}
+
+/**
+ * Hashes a password with scrypt and a random salt.
+ * @returns Self-describing hash, `scrypt$N$r$p$salt$key`, with the salt and key base64url-encoded
+ */
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, SCRYPT_OPTIONS);
+  const { N, p, r } = SCRYPT_OPTIONS;
+
+  return ["scrypt", N, r, p, salt.toString("base64url"), key.toString("base64url")].join("$");
+}
+
+/**
+ * Checks a password against a hash created with `hashPassword`, in constant time.
+ * @returns `false` for malformed hashes
+ */
+export async function verifyPassword(password: string, hash: string) {
+  const [algorithm, N, r, p, salt, key] = hash.split("$");
+  if (algorithm !== "scrypt" || !N || !r || !p || !salt || !key) {
+    return false;
+  }
+
+  const expected = Buffer.from(key, "base64url");
+  let actual: Buffer;
+  try {
+    actual = await deriveKey(password, Buffer.from(salt, "base64url"), { N: Number(N), p: Number(p), r: Number(r) });
+  } catch {
+    // Invalid scrypt parameters
+    return false;
+  }
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
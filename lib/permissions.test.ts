@@ -0,0 +1,85 @@
+import { ForbiddenError, UnauthorizedError } from "~/lib/errors";
+import { createPermissions } from "~/lib/permissions";
+
+const { assertCan, can } = createPermissions({
+  resources: {
+    note: ["create", "read", "update", "delete", "publish"],
+    tag: ["create", "read"]
+  },
+  roles: {
+    editor: {
+      note: { publish: (_, note) => note?.status === "draft", read: true, update: true }
+    },
+    member: {
+      note: { create: true, delete: "own", read: true, update: "own" },
+      tag: { read: true }
+    }
+  }
+});
+
+const member = { id: "user-1", roles: ["member"] };
+const editor = { id: "user-2", roles: ["editor"] };
+
+describe("can", () => {
+  test("grants the actions of the subject's roles", () => {
+    expect(can(member, "create", "note")).toBe(true);
+    expect(can(member, "read", "tag")).toBe(true);
+  });
+
+  test("denies actions no role grants", () => {
+    expect(can(member, "publish", "note")).toBe(false);
+    expect(can(member, "create", "tag")).toBe(false);
+    expect(can(editor, "create", "note")).toBe(false);
+  });
+
+  test("checks ownership against the resource instance", () => {
+    expect(can(member, "update", { ownerId: "user-1", type: "note" })).toBe(true);
+    expect(can(member, "update", { ownerId: "user-3", type: "note" })).toBe(false);
+    expect(can(member, "update", { ownerId: null, type: "note" })).toBe(false);
+    expect(can(member, "update", { type: "note" })).toBe(false);
+  });
+
+  test("denies ownership rules checked without an instance", () => {
+    expect(can(member, "delete", "note")).toBe(false);
+  });
+
+  test("evaluates predicate rules with the resource instance", () => {
+    expect(can(editor, "publish", { status: "draft", type: "note" })).toBe(true);
+    expect(can(editor, "publish", { status: "published", type: "note" })).toBe(false);
+    expect(can(editor, "publish", "note")).toBe(false);
+  });
+
+  test("combines the rules of all roles", () => {
+    const editingMember = { id: "user-4", roles: ["member", "editor"] };
+
+    expect(can(editingMember, "create", "note")).toBe(true);
+    expect(can(editingMember, "update", { ownerId: "someone-else", type: "note" })).toBe(true);
+  });
+
+  test("ignores unknown roles", () => {
+    expect(can({ id: "user-5", roles: ["owner"] }, "read", "note")).toBe(false);
+  });
+
+  test("denies anonymous subjects", () => {
+    expect(can(null, "read", "note")).toBe(false);
+    expect(can(undefined, "read", "tag")).toBe(false);
+  });
+});
+
+describe("assertCan", () => {
+  test("returns the subject when allowed", () => {
+    const subject = { ...member, name: "Jan" };
+
+    expect(assertCan(subject, "read", "note")).toBe(subject);
+  });
+
+  test("throws ForbiddenError when denied", () => {
+    expect(() => assertCan(member, "update", { ownerId: "user-3", type: "note" })).toThrow(
+      new ForbiddenError("You are not allowed to update this note")
+    );
+  });
+
+  test("throws UnauthorizedError for anonymous subjects", () => {
+    expect(() => assertCan(null, "read", "note")).toThrow(UnauthorizedError);
+  });
+});
@@ -0,0 +1,125 @@
+import { ForbiddenError, UnauthorizedError } from "~/lib/errors";
+
+/**
+ * The user permissions are checked for. Roles unknown to a policy grant nothing.
+ */
+export interface PermissionSubject {
+  id: string;
+  roles: ReadonlyArray<string>;
+}
+
+/**
+ * A specific resource, e.g. a loaded database row, checked against ownership rules.
+ */
+export interface ResourceInstance<Name extends string = string> {
+  /** Id of the user owning the resource, compared by `"own"` rules. */
+  ownerId?: string | null;
+  type: Name;
+  [field: string]: unknown;
+}
+
+/**
+ * Grants an action: `true` always, `"own"` when the subject owns the resource instance (`ownerId`),
+ * or when the predicate returns `true`. Rules depending on the instance deny checks made with the resource
+ * name only.
+ */
+export type PermissionRule =
+  | boolean
+  | "own"
+  | ((subject: PermissionSubject, resource: ResourceInstance | undefined) => boolean);
+
+/**
+ * Actions per resource name, e.g. `{ note: ["create", "read", "update", "delete"] }`.
+ */
+export type ResourceActions = Record<string, ReadonlyArray<string>>;
+
+export type RolePermissions<Resources extends ResourceActions> = {
+  [Name in keyof Resources]?: { [Action in Resources[Name][number]]?: PermissionRule };
+};
+
+export interface PermissionPolicy<Resources extends ResourceActions, Role extends string> {
+  resources: Resources;
+  roles: Record<Role, RolePermissions<Resources>>;
+}
+
+type ResourceName<Resources extends ResourceActions> = keyof Resources & string;
+
+function isAllowed(rule: PermissionRule | undefined, subject: PermissionSubject, resource?: ResourceInstance) {
+  if (typeof rule === "function") {
+    return rule(subject, resource);
+  }
+  if (rule === "own") {
+    return typeof resource?.ownerId === "string" && resource.ownerId === subject.id;
+  }
+
+  return rule === true;
+}
+
+/**
+ * Creates the permission checks of a feature from a declarative policy: the actions of each resource and
+ * the rules each role grants. A subject may do what any of its roles allows; everything else is denied.
+ *
+ * @example
+ * export const { assertCan, can } = createPermissions({
+ *   resources: { note: ["create", "read", "update", "delete"] },
+ *   roles: {
+ *     admin: { note: { create: true, delete: true, read: true, update: true } },
+ *     member: { note: { create: true, delete: "own", read: true, update: "own" } }
+ *   }
+ * });
+ *
+ * can(user, "create", "note");
+ * can(user, "update", { ownerId: note.authorId, type: "note" });
+ * const author = assertCan(getCurrentUser(), "create", "note");
+ */
+export function createPermissions<const Resources extends ResourceActions, Role extends string>(
+  policy: PermissionPolicy<Resources, Role>
+) {
+  const roles: Record<string, RolePermissions<Resources> | undefined> = policy.roles;
+
+  /**
+   * Whether the subject may perform the action on the resource, given by name or as an instance.
+   * Anonymous subjects (`null`/`undefined`) may do nothing.
+   */
+  function can<Name extends ResourceName<Resources>>(
+    subject: PermissionSubject | null | undefined,
+    action: Resources[Name][number],
+    resource: Name | ResourceInstance<Name>
+  ) {
+    if (!subject) {
+      return false;
+    }
+
+    const instance = typeof resource === "string" ? undefined : resource;
+    const name: Name = typeof resource === "string" ? resource : resource.type;
+
+    return subject.roles.some((role) => {
+      const rules: Partial<Record<string, PermissionRule>> | undefined = roles[role]?.[name];
+      return isAllowed(rules?.[action], subject, instance);
+    });
+  }
+
+  /**
+   * Throws unless the subject may perform the action: `UnauthorizedError` for anonymous subjects,
+   * `ForbiddenError` otherwise. Both become problem details in route handlers and form errors in actions,
+   * and render the nearest error boundary in server components.
+   * @returns The subject, no longer `null` or `undefined`
+   */
+  function assertCan<Subject extends PermissionSubject, Name extends ResourceName<Resources>>(
+    subject: Subject | null | undefined,
+    action: Resources[Name][number],
+    resource: Name | ResourceInstance<Name>
+  ) {
+    if (!subject) {
+      throw new UnauthorizedError();
+    }
+    if (!can(subject, action, resource)) {
+      const name = typeof resource === "string" ? resource : resource.type;
+      throw new ForbiddenError(`You are not allowed to ${action} this ${name}`);
+    }
+
+    return subject;
+  }
+
+  return { assertCan, can, policy };
+}
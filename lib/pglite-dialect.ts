@@ -0,0 +1,119 @@
+import type { PGlite } from "@electric-sql/pglite";
+import {
+  CompiledQuery,
+  type DatabaseConnection,
+  type Dialect,
+  type Driver,
+  type Kysely,
+  PostgresAdapter,
+  PostgresIntrospector,
+  PostgresQueryCompiler,
+  type QueryResult,
+  type TransactionSettings
+} from "kysely";
+
+/**
+ * The single connection of an embedded database, handed out to one query or transaction at a time.
+ */
+class PGliteConnection implements DatabaseConnection {
+  private readonly pglite: PGlite;
+
+  constructor(pglite: PGlite) {
+    this.pglite = pglite;
+  }
+
+  async executeQuery<R>({ parameters, sql }: CompiledQuery): Promise<QueryResult<R>> {
+    const { affectedRows, rows } = await this.pglite.query<R>(sql, [...parameters]);
+
+    return affectedRows === undefined ? { rows } : { numAffectedRows: BigInt(affectedRows), rows };
+  }
+
+  async *streamQuery<R>(compiledQuery: CompiledQuery): AsyncIterableIterator<QueryResult<R>> {
+    yield await this.executeQuery<R>(compiledQuery);
+  }
+}
+
+class PGliteDriver implements Driver {
+  private readonly connection: PGliteConnection;
+  private readonly pglite: PGlite;
+  /** Settles once the connection is released by the query or transaction holding it. */
+  private released: Promise<void> = Promise.resolve();
+  private release: (() => void) | undefined;
+
+  constructor(pglite: PGlite) {
+    this.pglite = pglite;
+    this.connection = new PGliteConnection(pglite);
+  }
+
+  async init() {
+    await this.pglite.waitReady;
+  }
+
+  async acquireConnection() {
+    // Queue behind the current holder, so concurrent transactions do not interleave on the one connection
+    const previous = this.released;
+    let release = () => {};
+    this.released = new Promise((resolve) => {
+      release = resolve;
+    });
+    await previous;
+    this.release = release;
+
+    return this.connection;
+  }
+
+  async beginTransaction(connection: DatabaseConnection, { accessMode, isolationLevel }: TransactionSettings) {
+    const modes = [isolationLevel && `isolation level ${isolationLevel}`, accessMode].filter(Boolean);
+    await connection.executeQuery(CompiledQuery.raw(modes.length > 0 ? `begin ${modes.join(", ")}` : "begin"));
+  }
+
+  async commitTransaction(connection: DatabaseConnection) {
+    await connection.executeQuery(CompiledQuery.raw("commit"));
+  }
+
+  async rollbackTransaction(connection: DatabaseConnection) {
+    await connection.executeQuery(CompiledQuery.raw("rollback"));
+  }
+
+  async releaseConnection() {
+    const release = this.release;
+    this.release = undefined;
+    release?.();
+  }
+
+  async destroy() {
+    await this.pglite.close();
+  }
+}
+
+/**
+ * Kysely dialect for PGlite, Postgres compiled to WebAssembly running in the Node.js process. Queries use
+ * the Postgres compiler and introspector, so code and migrations run unchanged against a Postgres server.
+ *
+ * @example
+ * const db = new Kysely<Database>({ dialect: new PGliteDialect(new PGlite("memory://")) });
+ */
+export class PGliteDialect implements Dialect {
+  private readonly pglite: PGlite;
+
+  constructor(pglite: PGlite) {
+    this.pglite = pglite;
+  }
+
+  createAdapter() {
+    return new PostgresAdapter();
+  }
+
+  createDriver() {
+    return new PGliteDriver(this.pglite);
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: matches the signature of `Dialect`
+  createIntrospector(db: Kysely<any>) {
+    return new PostgresIntrospector(db);
+  }
+
+  createQueryCompiler() {
+    return new PostgresQueryCompiler();
+  }
+}
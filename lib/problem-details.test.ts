@@ -0,0 +1,59 @@
+import { NotFoundError, UnauthorizedError, ValidationError } from "~/lib/errors";
+import { createProblemResponse, PROBLEM_CONTENT_TYPE, toProblemDetails } from "~/lib/problem-details";
+
+describe("toProblemDetails", () => {
+  test("describes an AppError with its extension members", () => {
+    const error = new ValidationError("Invalid note", { issues: [{ message: "Required", path: "title" }] });
+
+    expect(toProblemDetails(error, { exposeInternals: false, instance: "/api/notes", requestId: "request-1" })).toEqual(
+      {
+        code: "validation_failed",
+        detail: "Invalid note",
+        instance: "/api/notes",
+        issues: [{ message: "Required", path: "title" }],
+        requestId: "request-1",
+        status: 400,
+        title: "Bad Request",
+        type: "about:blank"
+      }
+    );
+  });
+
+  test("hides unexpected errors unless internals are exposed", () => {
+    const error = new Error("connect ECONNREFUSED 10.0.0.5:5432");
+
+    expect(toProblemDetails(error, { exposeInternals: false })).toEqual({
+      code: "internal_error",
+      detail: "An unexpected error occurred",
+      status: 500,
+      title: "Internal Server Error",
+      type: "about:blank"
+    });
+    expect(toProblemDetails(error, { exposeInternals: true })).toMatchObject({
+      detail: "connect ECONNREFUSED 10.0.0.5:5432",
+      stack: expect.arrayContaining([expect.stringContaining("ECONNREFUSED")])
+    });
+  });
+
+  test("describes thrown values that are not errors", () => {
+    expect(toProblemDetails("Boom", { exposeInternals: true })).toMatchObject({ detail: "Boom", status: 500 });
+  });
+});
+
+describe("createProblemResponse", () => {
+  test("responds with problem+json, the status and the error headers", async () => {
+    const response = createProblemResponse(new UnauthorizedError(), { exposeInternals: false });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get("content-type")).toBe(PROBLEM_CONTENT_TYPE);
+    expect(response.headers.get("cache-control")).toBe("no-store");
+    expect(response.headers.get("www-authenticate")).toBe("Bearer");
+    await expect(response.json()).resolves.toMatchObject({ code: "unauthorized", status: 401 });
+  });
+
+  test("keeps the detail of client errors", async () => {
+    const response = createProblemResponse(new NotFoundError("Note 42 does not exist"), { exposeInternals: false });
+
+    await expect(response.json()).resolves.toMatchObject({ detail: "Note 42 does not exist", status: 404 });
+  });
+});
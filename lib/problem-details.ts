@@ -0,0 +1,75 @@
+import { isAppError } from "~/lib/errors";
+
+export const PROBLEM_CONTENT_TYPE = "application/problem+json";
+
+/**
+ * Error response body as defined by RFC 9457. `type` is always `about:blank`, so `title` is the HTTP
+ * reason phrase and clients tell problems apart by `status` and the `code` extension member.
+ */
+export interface ProblemDetails {
+  code: string;
+  detail?: string;
+  /** Path of the request that failed. */
+  instance?: string;
+  requestId?: string;
+  status: number;
+  title: string;
+  type: string;
+  [extension: string]: unknown;
+}
+
+export interface ProblemDetailsOptions {
+  /**
+   * Whether to include the message and stack of unexpected errors, which may reveal internals.
+   * Enable outside of production only.
+   */
+  exposeInternals: boolean;
+  instance?: string;
+  requestId?: string;
+}
+
+const INTERNAL_ERROR_DETAIL = "An unexpected error occurred";
+
+/**
+ * Describes a thrown value as problem details. An `AppError` keeps its status, code, message and extension
+ * members; anything else becomes a 500 `internal_error`.
+ */
+export function toProblemDetails(error: unknown, { exposeInternals, instance, requestId }: ProblemDetailsOptions) {
+  const status = isAppError(error) ? error.status : 500;
+  const expose = exposeInternals || (isAppError(error) && error.expose);
+  const message = error instanceof Error ? error.message : String(error);
+
+  const problem: ProblemDetails = {
+    ...(isAppError(error) ? error.extensions : {}),
+    code: isAppError(error) ? error.code : "internal_error",
+    detail: expose ? message : INTERNAL_ERROR_DETAIL,
+    status,
+    title: isAppError(error) ? error.title : "Internal Server Error",
+    type: "about:blank"
+  };
+
+  if (instance) {
+    problem.instance = instance;
+  }
+  if (requestId) {
+    problem.requestId = requestId;
+  }
+  if (exposeInternals && !isAppError(error) && error instanceof Error && error.stack) {
+    problem.stack = error.stack.split("\n");
+  }
+
+  return problem;
+}
+
+/**
+ * Creates the `application/problem+json` response for a thrown value, including the headers of an `AppError`
+ * such as `Retry-After` or `WWW-Authenticate`.
+ */
+export function createProblemResponse(error: unknown, options: ProblemDetailsOptions) {
+  const problem = toProblemDetails(error, options);
+  const headers = new Headers(isAppError(error) ? error.headers : undefined);
+  headers.set("Cache-Control", "no-store");
+  headers.set("Content-Type", PROBLEM_CONTENT_TYPE);
+
+  return new Response(JSON.stringify(problem), { headers, status: problem.status });
+}
@@ -0,0 +1,167 @@
+import {
+  consumeRateLimit,
+  createMemoryRateLimitStore,
+  createRateLimiter,
+  getClientIp,
+  getRateLimitHeaders,
+  slidingWindow,
+  tokenBucket
+} from "~/lib/rate-limit";
+
+describe("createRateLimiter", () => {
+  test("allows requests up to the limit within a window", () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 1000 });
+
+    expect(limiter("client", 0)).toEqual({ allowed: true, remaining: 1, resetAt: 1000 });
+    expect(limiter("client", 10)).toEqual({ allowed: true, remaining: 0, resetAt: 1000 });
+    expect(limiter("client", 20)).toEqual({ allowed: false, remaining: 0, resetAt: 1000 });
+  });
+
+  test("tracks keys independently", () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 1000 });
+
+    expect(limiter("first", 0).allowed).toBe(true);
+    expect(limiter("second", 0).allowed).toBe(true);
+    expect(limiter("first", 0).allowed).toBe(false);
+  });
+
+  test("starts a new window once the previous one ended", () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 1000 });
+
+    limiter("client", 0);
+
+    expect(limiter("client", 999).allowed).toBe(false);
+    expect(limiter("client", 1000)).toEqual({ allowed: true, remaining: 0, resetAt: 2000 });
+  });
+});
+
+describe("getClientIp", () => {
+  const forwardedFor = (value: string) => new Request("http://localhost", { headers: { "x-forwarded-for": value } });
+
+  test("uses the x-forwarded-for address appended by the trusted proxy", () => {
+    expect(getClientIp(forwardedFor("203.0.113.7"))).toBe("203.0.113.7");
+    expect(getClientIp(forwardedFor("198.51.100.1, 203.0.113.7"))).toBe("203.0.113.7");
+  });
+
+  test("ignores the x-forwarded-for addresses sent by the client", () => {
+    expect(getClientIp(forwardedFor("198.51.100.1, 203.0.113.7"))).toBe(
+      getClientIp(forwardedFor("198.51.100.2, 203.0.113.7"))
+    );
+  });
+
+  test("skips the addresses appended by the proxies between the client and the app", () => {
+    expect(getClientIp(forwardedFor("198.51.100.1, 203.0.113.7, 10.0.0.1"), 2)).toBe("203.0.113.7");
+    expect(getClientIp(forwardedFor("203.0.113.7"), 2)).toBe("203.0.113.7");
+  });
+
+  test("falls back to x-real-ip and then unknown", () => {
+    expect(getClientIp(new Request("http://localhost", { headers: { "x-real-ip": "203.0.113.8" } }))).toBe(
+      "203.0.113.8"
+    );
+    expect(getClientIp(new Request("http://localhost"))).toBe("unknown");
+  });
+});
+
+describe("tokenBucket", () => {
+  const bucket = tokenBucket({ capacity: 2, refillPerSecond: 1 });
+
+  test("allows bursts up to the capacity", () => {
+    const first = bucket.consume(undefined, 0);
+    const second = bucket.consume(first.state, 0);
+    const third = bucket.consume(second.state, 0);
+
+    expect(first.decision).toEqual({ allowed: true, limit: 2, remaining: 1, resetAt: 1000, retryAfterMs: 0 });
+    expect(second.decision).toEqual({ allowed: true, limit: 2, remaining: 0, resetAt: 2000, retryAfterMs: 0 });
+    expect(third.decision).toEqual({ allowed: false, limit: 2, remaining: 0, resetAt: 2000, retryAfterMs: 1000 });
+  });
+
+  test("refills continuously up to the capacity", () => {
+    const empty = bucket.consume(bucket.consume(undefined, 0).state, 0).state;
+
+    expect(bucket.consume(empty, 500).decision).toMatchObject({ allowed: false, retryAfterMs: 500 });
+    expect(bucket.consume(empty, 1000).decision).toMatchObject({ allowed: true, remaining: 0 });
+    expect(bucket.consume(empty, 60_000).decision).toMatchObject({ allowed: true, remaining: 1 });
+  });
+
+  test("describes its policy", () => {
+    expect(bucket.policy).toBe("2;w=2");
+    expect(bucket.ttlMs).toBe(2000);
+  });
+});
+
+describe("slidingWindow", () => {
+  const window = slidingWindow({ limit: 2, windowMs: 1000 });
+
+  test("allows up to the limit within a window", () => {
+    const first = window.consume(undefined, 0);
+    const second = window.consume(first.state, 100);
+    const third = window.consume(second.state, 200);
+
+    expect(first.decision).toEqual({ allowed: true, limit: 2, remaining: 1, resetAt: 1000, retryAfterMs: 0 });
+    expect(second.decision).toMatchObject({ allowed: true, remaining: 0 });
+    expect(third.decision).toEqual({ allowed: false, limit: 2, remaining: 0, resetAt: 1000, retryAfterMs: 1300 });
+  });
+
+  test("weighs the previous window by how much of it still overlaps", () => {
+    const full = window.consume(window.consume(undefined, 0).state, 0).state;
+
+    // At 1250 three quarters of the previous window overlap: 1.5 requests, room for none
+    expect(window.consume(full, 1250).decision).toMatchObject({ allowed: false, retryAfterMs: 250 });
+    // At 1500 half of it overlaps: 1 request, room for one more
+    expect(window.consume(full, 1500).decision).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  test("does not allow the burst a fixed window allows at its edges", () => {
+    const full = window.consume(window.consume(undefined, 900).state, 950).state;
+
+    expect(window.consume(full, 1000).decision.allowed).toBe(false);
+  });
+
+  test("forgets windows older than the previous one", () => {
+    const full = window.consume(window.consume(undefined, 0).state, 0).state;
+
+    expect(window.consume(full, 2000).decision).toMatchObject({ allowed: true, remaining: 1 });
+  });
+});
+
+describe("consumeRateLimit", () => {
+  test("keeps the state of every key in the store", async () => {
+    const store = createMemoryRateLimitStore();
+    const algorithm = tokenBucket({ capacity: 1, refillPerSecond: 1 });
+
+    expect((await consumeRateLimit(store, "first", algorithm, 0)).allowed).toBe(true);
+    expect((await consumeRateLimit(store, "second", algorithm, 0)).allowed).toBe(true);
+    expect((await consumeRateLimit(store, "first", algorithm, 0)).allowed).toBe(false);
+  });
+
+  test("forgets the state once expired", async () => {
+    vi.useFakeTimers({ now: 0 });
+    const store = createMemoryRateLimitStore();
+    const consume = vi.fn((state: number | undefined, now: number) => ({
+      decision: { allowed: true, limit: 1, remaining: 0, resetAt: now, retryAfterMs: 0 },
+      state: (state ?? 0) + 1
+    }));
+    const algorithm = { consume, policy: "1;w=1", ttlMs: 1000 };
+
+    await consumeRateLimit(store, "client", algorithm);
+    await consumeRateLimit(store, "client", algorithm);
+    vi.setSystemTime(2000);
+    await consumeRateLimit(store, "client", algorithm);
+
+    expect(consume.mock.calls.map(([state]) => state)).toEqual([undefined, 1, undefined]);
+    vi.useRealTimers();
+  });
+});
+
+describe("getRateLimitHeaders", () => {
+  test("describes the decision with the headers of the IETF draft", () => {
+    const decision = { allowed: true, limit: 10, remaining: 7, resetAt: 4500, retryAfterMs: 0 };
+
+    expect(getRateLimitHeaders(decision, "10;w=60", 1000)).toEqual({
+      "RateLimit-Limit": "10",
+      "RateLimit-Policy": "10;w=60",
+      "RateLimit-Remaining": "7",
+      "RateLimit-Reset": "4"
+    });
+  });
+});
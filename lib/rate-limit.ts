@@ -0,0 +1,269 @@
+import { env } from "~/data/env/server";
+
+export interface RateLimitOptions {
+  /** Maximum number of requests per key within one window. */
+  limit: number;
+  /** Window length in milliseconds. */
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  /** Unix timestamp in milliseconds at which the current window ends. */
+  resetAt: number;
+}
+
+/**
+ * Creates an in-memory fixed-window rate limiter. State is per server instance, which is enough to shield
+ * an endpoint from a single misbehaving client, not to enforce quotas across a fleet.
+ * @param options - Limit and window length
+ * @returns Function consuming one request for the given key
+ *
+ * @example
+ * const limiter = createRateLimiter({ limit: 10, windowMs: 60_000 });
+ * if (!limiter(getClientIp(request)).allowed) {
+ *   return new Response(null, { status: 429 });
+ * }
+ */
+export function createRateLimiter({ limit, windowMs }: RateLimitOptions) {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return (key: string, now = Date.now()): RateLimitResult => {
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      // Drop expired windows lazily so the map does not grow with every client ever seen
+      for (const [windowKey, { resetAt }] of windows) {
+        if (resetAt <= now) {
+          windows.delete(windowKey);
+        }
+      }
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+
+    window.count += 1;
+
+    return {
+      allowed: window.count <= limit,
+      remaining: Math.max(0, limit - window.count),
+      resetAt: window.resetAt
+    };
+  };
+}
+
+/**
+ * Returns the client IP address from the headers set by the reverse proxies, or `"unknown"`. Every proxy appends
+ * the address it got the request from to `X-Forwarded-For`, after whatever the client sent, so the address is the
+ * one appended by the outermost of the `trustedProxies` in front of the app (`TRUSTED_PROXY_COUNT`, 1 by default).
+ */
+export function getClientIp(request: Pick<Request, "headers">, trustedProxies = env.TRUSTED_PROXY_COUNT ?? 1) {
+  const forwardedFor =
+    request.headers
+      .get("x-forwarded-for")
+      ?.split(",")
+      .map((address) => address.trim())
+      .filter(Boolean) ?? [];
+
+  return (
+    forwardedFor[Math.max(0, forwardedFor.length - trustedProxies)] || request.headers.get("x-real-ip") || "unknown"
+  );
+}
+
+export interface RateLimitDecision extends RateLimitResult {
+  /** Requests allowed per window, or the capacity of the bucket. */
+  limit: number;
+  /** Milliseconds until a rejected request may be retried, `0` when allowed. */
+  retryAfterMs: number;
+}
+
+/**
+ * A rate-limiting algorithm, deciding on a request from the state it left for the key and returning the next state.
+ */
+export interface RateLimitAlgorithm<State = unknown> {
+  consume(state: State | undefined, now: number): { decision: RateLimitDecision; state: State };
+  /** Which built-in algorithm it is and with which options, for stores running it themselves like the Redis one. */
+  definition?: RateLimitAlgorithmDefinition;
+  /** `RateLimit-Policy` header value, e.g. `100;w=60`. */
+  policy: string;
+  /** How long the state of a key matters; once idle that long, a missing state means the same. */
+  ttlMs: number;
+}
+
+export type RateLimitAlgorithmDefinition =
+  | { name: "sliding-window"; options: SlidingWindowOptions }
+  | { name: "token-bucket"; options: TokenBucketOptions };
+
+/**
+ * Keeps the state of rate-limited keys. `consume` must be atomic per key, so concurrent requests of one client
+ * cannot both take the last token; see `createRedisRateLimitStore` for one shared by several instances.
+ */
+export interface RateLimitStore {
+  consume<State>(key: string, algorithm: RateLimitAlgorithm<State>, now: number): Promise<RateLimitDecision>;
+}
+
+/**
+ * Creates a store keeping the state in memory, per server instance.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const entries = new Map<string, { expiresAt: number; state: unknown }>();
+  let nextCleanupAt = 0;
+
+  return {
+    async consume<State>(key: string, algorithm: RateLimitAlgorithm<State>, now: number) {
+      // Entries expire by the clock like Redis keys, whatever time the request is decided at
+      const time = Date.now();
+      // Drop expired entries at most once a second, so the map does not grow with every client ever seen
+      if (time >= nextCleanupAt) {
+        nextCleanupAt = time + 1000;
+        for (const [entryKey, { expiresAt }] of entries) {
+          if (expiresAt <= time) {
+            entries.delete(entryKey);
+          }
+        }
+      }
+
+      const entry = entries.get(key);
+      const { decision, state } = algorithm.consume(
+        entry && entry.expiresAt > time ? (entry.state as State) : undefined,
+        now
+      );
+      entries.set(key, { expiresAt: time + algorithm.ttlMs, state });
+
+      return decision;
+    }
+  };
+}
+
+export interface TokenBucketOptions {
+  /** Maximum burst of requests. */
+  capacity: number;
+  /** Tokens added back per second, the sustained rate of requests. */
+  refillPerSecond: number;
+}
+
+interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token bucket: every request takes a token from a bucket of `capacity` tokens refilled continuously, allowing
+ * bursts up to the capacity and `refillPerSecond` requests per second on average.
+ */
+export function tokenBucket({ capacity, refillPerSecond }: TokenBucketOptions): RateLimitAlgorithm<TokenBucketState> {
+  const refillPerMs = refillPerSecond / 1000;
+
+  return {
+    consume(state, now) {
+      const available = Math.min(
+        capacity,
+        (state?.tokens ?? capacity) + (now - (state?.updatedAt ?? now)) * refillPerMs
+      );
+      const allowed = available >= 1;
+      const tokens = allowed ? available - 1 : available;
+
+      return {
+        decision: {
+          allowed,
+          limit: capacity,
+          remaining: Math.floor(tokens),
+          resetAt: now + Math.ceil((capacity - tokens) / refillPerMs),
+          retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs)
+        },
+        state: { tokens, updatedAt: now }
+      };
+    },
+    definition: { name: "token-bucket", options: { capacity, refillPerSecond } },
+    policy: `${capacity};w=${Math.ceil(capacity / refillPerSecond)}`,
+    ttlMs: Math.ceil(capacity / refillPerMs)
+  };
+}
+
+export interface SlidingWindowOptions {
+  /** Maximum number of requests within any window. */
+  limit: number;
+  /** Window length in milliseconds. */
+  windowMs: number;
+}
+
+interface SlidingWindowState {
+  current: number;
+  previous: number;
+  windowStart: number;
+}
+
+/**
+ * Sliding window: at most `limit` requests within any `windowMs`, without the bursts a fixed window allows at
+ * its edges. The requests of the window are estimated from the counts of the current and the previous fixed
+ * window, weighted by how much of the previous one still overlaps, so the state stays three numbers per key.
+ */
+export function slidingWindow({ limit, windowMs }: SlidingWindowOptions): RateLimitAlgorithm<SlidingWindowState> {
+  return {
+    consume(state, now) {
+      const windowStart = now - (now % windowMs);
+      const counts =
+        state?.windowStart === windowStart
+          ? state
+          : { current: 0, previous: state?.windowStart === windowStart - windowMs ? state.current : 0 };
+      const overlap = 1 - (now - windowStart) / windowMs;
+      const estimate = counts.previous * overlap + counts.current;
+      const allowed = estimate + 1 <= limit;
+      const current = allowed ? counts.current + 1 : counts.current;
+
+      // Once rejected, wait until enough of the previous window slid out, or until the current one became the
+      // previous one and slid out far enough
+      let retryAt = now;
+      if (!allowed) {
+        retryAt =
+          counts.current + 1 <= limit && counts.previous > 0
+            ? windowStart + windowMs * (1 - (limit - 1 - counts.current) / counts.previous)
+            : windowStart + windowMs + windowMs * (1 - (limit - 1) / Math.max(1, counts.current));
+      }
+
+      return {
+        decision: {
+          allowed,
+          limit,
+          remaining: Math.max(0, Math.floor(limit - estimate - (allowed ? 1 : 0))),
+          resetAt: windowStart + windowMs,
+          retryAfterMs: Math.max(0, Math.ceil(retryAt - now))
+        },
+        state: { current, previous: counts.previous, windowStart }
+      };
+    },
+    definition: { name: "sliding-window", options: { limit, windowMs } },
+    policy: `${limit};w=${Math.ceil(windowMs / 1000)}`,
+    ttlMs: 2 * windowMs
+  };
+}
+
+/**
+ * Decides on a request of `key` with the given algorithm, keeping its state in `store`.
+ *
+ * @example
+ * const decision = await consumeRateLimit(store, `ip:${getClientIp(request)}`, tokenBucket({ capacity: 10, refillPerSecond: 1 }));
+ * if (!decision.allowed) {
+ *   throw new RateLimitedError("Too many requests", { retryAfterSeconds: decision.retryAfterMs / 1000 });
+ * }
+ */
+export function consumeRateLimit<State>(
+  store: RateLimitStore,
+  key: string,
+  algorithm: RateLimitAlgorithm<State>,
+  now = Date.now()
+) {
+  return store.consume(key, algorithm, now);
+}
+
+/**
+ * Returns the `RateLimit-*` headers of the IETF draft describing a decision to the client.
+ */
+export function getRateLimitHeaders(decision: RateLimitDecision, policy: string, now = Date.now()) {
+  return {
+    "RateLimit-Limit": String(decision.limit),
+    "RateLimit-Policy": policy,
+    "RateLimit-Remaining": String(decision.remaining),
+    "RateLimit-Reset": String(Math.max(0, Math.ceil((decision.resetAt - now) / 1000)))
+  };
+}
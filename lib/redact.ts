@@ -0,0 +1,167 @@
+import type { LogLayerPlugin } from "loglayer";
+import { serializeError } from "serialize-error";
+
+export const REDACTED = "[REDACTED]";
+
+/**
+ * Keys masked wherever they appear. Matching is case-insensitive and ignores `-` and `_`,
+ * so `apiKey` also covers `api_key` and `API-KEY`, and `setCookie` covers the `set-cookie` header.
+ */
+export const DEFAULT_REDACT_PATHS = [
+  "accessToken",
+  "apiKey",
+  "authorization",
+  "cardNumber",
+  "clientSecret",
+  "cookie",
+  "creditCard",
+  "cvv",
+  "idToken",
+  "passwd",
+  "password",
+  "privateKey",
+  "proxyAuthorization",
+  "refreshToken",
+  "secret",
+  "setCookie",
+  "ssn",
+  "token",
+  "xApiKey"
+];
+
+/**
+ * Values masked inside any string: email addresses, bearer credentials and JSON Web Tokens.
+ */
+export const DEFAULT_REDACT_PATTERNS = [
+  /[\w.%+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}/gi,
+  /\b(?:bearer|basic)\s+[\w.~+/=-]+/gi,
+  /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g
+];
+
+export interface RedactionOptions {
+  /**
+   * Key names masked at any depth (`password`), or dot-separated paths from the root of the log data,
+   * where `*` matches any single key (`user.email`, `headers.*`).
+   */
+  paths: Array<string>;
+  /** Patterns replaced inside every string value. */
+  patterns: Array<RegExp>;
+}
+
+const MAX_DEPTH = 10;
+
+const normalizeKey = (key: string) => key.replace(/[-_]/g, "").toLowerCase();
+
+function compilePaths(paths: Array<string>) {
+  const keys = new Set<string>();
+  const keyPaths: Array<Array<string>> = [];
+
+  for (const path of paths) {
+    const segments = path.split(".").map((segment) => (segment === "*" ? segment : normalizeKey(segment)));
+    if (segments.length === 1 && segments[0] && segments[0] !== "*") {
+      keys.add(segments[0]);
+    } else {
+      keyPaths.push(segments);
+    }
+  }
+
+  return (path: Array<string>) => {
+    const key = path.at(-1);
+    if (key && keys.has(key)) {
+      return true;
+    }
+
+    return keyPaths.some(
+      (segments) =>
+        segments.length === path.length &&
+        segments.every((segment, index) => segment === "*" || segment === path[index])
+    );
+  };
+}
+
+/**
+ * Creates a function returning a deep copy of the given value with sensitive keys and patterns masked.
+ * The input is never mutated.
+ * @param options - Keys, paths and patterns to mask
+ * @returns Redacting function
+ *
+ * @example
+ * const redact = createRedactor({ paths: ["password", "user.email"], patterns: [] });
+ * redact({ password: "hunter2", user: { email: "jan@example.com", id: 1 } });
+ * // { password: "[REDACTED]", user: { email: "[REDACTED]", id: 1 } }
+ */
+export function createRedactor({ paths, patterns }: RedactionOptions) {
+  const isSensitivePath = compilePaths(paths);
+
+  const redactString = (value: string) =>
+    patterns.reduce((result, pattern) => result.replace(pattern, REDACTED), value);
+
+  const redactValue = (value: unknown, path: Array<string>, ancestors: WeakSet<object>): unknown => {
+    if (typeof value === "string") {
+      return redactString(value);
+    }
+    if (typeof value !== "object" || value === null) {
+      return value;
+    }
+    if (value instanceof Error) {
+      return redactValue(serializeError(value), path, ancestors);
+    }
+    if ("toJSON" in value && typeof value.toJSON === "function") {
+      return redactValue(value.toJSON(), path, ancestors);
+    }
+    // `ancestors` holds the objects on the current path only, so shared references are copied and cycles cut
+    if (ancestors.has(value) || path.length >= MAX_DEPTH) {
+      return "[Truncated]";
+    }
+    ancestors.add(value);
+
+    let result: unknown;
+    if (Array.isArray(value)) {
+      result = value.map((item) => redactValue(item, path, ancestors));
+    } else {
+      const entries = value instanceof Headers || value instanceof Map ? [...value.entries()] : Object.entries(value);
+      const copy: Record<string, unknown> = {};
+      for (const [key, item] of entries) {
+        const itemPath = [...path, normalizeKey(String(key))];
+        copy[key] = isSensitivePath(itemPath) ? REDACTED : redactValue(item, itemPath, ancestors);
+      }
+      result = copy;
+    }
+
+    ancestors.delete(value);
+    return result;
+  };
+
+  return <T>(value: T): T => redactValue(value, [], new WeakSet()) as T;
+}
+
+/**
+ * LogLayer plugin masking sensitive data in the assembled log data (context, metadata and the serialized error)
+ * and in log messages before they reach any transport.
+ */
+export function createRedactionPlugin(options: RedactionOptions): LogLayerPlugin {
+  const redact = createRedactor(options);
+
+  return {
+    id: "redaction",
+    onBeforeDataOut: ({ data }) => (data ? redact(data) : data),
+    onBeforeMessageOut: ({ messages }) => redact(messages)
+  };
+}
+
+/**
+ * Builds redaction options from the `LOG_REDACT_PATHS` (comma-separated) and `LOG_REDACT_PATTERNS`
+ * (JSON array of regular expression sources) environment variables, on top of the defaults.
+ */
+export function getRedactionOptions(redactPaths?: string, redactPatterns?: string): RedactionOptions {
+  const paths = (redactPaths ?? "")
+    .split(",")
+    .map((path) => path.trim())
+    .filter(Boolean);
+  const patterns = redactPatterns ? (JSON.parse(redactPatterns) as Array<string>) : [];
+
+  return {
+    paths: [...DEFAULT_REDACT_PATHS, ...paths],
+    patterns: [...DEFAULT_REDACT_PATTERNS, ...patterns.map((pattern) => new RegExp(pattern, "g"))]
+  };
+}
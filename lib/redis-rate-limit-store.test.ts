@@ -0,0 +1,174 @@
+import { lauxlib, lua, lualib, to_luastring } from "fengari";
+import {
+  consumeRateLimit,
+  createMemoryRateLimitStore,
+  type RateLimitAlgorithm,
+  slidingWindow,
+  tokenBucket
+} from "~/lib/rate-limit";
+import { createRedisRateLimitStore } from "~/lib/redis-rate-limit-store";
+
+type LuaState = ReturnType<typeof lauxlib.luaL_newstate>;
+
+/**
+ * Stand-in of a Redis server running the scripts of the store in Lua, with the hash commands they call. Like
+ * Redis, it converts numbers passed to commands to strings and the numbers of the reply to integers.
+ */
+function createRedisStandIn() {
+  const hashes = new Map<string, { expiresAt: number; fields: Map<string, string> }>();
+  const commands: Array<string> = [];
+
+  function getHash(key: string) {
+    const hash = hashes.get(key);
+    return hash && hash.expiresAt > Date.now() ? hash : undefined;
+  }
+
+  function call(args: Array<string>) {
+    const [command = "", key = "", ...rest] = args;
+    switch (command.toUpperCase()) {
+      case "HMGET":
+        return rest.map((field) => getHash(key)?.fields.get(field) ?? false);
+      case "HSET": {
+        const hash = getHash(key) ?? { expiresAt: Number.POSITIVE_INFINITY, fields: new Map() };
+        for (let index = 0; index < rest.length; index += 2) {
+          hash.fields.set(rest[index] ?? "", rest[index + 1] ?? "");
+        }
+        hashes.set(key, hash);
+        return rest.length / 2;
+      }
+      case "PEXPIRE": {
+        const hash = getHash(key);
+        if (hash) {
+          hash.expiresAt = Date.now() + Number(rest[0]);
+        }
+        return hash ? 1 : 0;
+      }
+      default:
+        throw new Error(`Unknown command ${command}`);
+    }
+  }
+
+  function pushReply(L: LuaState, reply: Array<string | false> | number) {
+    if (typeof reply === "number") {
+      lua.lua_pushnumber(L, reply);
+      return;
+    }
+    lua.lua_createtable(L, reply.length, 0);
+    reply.forEach((value, index) => {
+      if (value === false) {
+        lua.lua_pushboolean(L, false);
+      } else {
+        lua.lua_pushliteral(L, value);
+      }
+      lua.lua_rawseti(L, -2, index + 1);
+    });
+  }
+
+  function pushArray(L: LuaState, name: string, values: Array<number | string>) {
+    lua.lua_createtable(L, values.length, 0);
+    values.forEach((value, index) => {
+      lua.lua_pushliteral(L, String(value));
+      lua.lua_rawseti(L, -2, index + 1);
+    });
+    lua.lua_setglobal(L, name);
+  }
+
+  function readReply(L: LuaState) {
+    const values: Array<number> = [];
+    for (let index = 1; index <= lua.lua_rawlen(L, -1); index++) {
+      lua.lua_rawgeti(L, -1, index);
+      values.push(Math.trunc(lua.lua_tonumber(L, -1)));
+      lua.lua_pop(L, 1);
+    }
+    return values;
+  }
+
+  async function evaluate(script: string, numKeys: number, ...args: Array<number | string>) {
+    commands.push(`EVAL ${args.slice(0, numKeys).join(" ")}`);
+    const L = lauxlib.luaL_newstate();
+    lualib.luaL_openlibs(L);
+    pushArray(L, "KEYS", args.slice(0, numKeys));
+    pushArray(L, "ARGV", args.slice(numKeys));
+
+    lua.lua_createtable(L, 0, 1);
+    lua.lua_pushjsfunction(L, (state) => {
+      const callArgs: Array<string> = [];
+      for (let index = 1; index <= lua.lua_gettop(state); index++) {
+        // Numbers are formatted by JavaScript, as exact as the `%.17g` of Redis
+        callArgs.push(
+          lua.lua_type(state, index) === lua.LUA_TNUMBER
+            ? String(lua.lua_tonumber(state, index))
+            : lua.lua_tojsstring(state, index)
+        );
+      }
+      try {
+        pushReply(state, call(callArgs));
+      } catch (error) {
+        lua.lua_pushliteral(state, (error as Error).message);
+        lua.lua_error(state);
+      }
+      return 1;
+    });
+    lua.lua_setfield(L, -2, "call");
+    lua.lua_setglobal(L, "redis");
+
+    if (lauxlib.luaL_loadstring(L, to_luastring(script)) !== lua.LUA_OK || lua.lua_pcall(L, 0, 1, 0) !== lua.LUA_OK) {
+      throw new Error(lua.lua_tojsstring(L, -1));
+    }
+
+    return lua.lua_type(L, -1) === lua.LUA_TTABLE ? readReply(L) : null;
+  }
+
+  return { client: { eval: evaluate }, commands, hashes };
+}
+
+describe("createRedisRateLimitStore", () => {
+  test("keeps the state in a hash with the TTL of the algorithm", async () => {
+    const redis = createRedisStandIn();
+    const store = createRedisRateLimitStore(redis.client);
+    const now = Date.now();
+
+    await consumeRateLimit(store, "ip:203.0.113.7", tokenBucket({ capacity: 2, refillPerSecond: 1 }), now);
+
+    const hash = redis.hashes.get("rate-limit:ip:203.0.113.7");
+    expect(Object.fromEntries(hash?.fields ?? [])).toEqual({ tokens: "1", updatedAt: String(now) });
+    expect((hash?.expiresAt ?? 0) - Date.now()).toBeGreaterThan(1000);
+  });
+
+  test.each<[string, RateLimitAlgorithm]>([
+    ["token bucket", tokenBucket({ capacity: 3, refillPerSecond: 2 })],
+    ["sliding window", slidingWindow({ limit: 3, windowMs: 1000 })]
+  ])("decides like the %s in memory", async (_name, algorithm) => {
+    const redisStore = createRedisRateLimitStore(createRedisStandIn().client);
+    const memoryStore = createMemoryRateLimitStore();
+
+    for (const now of [0, 10, 20, 30, 40, 400, 700, 1100, 1150, 1200, 1250, 2600, 2700, 2750, 2800, 6000]) {
+      expect(await consumeRateLimit(redisStore, "client", algorithm, now)).toEqual(
+        await consumeRateLimit(memoryStore, "client", algorithm, now)
+      );
+    }
+  });
+
+  test("shares the limits of several instances, with one round trip per request", async () => {
+    const redis = createRedisStandIn();
+    const first = createRedisRateLimitStore(redis.client);
+    const second = createRedisRateLimitStore(redis.client);
+    const algorithm = tokenBucket({ capacity: 3, refillPerSecond: 0.001 });
+
+    const decisions = await Promise.all(
+      [first, second, first, second].map((store) => consumeRateLimit(store, "client", algorithm, 0))
+    );
+
+    expect(decisions.map(({ allowed }) => allowed)).toEqual([true, true, true, false]);
+    expect(redis.commands).toEqual(new Array(4).fill("EVAL rate-limit:client"));
+  });
+
+  test("rejects algorithms it has no script of", async () => {
+    const store = createRedisRateLimitStore(createRedisStandIn().client);
+    const { definition: _definition, ...algorithm } = tokenBucket({ capacity: 1, refillPerSecond: 1 });
+
+    await expect(consumeRateLimit(store, "client", algorithm)).rejects.toThrow(
+      "The Redis rate limit store supports only the tokenBucket and slidingWindow algorithms"
+    );
+  });
+});
@@ -0,0 +1,132 @@
+import type { RateLimitAlgorithm, RateLimitAlgorithmDefinition, RateLimitStore } from "~/lib/rate-limit";
+
+/**
+ * The command the store needs, as provided by an `ioredis` client. Any Redis-compatible server running Lua scripts
+ * works (Redis, Valkey, KeyDB, Dragonfly).
+ */
+export interface RedisRateLimitClient {
+  eval(script: string, numKeys: number, ...args: Array<number | string>): Promise<unknown>;
+}
+
+export interface RedisRateLimitStoreOptions {
+  /** Prefix of the keys, separating the limits of several apps sharing a server. */
+  prefix?: string;
+}
+
+/**
+ * `tokenBucket` of `~/lib/rate-limit` in Lua, keeping `tokens` and `updatedAt` in a hash.
+ */
+const TOKEN_BUCKET_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refillPerMs = tonumber(ARGV[2]) / 1000
+local now = tonumber(ARGV[3])
+local state = redis.call("HMGET", KEYS[1], "tokens", "updatedAt")
+local tokens = tonumber(state[1]) or capacity
+local updatedAt = tonumber(state[2]) or now
+
+local available = math.min(capacity, tokens + (now - updatedAt) * refillPerMs)
+local allowed = available >= 1
+if allowed then
+  available = available - 1
+end
+
+redis.call("HSET", KEYS[1], "tokens", available, "updatedAt", now)
+redis.call("PEXPIRE", KEYS[1], math.ceil(capacity / refillPerMs))
+
+local retryAfterMs = 0
+if not allowed then
+  retryAfterMs = math.ceil((1 - available) / refillPerMs)
+end
+
+return { allowed and 1 or 0, math.floor(available), now + math.ceil((capacity - available) / refillPerMs), retryAfterMs }
+`;
+
+/**
+ * `slidingWindow` of `~/lib/rate-limit` in Lua, keeping `current`, `previous` and `windowStart` in a hash.
+ */
+const SLIDING_WINDOW_SCRIPT = `
+local limit = tonumber(ARGV[1])
+local windowMs = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local state = redis.call("HMGET", KEYS[1], "current", "previous", "windowStart")
+local storedWindowStart = tonumber(state[3])
+
+local windowStart = now - now % windowMs
+local current = 0
+local previous = 0
+if storedWindowStart == windowStart then
+  current = tonumber(state[1])
+  previous = tonumber(state[2])
+elseif storedWindowStart == windowStart - windowMs then
+  previous = tonumber(state[1])
+end
+
+local estimate = previous * (1 - (now - windowStart) / windowMs) + current
+local allowed = estimate + 1 <= limit
+
+local retryAt = now
+if not allowed then
+  if current + 1 <= limit and previous > 0 then
+    retryAt = windowStart + windowMs * (1 - (limit - 1 - current) / previous)
+  else
+    retryAt = windowStart + windowMs + windowMs * (1 - (limit - 1) / math.max(1, current))
+  end
+end
+
+local remaining = limit - estimate
+if allowed then
+  remaining = remaining - 1
+  current = current + 1
+end
+
+redis.call("HSET", KEYS[1], "current", current, "previous", previous, "windowStart", windowStart)
+redis.call("PEXPIRE", KEYS[1], 2 * windowMs)
+
+return { allowed and 1 or 0, math.max(0, math.floor(remaining)), windowStart + windowMs, math.max(0, math.ceil(retryAt - now)) }
+`;
+
+function getScript(definition: RateLimitAlgorithmDefinition) {
+  if (definition.name === "token-bucket") {
+    const { capacity, refillPerSecond } = definition.options;
+    return { args: [capacity, refillPerSecond], limit: capacity, script: TOKEN_BUCKET_SCRIPT };
+  }
+
+  const { limit, windowMs } = definition.options;
+  return { args: [limit, windowMs], limit, script: SLIDING_WINDOW_SCRIPT };
+}
+
+/**
+ * Creates a store keeping the state in Redis, shared by every instance of the app. Each request is decided by
+ * a Lua script reading and writing the state of its key in one `EVAL`, which Redis runs atomically, so requests
+ * of other instances cannot interleave and no connection needs to be set aside for the store.
+ *
+ * Supports the algorithms of `~/lib/rate-limit`, `tokenBucket` and `slidingWindow`, mirrored by the scripts.
+ *
+ * @example
+ * // register() of instrumentation.ts
+ * const { default: Redis } = await import("ioredis");
+ * setRateLimitStore(createRedisRateLimitStore(new Redis(process.env.REDIS_URL)));
+ */
+export function createRedisRateLimitStore(
+  client: RedisRateLimitClient,
+  { prefix = "rate-limit:" }: RedisRateLimitStoreOptions = {}
+): RateLimitStore {
+  return {
+    async consume<State>(key: string, algorithm: RateLimitAlgorithm<State>, now: number) {
+      if (!algorithm.definition) {
+        throw new Error("The Redis rate limit store supports only the tokenBucket and slidingWindow algorithms");
+      }
+
+      const { args, limit, script } = getScript(algorithm.definition);
+      const [allowed, remaining, resetAt, retryAfterMs] = (await client.eval(
+        script,
+        1,
+        prefix + key,
+        ...args,
+        now
+      )) as [number, number, number, number];
+
+      return { allowed: allowed === 1, limit, remaining, resetAt, retryAfterMs };
+    }
+  };
+}
@@ -0,0 +1,104 @@
+import {
+  createRequestContext,
+  getRequestContext,
+  REQUEST_ID_HEADER,
+  runWithRequestContext,
+  withActionRequestContext
+} from "~/lib/request-context";
+import { TRACEPARENT_HEADER } from "~/lib/trace-context";
+
+const requestHeaders = vi.hoisted(() => new Headers());
+
+vi.mock("next/headers", () => ({ headers: async () => requestHeaders }));
+
+const context = {
+  method: "GET",
+  requestId: "request-1",
+  spanId: "00f067aa0ba902b7",
+  traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+  url: "http://localhost/api/users"
+};
+
+describe("runWithRequestContext", () => {
+  test("exposes the context to the callback", () => {
+    expect(runWithRequestContext(context, () => getRequestContext())).toEqual(context);
+  });
+
+  test("propagates the context across async boundaries", async () => {
+    const result = await runWithRequestContext(context, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return getRequestContext();
+    });
+
+    expect(result).toEqual(context);
+  });
+
+  test("isolates concurrent requests", async () => {
+    const read = (requestId: string) =>
+      runWithRequestContext({ ...context, requestId }, async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return getRequestContext()?.requestId;
+      });
+
+    await expect(Promise.all([read("a"), read("b")])).resolves.toEqual(["a", "b"]);
+  });
+
+  test("returns undefined outside of a request", () => {
+    expect(getRequestContext()).toBeUndefined();
+  });
+});
+
+describe("createRequestContext", () => {
+  test("reuses the request id and trace forwarded by the proxy", () => {
+    const request = new Request("http://localhost/api/users", {
+      headers: {
+        [REQUEST_ID_HEADER]: "forwarded-id",
+        [TRACEPARENT_HEADER]: "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01"
+      }
+    });
+
+    expect(createRequestContext(request)).toEqual({
+      method: "GET",
+      requestId: "forwarded-id",
+      spanId: "00f067aa0ba902b7",
+      traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+      url: "http://localhost/api/users"
+    });
+  });
+
+  test("generates ids when none were forwarded", () => {
+    const request = new Request("http://localhost/api/users", { method: "POST" });
+
+    expect(createRequestContext(request)).toMatchObject({
+      method: "POST",
+      requestId: expect.any(String),
+      spanId: expect.stringMatching(/^[\da-f]{16}$/),
+      traceId: expect.stringMatching(/^[\da-f]{32}$/)
+    });
+  });
+
+  test("replaces malformed forwarded ids", () => {
+    const request = new Request("http://localhost/api/users", {
+      headers: { [REQUEST_ID_HEADER]: "bad id\twith whitespace", [TRACEPARENT_HEADER]: "garbage" }
+    });
+
+    const { requestId, traceId } = createRequestContext(request);
+
+    expect(requestId).not.toBe("bad id\twith whitespace");
+    expect(traceId).toMatch(/^[\da-f]{32}$/);
+  });
+});
+
+describe("withActionRequestContext", () => {
+  test("rebuilds the context from the forwarded headers", async () => {
+    requestHeaders.set(REQUEST_ID_HEADER, "action-id");
+    requestHeaders.set("referer", "http://localhost/profile");
+
+    const action = withActionRequestContext(async (value: number) => ({ context: getRequestContext(), value }));
+
+    await expect(action(42)).resolves.toMatchObject({
+      context: { method: "POST", requestId: "action-id", url: "http://localhost/profile" },
+      value: 42
+    });
+  });
+});
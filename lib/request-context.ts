@@ -0,0 +1,92 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { headers } from "next/headers";
+import {
+  generateSpanId,
+  generateTraceId,
+  isValidRequestId,
+  parseTraceparent,
+  TRACEPARENT_HEADER
+} from "~/lib/trace-context";
+
+/**
+ * Header carrying the request id from `proxy.ts` to route handlers and server actions.
+ */
+export const REQUEST_ID_HEADER = "x-request-id";
+
+export interface RequestContext {
+  method: string;
+  requestId: string;
+  /** Id of the span `proxy.ts` opened for this request. */
+  spanId: string;
+  traceId: string;
+  url: string;
+}
+
+const requestContextStorage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Runs the callback with the given request context bound to every async operation it starts.
+ * @param context - Context of the request being handled
+ * @param callback - Code to run within the context
+ * @returns Whatever the callback returns
+ */
+export function runWithRequestContext<T>(context: RequestContext, callback: () => T): T {
+  return requestContextStorage.run(context, callback);
+}
+
+/**
+ * Returns the context of the request currently being handled, or `undefined` outside of a request.
+ */
+export function getRequestContext() {
+  return requestContextStorage.getStore();
+}
+
+/**
+ * Reads the request id and trace forwarded by `proxy.ts`, generating them when the proxy did not run.
+ */
+function getForwardedIds(requestHeaders: Headers) {
+  const requestId = requestHeaders.get(REQUEST_ID_HEADER);
+  const traceparent = parseTraceparent(requestHeaders.get(TRACEPARENT_HEADER));
+
+  return {
+    requestId: isValidRequestId(requestId) ? requestId : crypto.randomUUID(),
+    spanId: traceparent ? traceparent.parentSpanId : generateSpanId(),
+    traceId: traceparent ? traceparent.traceId : generateTraceId()
+  };
+}
+
+/**
+ * Builds the request context from an incoming request, reusing the ids forwarded by `proxy.ts`.
+ */
+export function createRequestContext(request: Request): RequestContext {
+  return {
+    method: request.method,
+    url: request.url,
+    ...getForwardedIds(request.headers)
+  };
+}
+
+/**
+ * Wraps a server action so everything it calls runs within the request context.
+ * Server actions have no access to the request object, so the context is rebuilt from the forwarded headers;
+ * the action is posted to the page it was invoked from, which the `referer` header points to.
+ *
+ * @example
+ * export const updateProfile = withActionRequestContext(async (input: ProfileInput) => {
+ *   getRequestLogger().info("Updating profile");
+ * });
+ */
+export function withActionRequestContext<Args extends Array<unknown>, Result>(
+  action: (...args: Args) => Promise<Result>
+) {
+  return async (...args: Args): Promise<Result> => {
+    const requestHeaders = await headers();
+    const context: RequestContext = {
+      method: "POST",
+      url: requestHeaders.get("referer") ?? "",
+      ...getForwardedIds(requestHeaders)
+    };
+
+    return runWithRequestContext(context, () => action(...args));
+  };
+}
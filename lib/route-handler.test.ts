@@ -0,0 +1,330 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { ConflictError, RateLimitedError } from "~/lib/errors";
+import { metricsRegistry } from "~/lib/metrics";
+import { getRequestContext, REQUEST_ID_HEADER } from "~/lib/request-context";
+import { createRouteHandler, withRouteHandler } from "~/lib/route-handler";
+
+const accessLog = vi.hoisted(() => ({
+  entries: [] as Array<{
+    context: Record<string, unknown>;
+    error?: unknown;
+    level: string;
+    metadata: Record<string, unknown>;
+  }>
+}));
+
+const env = vi.hoisted(() => ({ NODE_ENV: "test" }));
+
+vi.mock("~/data/env/server", () => ({ env }));
+
+vi.mock("~/lib/logger", () => {
+  const createLogger = (context: Record<string, unknown>, error?: unknown) => ({
+    withContext: (extra: Record<string, unknown>) => createLogger({ ...context, ...extra }, error),
+    withError: (thrown: unknown) => createLogger(context, thrown),
+    withMetadata: (metadata: Record<string, unknown>) =>
+      Object.fromEntries(
+        ["error", "info", "warn"].map((level) => [
+          level,
+          () => accessLog.entries.push({ context, level, metadata, ...(error ? { error } : {}) })
+        ])
+      )
+  });
+
+  return { getRequestLogger: () => createLogger({ requestId: getRequestContext()?.requestId }) };
+});
+
+const createRequest = (url = "http://localhost/api/users/42") =>
+  new NextRequest(url, { headers: { [REQUEST_ID_HEADER]: "request-1" } });
+
+describe("withRouteHandler", () => {
+  beforeEach(() => {
+    accessLog.entries = [];
+    env.NODE_ENV = "test";
+  });
+
+  test("runs the handler within the request context", async () => {
+    const handler = withRouteHandler(() => Response.json(getRequestContext()));
+
+    const response = await handler(createRequest(), {});
+
+    await expect(response.json()).resolves.toMatchObject({ method: "GET", requestId: "request-1" });
+  });
+
+  test("passes the route context through to the handler", async () => {
+    const handler = withRouteHandler((_, { params }: { params: Promise<{ id: string }> }) =>
+      params.then(({ id }) => Response.json({ id }))
+    );
+
+    const response = await handler(createRequest(), { params: Promise.resolve({ id: "42" }) });
+
+    await expect(response.json()).resolves.toEqual({ id: "42" });
+  });
+
+  test("writes one access-log entry once the response body was sent", async () => {
+    const handler = withRouteHandler(() => Response.json({ id: "42", name: "Jan" }, { status: 201 }), {
+      route: "/api/users/[id]"
+    });
+
+    const response = await handler(createRequest(), {});
+    expect(accessLog.entries).toHaveLength(0);
+
+    const body = await response.text();
+
+    expect(response.status).toBe(201);
+    expect(accessLog.entries).toEqual([
+      {
+        context: { module: "access-log", requestId: "request-1" },
+        level: "info",
+        metadata: {
+          durationMs: expect.any(Number),
+          method: "GET",
+          path: "/api/users/42",
+          responseSize: new TextEncoder().encode(body).byteLength,
+          route: "/api/users/[id]",
+          status: 201
+        }
+      }
+    ]);
+  });
+
+  test("records the request in the HTTP metrics", async () => {
+    const handler = withRouteHandler(() => new Response("ok"), { route: "/api/metered" });
+
+    await (await handler(createRequest("http://localhost/api/metered"), {})).text();
+
+    await expect(metricsRegistry.getSingleMetricAsString("http_requests_total")).resolves.toContain(
+      'http_requests_total{method="GET",route="/api/metered",status_code="200"} 1'
+    );
+  });
+
+  test("skips the access log when disabled but still records metrics", async () => {
+    const handler = withRouteHandler(() => new Response("ok"), { accessLog: false, route: "/api/quiet" });
+
+    await (await handler(createRequest("http://localhost/api/quiet"), {})).text();
+
+    expect(accessLog.entries).toHaveLength(0);
+    await expect(metricsRegistry.getSingleMetricAsString("http_requests_total")).resolves.toContain(
+      'route="/api/quiet"'
+    );
+  });
+
+  test("defaults the route to the request path", async () => {
+    const handler = withRouteHandler(() => new Response(null, { status: 204 }));
+
+    await handler(createRequest("http://localhost/api/ping"), {});
+
+    expect(accessLog.entries[0]?.metadata).toMatchObject({ responseSize: 0, route: "/api/ping", status: 204 });
+  });
+
+  test("logs client and server error statuses at warn and error level", async () => {
+    await withRouteHandler(() => new Response(null, { status: 404 }))(createRequest(), {});
+    await withRouteHandler(() => new Response(null, { status: 503 }))(createRequest(), {});
+
+    expect(accessLog.entries.map(({ level }) => level)).toEqual(["warn", "error"]);
+  });
+
+  test("answers thrown errors with a 500 problem and logs them", async () => {
+    const error = new Error("Database unavailable");
+    const handler = withRouteHandler(() => {
+      throw error;
+    });
+
+    const response = await handler(createRequest(), {});
+    const body = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(response.headers.get("content-type")).toBe("application/problem+json");
+    expect(body).toMatchObject({
+      code: "internal_error",
+      detail: "Database unavailable",
+      instance: "/api/users/42",
+      requestId: "request-1",
+      status: 500,
+      title: "Internal Server Error",
+      type: "about:blank"
+    });
+    expect(accessLog.entries).toEqual([
+      {
+        context: { module: "route-handler", requestId: "request-1" },
+        error,
+        level: "error",
+        metadata: { status: 500 }
+      },
+      expect.objectContaining({ level: "error", metadata: expect.objectContaining({ status: 500 }) })
+    ]);
+  });
+
+  test("hides unexpected errors in production", async () => {
+    env.NODE_ENV = "production";
+    const handler = withRouteHandler(() => {
+      throw new Error("password authentication failed for user admin");
+    });
+
+    const body = await (await handler(createRequest(), {})).json();
+
+    expect(body).toMatchObject({ detail: "An unexpected error occurred", status: 500 });
+    expect(body).not.toHaveProperty("stack");
+  });
+
+  test("answers an AppError with its status, message and headers", async () => {
+    env.NODE_ENV = "production";
+    const handler = withRouteHandler(() => {
+      throw new RateLimitedError("Slow down", { retryAfterSeconds: 30 });
+    });
+
+    const response = await handler(createRequest(), {});
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get("retry-after")).toBe("30");
+    await expect(response.json()).resolves.toMatchObject({
+      code: "rate_limited",
+      detail: "Slow down",
+      status: 429,
+      title: "Too Many Requests"
+    });
+    expect(accessLog.entries.map(({ level }) => level)).toEqual(["warn", "warn"]);
+  });
+
+  test("answers errors thrown asynchronously", async () => {
+    const handler = withRouteHandler(async () => {
+      await Promise.resolve();
+      throw new ConflictError("Email already taken");
+    });
+
+    const response = await handler(createRequest(), {});
+
+    expect(response.status).toBe(409);
+    await expect(response.json()).resolves.toMatchObject({ code: "conflict", detail: "Email already taken" });
+  });
+});
+
+describe("createRouteHandler", () => {
+  const noteSchema = z.object({ id: z.string(), tags: z.array(z.string()), title: z.string() });
+
+  const updateNote = createRouteHandler({
+    body: z.object({ tags: z.array(z.string()).default([]), title: z.string().min(1) }),
+    handler: ({ body, params, query }) => ({ id: params.id, tags: query.dryRun ? [] : body.tags, title: body.title }),
+    params: z.object({ id: z.string().regex(/^\d+$/) }),
+    query: z.object({ dryRun: z.stringbool().default(false) }),
+    response: noteSchema,
+    route: "/api/notes/[id]"
+  });
+
+  const request = (url: string, body?: string) =>
+    new NextRequest(url, { body, headers: { [REQUEST_ID_HEADER]: "request-1" }, method: "PATCH" });
+
+  const params = (id: string) => ({ params: Promise.resolve({ id }) });
+
+  beforeEach(() => {
+    accessLog.entries = [];
+    env.NODE_ENV = "test";
+  });
+
+  test("passes the parsed params, query and body to the handler", async () => {
+    const response = await updateNote(
+      request("http://localhost/api/notes/42", JSON.stringify({ tags: ["work"], title: "Groceries" })),
+      params("42")
+    );
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ id: "42", tags: ["work"], title: "Groceries" });
+  });
+
+  test("applies schema defaults and transforms", async () => {
+    const response = await updateNote(
+      request("http://localhost/api/notes/42?dryRun=true", JSON.stringify({ title: "Groceries" })),
+      params("42")
+    );
+
+    await expect(response.json()).resolves.toEqual({ id: "42", tags: [], title: "Groceries" });
+  });
+
+  test("rejects invalid input with every invalid field", async () => {
+    const response = await updateNote(
+      request("http://localhost/api/notes/abc?dryRun=maybe", JSON.stringify({ title: "" })),
+      params("abc")
+    );
+
+    expect(response.status).toBe(400);
+    expect(response.headers.get("content-type")).toBe("application/problem+json");
+    await expect(response.json()).resolves.toMatchObject({
+      code: "validation_failed",
+      issues: [
+        { message: expect.any(String), path: "body.title" },
+        { message: expect.any(String), path: "params.id" },
+        { message: expect.any(String), path: "query.dryRun" }
+      ],
+      status: 400
+    });
+  });
+
+  test("rejects a body that is not JSON", async () => {
+    const response = await updateNote(request("http://localhost/api/notes/42", "{title"), params("42"));
+
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toMatchObject({
+      code: "validation_failed",
+      detail: "The request body is not valid JSON"
+    });
+  });
+
+  test("collects repeated search params into arrays", async () => {
+    const handler = createRouteHandler({
+      handler: ({ query }) => query,
+      query: z.object({ q: z.string(), tag: z.array(z.string()) })
+    });
+
+    const response = await handler(createRequest("http://localhost/api/search?q=milk&tag=a&tag=b"), {});
+
+    await expect(response.json()).resolves.toEqual({ q: "milk", tag: ["a", "b"] });
+  });
+
+  test("sends the configured status and headers", async () => {
+    const handler = createRouteHandler({
+      handler: () => ({ ok: false }),
+      headers: { "Cache-Control": "no-store" },
+      response: z.object({ ok: z.boolean() }),
+      status: (data) => (data.ok ? 200 : 503)
+    });
+
+    const response = await handler(createRequest(), {});
+
+    expect(response.status).toBe(503);
+    expect(response.headers.get("cache-control")).toBe("no-store");
+  });
+
+  test("passes responses returned by the handler through", async () => {
+    const handler = createRouteHandler({ handler: () => new Response(null, { status: 204 }), response: noteSchema });
+
+    const response = await handler(createRequest(), {});
+
+    expect(response.status).toBe(204);
+  });
+
+  test("fails responses not matching the schema outside of production", async () => {
+    const handler = createRouteHandler({
+      handler: () => ({ id: "42", title: "Groceries" }) as z.input<typeof noteSchema>,
+      response: noteSchema
+    });
+
+    const response = await handler(createRequest(), {});
+
+    expect(response.status).toBe(500);
+    await expect(response.json()).resolves.toMatchObject({
+      detail: expect.stringContaining("tags")
+    });
+  });
+
+  test("skips response validation in production", async () => {
+    env.NODE_ENV = "production";
+    const handler = createRouteHandler({
+      handler: () => ({ id: "42", title: "Groceries" }) as z.input<typeof noteSchema>,
+      response: noteSchema
+    });
+
+    const response = await handler(createRequest(), {});
+
+    expect(response.status).toBe(200);
+  });
+});
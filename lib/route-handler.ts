@@ -0,0 +1,312 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { env } from "~/data/env/server";
+import { type AccessLogEntry, logAccess } from "~/lib/access-log";
+import { toValidationIssues, ValidationError, type ValidationIssue } from "~/lib/errors";
+import { getRequestLogger } from "~/lib/logger";
+import { recordHttpRequest } from "~/lib/metrics";
+import { createProblemResponse } from "~/lib/problem-details";
+import { createRequestContext, runWithRequestContext } from "~/lib/request-context";
+import { recordHttpServerRequest } from "~/lib/telemetry";
+
+export type RouteHandler<Context = unknown> = (request: NextRequest, context: Context) => Response | Promise<Response>;
+
+export interface RouteHandlerOptions {
+  /**
+   * Whether to write the access-log entry. Disable for noisy endpoints such as metrics scrapes;
+   * the request is still recorded in the HTTP metrics. Defaults to `true`.
+   */
+  accessLog?: boolean;
+  /**
+   * Route pattern reported in the access log, e.g. `/api/users/[id]`. Defaults to the request path,
+   * which is fine for static routes but splits dynamic ones into one entry per URL.
+   */
+  route?: string;
+}
+
+function logError(error: unknown, status: number) {
+  const errorLogger = getRequestLogger()
+    .withContext({ module: "route-handler" })
+    .withError(error)
+    .withMetadata({ status });
+
+  if (status >= 500) {
+    errorLogger.error("Route handler failed");
+  } else {
+    errorLogger.warn("Route handler rejected the request");
+  }
+}
+
+/**
+ * Passes the response body through a byte counter, calling `onComplete` once the last chunk was sent,
+ * so the reported duration and size cover streaming responses too.
+ */
+function measureResponseBody(response: Response, onComplete: (responseSize: number) => void) {
+  if (!response.body) {
+    onComplete(0);
+    return response;
+  }
+
+  let responseSize = 0;
+  const counter = new TransformStream<Uint8Array, Uint8Array>({
+    flush() {
+      onComplete(responseSize);
+    },
+    transform(chunk, controller) {
+      responseSize += chunk.byteLength;
+      controller.enqueue(chunk);
+    }
+  });
+
+  return new Response(response.body.pipeThrough(counter), {
+    headers: response.headers,
+    status: response.status,
+    statusText: response.statusText
+  });
+}
+
+/**
+ * Wraps an App Router route handler so it runs within the request context forwarded by `proxy.ts`,
+ * which makes `getRequestLogger()` include the request id, method and URL everywhere down the call chain,
+ * and emits one structured access-log entry per request with the real status, latency and response size.
+ * Thrown errors are logged and answered with RFC 9457 problem details: an `AppError` (see `lib/errors.ts`)
+ * with its own status and message, anything else with a 500 that only reveals the error outside of production.
+ * The request is also counted in the Prometheus metrics served by `/api/metrics` and
+ * in the `http.server.request.duration` OpenTelemetry histogram.
+ *
+ * @example
+ * // app/api/users/[id]/route.ts
+ * export const GET = withRouteHandler(
+ *   async (request, { params }: RouteContext<"/api/users/[id]">) => {
+ *     getRequestLogger().info("Fetching user");
+ *     const user = await getUser((await params).id);
+ *     if (!user) {
+ *       throw new NotFoundError();
+ *     }
+ *     return NextResponse.json(user);
+ *   },
+ *   { route: "/api/users/[id]" }
+ * );
+ */
+export function withRouteHandler<Context>(
+  handler: RouteHandler<Context>,
+  options: RouteHandlerOptions = {}
+): RouteHandler<Context> {
+  return (request, context) => {
+    const requestContext = createRequestContext(request);
+
+    return runWithRequestContext(requestContext, async () => {
+      const startTime = performance.now();
+      // Captured up front, the response body may finish streaming outside of the request context
+      const requestLogger = getRequestLogger().withContext({ module: "access-log" });
+      const path = request.nextUrl.pathname;
+      const complete = (status: number, responseSize: number) => {
+        const entry: AccessLogEntry = {
+          durationMs: Math.round((performance.now() - startTime) * 100) / 100,
+          method: request.method,
+          path,
+          responseSize,
+          route: options.route ?? path,
+          status
+        };
+
+        recordHttpRequest(entry);
+        recordHttpServerRequest(entry);
+        if (options.accessLog !== false) {
+          logAccess(requestLogger, entry);
+        }
+      };
+
+      let response: Response;
+      try {
+        response = await handler(request, context);
+      } catch (error) {
+        response = createProblemResponse(error, {
+          exposeInternals: env.NODE_ENV !== "production",
+          instance: path,
+          requestId: requestContext.requestId
+        });
+        logError(error, response.status);
+      }
+
+      return measureResponseBody(response, (responseSize) => {
+        complete(response.status, responseSize);
+      });
+    });
+  };
+}
+
+type Schema = z.ZodType | undefined;
+
+type Input<T extends Schema> = T extends z.ZodType ? z.output<T> : undefined;
+
+type Output<T extends Schema> = T extends z.ZodType ? z.input<T> : unknown;
+
+/**
+ * Route context passed by Next.js, `params` holds the dynamic segments of the route.
+ */
+export interface RouteHandlerContext {
+  params?: Promise<Record<string, string | Array<string> | undefined>>;
+}
+
+export interface RouteInput<Params extends Schema, Query extends Schema, Body extends Schema> {
+  /** JSON body parsed with the `body` schema, `undefined` without one. */
+  body: Input<Body>;
+  /** Dynamic route segments parsed with the `params` schema, `undefined` without one. */
+  params: Input<Params>;
+  /** Search params parsed with the `query` schema, `undefined` without one. Repeated keys become arrays. */
+  query: Input<Query>;
+  request: NextRequest;
+}
+
+export interface RouteHandlerConfig<
+  Params extends Schema,
+  Query extends Schema,
+  Body extends Schema,
+  Data extends Schema
+> extends RouteHandlerOptions {
+  body?: Body;
+  /**
+   * Receives the validated input and returns the response data, sent as JSON. Return a `Response` instead
+   * for anything else, e.g. `204 No Content` or a stream; it is passed through as is.
+   */
+  handler: (input: RouteInput<Params, Query, Body>) => Output<Data> | Response | Promise<Output<Data> | Response>;
+  /** Headers of the JSON response. */
+  headers?: HeadersInit;
+  params?: Params;
+  query?: Query;
+  /**
+   * Schema of the response data. Checked outside of production only, a mismatch fails the request with a 500
+   * naming the invalid fields.
+   */
+  response?: Data;
+  /** Status of the JSON response, or a function picking it from the data. Defaults to 200. */
+  status?: number | ((data: Output<Data>) => number);
+}
+
+function searchParamsToObject(searchParams: URLSearchParams) {
+  return Object.fromEntries(
+    [...new Set(searchParams.keys())].map((key) => {
+      const values = searchParams.getAll(key);
+      return [key, values.length > 1 ? values : values.join("")];
+    })
+  );
+}
+
+/**
+ * Reads the request body as text, giving up as soon as it exceeds `maxBytes`, or returns `null`.
+ * `content-length` is optional, so the size is enforced while streaming rather than trusted up front.
+ */
+export async function readLimitedBody(request: Request, maxBytes: number) {
+  if (Number(request.headers.get("content-length")) > maxBytes) {
+    return null;
+  }
+  if (!request.body) {
+    return "";
+  }
+
+  const chunks: Array<Uint8Array> = [];
+  let size = 0;
+  for await (const chunk of request.body) {
+    size += chunk.byteLength;
+    if (size > maxBytes) {
+      return null;
+    }
+    chunks.push(chunk);
+  }
+
+  return new TextDecoder().decode(Buffer.concat(chunks));
+}
+
+/**
+ * Reads the JSON body, `undefined` when the request has none.
+ */
+async function readJsonBody(request: NextRequest) {
+  const text = await request.text();
+  if (!text) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(text) as unknown;
+  } catch (error) {
+    throw new ValidationError("The request body is not valid JSON", { cause: error });
+  }
+}
+
+/**
+ * Creates a route handler validating its input and output with Zod. Path params, search params and the JSON
+ * body are parsed with the given schemas before the handler runs; invalid input is rejected with a 400
+ * `ValidationError` listing every invalid field (`params.id`, `query.page`, `body.title`). The handler runs
+ * within `withRouteHandler`, so thrown errors become problem details and the request is logged and measured.
+ *
+ * @example
+ * // app/api/notes/[id]/route.ts
+ * export const PATCH = createRouteHandler({
+ *   body: z.object({ title: z.string().min(1) }),
+ *   handler: ({ body, params }) => updateNote(params.id, body),
+ *   params: z.object({ id: z.uuid() }),
+ *   response: noteSchema,
+ *   route: "/api/notes/[id]"
+ * });
+ */
+export function createRouteHandler<
+  Params extends Schema = undefined,
+  Query extends Schema = undefined,
+  Body extends Schema = undefined,
+  Data extends Schema = undefined
+>({
+  body,
+  handler,
+  headers,
+  params,
+  query,
+  response,
+  status = 200,
+  ...options
+}: RouteHandlerConfig<Params, Query, Body, Data>): RouteHandler<RouteHandlerContext> {
+  return withRouteHandler(async (request, context) => {
+    const issues: Array<ValidationIssue> = [];
+    const parse = async (schema: Schema, getValue: () => unknown, location: string) => {
+      if (!schema) {
+        return undefined;
+      }
+
+      const result = await schema.safeParseAsync(await getValue());
+      if (!result.success) {
+        issues.push(...toValidationIssues(result.error, [location]));
+      }
+      return result.data;
+    };
+
+    const input = {
+      body: await parse(body, () => readJsonBody(request), "body"),
+      params: await parse(params, async () => (await context.params) ?? {}, "params"),
+      query: await parse(query, () => searchParamsToObject(request.nextUrl.searchParams), "query"),
+      request
+    } as RouteInput<Params, Query, Body>;
+
+    if (issues.length > 0) {
+      throw new ValidationError("The request is invalid", { issues });
+    }
+
+    const data = await handler(input);
+    if (data instanceof Response) {
+      return data;
+    }
+
+    if (response && env.NODE_ENV !== "production") {
+      const result = await response.safeParseAsync(data);
+      if (!result.success) {
+        throw new Error(`The response does not match its schema\n${z.prettifyError(result.error)}`, {
+          cause: result.error
+        });
+      }
+    }
+
+    return NextResponse.json(data, {
+      headers: new Headers(headers),
+      status: typeof status === "function" ? status(data) : status
+    });
+  }, options);
+}
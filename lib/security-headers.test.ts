@@ -0,0 +1,86 @@
+import { createContentSecurityPolicy, generateNonce, getNonce, getSecurityHeaders } from "~/lib/security-headers";
+
+const requestHeaders = vi.hoisted(() => new Headers());
+
+vi.mock("next/headers", () => ({ headers: async () => requestHeaders }));
+
+const directives = (policy: string) =>
+  Object.fromEntries(policy.split("; ").map((directive) => [directive.split(" ")[0], directive.split(" ").slice(1)]));
+
+describe("generateNonce", () => {
+  test("generates a different base64 nonce of 128 bits every time", () => {
+    const nonce = generateNonce();
+
+    expect(nonce).toMatch(/^[A-Za-z0-9+/]{22}==$/);
+    expect(generateNonce()).not.toBe(nonce);
+  });
+});
+
+describe("createContentSecurityPolicy", () => {
+  test("only allows scripts carrying the nonce", () => {
+    const policy = directives(createContentSecurityPolicy({ nonce: "abc" }));
+
+    expect(policy["script-src"]).toEqual(["'self'", "'nonce-abc'", "'strict-dynamic'"]);
+    expect(policy["object-src"]).toEqual(["'none'"]);
+    expect(policy["base-uri"]).toEqual(["'self'"]);
+    expect(policy["frame-ancestors"]).toEqual(["'none'"]);
+  });
+
+  test("reports violations to /api/csp-report", () => {
+    const policy = directives(createContentSecurityPolicy({ nonce: "abc" }));
+
+    expect(policy["report-uri"]).toEqual(["/api/csp-report"]);
+    expect(policy["report-to"]).toEqual(["csp-endpoint"]);
+  });
+
+  test("allows eval in development only", () => {
+    expect(directives(createContentSecurityPolicy({ development: true, nonce: "abc" }))["script-src"]).toContain(
+      "'unsafe-eval'"
+    );
+    expect(directives(createContentSecurityPolicy({ nonce: "abc" }))["script-src"]).not.toContain("'unsafe-eval'");
+  });
+
+  test("upgrades insecure requests over HTTPS only", () => {
+    expect(createContentSecurityPolicy({ nonce: "abc", secure: true })).toContain("upgrade-insecure-requests");
+    expect(createContentSecurityPolicy({ nonce: "abc" })).not.toContain("upgrade-insecure-requests");
+  });
+});
+
+describe("getSecurityHeaders", () => {
+  test("enforces the policy and hardens the browser", () => {
+    const headers = getSecurityHeaders({ nonce: "abc" });
+
+    expect(headers).toMatchObject({
+      "Content-Security-Policy": createContentSecurityPolicy({ nonce: "abc" }),
+      "Referrer-Policy": "strict-origin-when-cross-origin",
+      "Reporting-Endpoints": 'csp-endpoint="/api/csp-report"',
+      "X-Content-Type-Options": "nosniff",
+      "X-Frame-Options": "DENY"
+    });
+    expect(headers["Permissions-Policy"]).toContain("camera=()");
+    expect(headers).not.toHaveProperty("Content-Security-Policy-Report-Only");
+  });
+
+  test("only reports violations in report-only mode", () => {
+    const headers = getSecurityHeaders({ nonce: "abc", reportOnly: true });
+
+    expect(headers["Content-Security-Policy-Report-Only"]).toBe(createContentSecurityPolicy({ nonce: "abc" }));
+    expect(headers).not.toHaveProperty("Content-Security-Policy");
+  });
+
+  test("sends HSTS over HTTPS only", () => {
+    expect(getSecurityHeaders({ nonce: "abc", secure: true })["Strict-Transport-Security"]).toBe(
+      "max-age=63072000; includeSubDomains"
+    );
+    expect(getSecurityHeaders({ nonce: "abc" })).not.toHaveProperty("Strict-Transport-Security");
+  });
+});
+
+describe("getNonce", () => {
+  test("reads the nonce forwarded by the proxy", async () => {
+    expect(await getNonce()).toBeUndefined();
+
+    requestHeaders.set("x-nonce", "abc");
+    expect(await getNonce()).toBe("abc");
+  });
+});
@@ -0,0 +1,100 @@
+import { headers } from "next/headers";
+import { CSP_REPORT_ENDPOINT } from "~/lib/csp-report";
+
+/**
+ * Header carrying the nonce of the Content Security Policy from `proxy.ts` to the root layout.
+ */
+export const CSP_NONCE_HEADER = "x-nonce";
+
+/**
+ * Name of the Reporting API endpoint the `report-to` directive sends violations to.
+ */
+const REPORTING_ENDPOINT_NAME = "csp-endpoint";
+
+export interface ContentSecurityPolicyOptions {
+  /** Development builds evaluate code for React's error overlay and Fast Refresh. */
+  development?: boolean;
+  /** Nonce allowing the inline and Next.js scripts of this response, see `generateNonce`. */
+  nonce: string;
+  /** Whether the app is served over HTTPS, upgrading requests for `http://` resources. */
+  secure?: boolean;
+}
+
+export interface SecurityHeadersOptions extends ContentSecurityPolicyOptions {
+  /** Reports violations without blocking anything (`CSP_REPORT_ONLY`), to roll out a policy safely. */
+  reportOnly?: boolean;
+}
+
+/**
+ * Generates a nonce for one response: 128 random bits, base64-encoded.
+ */
+export function generateNonce() {
+  return btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(16))));
+}
+
+/**
+ * Builds a strict Content Security Policy: scripts run only with the nonce of the response, or when loaded by
+ * such a script (`'strict-dynamic'`), everything else is limited to the app's own origin.
+ */
+export function createContentSecurityPolicy({
+  development = false,
+  nonce,
+  secure = false
+}: ContentSecurityPolicyOptions) {
+  const directives: Record<string, Array<string>> = {
+    "base-uri": ["'self'"],
+    "connect-src": ["'self'"],
+    "default-src": ["'self'"],
+    "font-src": ["'self'", "data:"],
+    "form-action": ["'self'"],
+    "frame-ancestors": ["'none'"],
+    "img-src": ["'self'", "blob:", "data:"],
+    "object-src": ["'none'"],
+    "report-to": [REPORTING_ENDPOINT_NAME],
+    "report-uri": [CSP_REPORT_ENDPOINT],
+    "script-src": ["'self'", `'nonce-${nonce}'`, "'strict-dynamic'", ...(development ? ["'unsafe-eval'"] : [])],
+    // Components set `style` attributes, which nonces cannot allow
+    "style-src": ["'self'", "'unsafe-inline'"],
+    ...(secure ? { "upgrade-insecure-requests": [] } : {})
+  };
+
+  return Object.entries(directives)
+    .map(([directive, sources]) => [directive, ...sources].join(" "))
+    .join("; ");
+}
+
+/**
+ * Returns the security headers of a response: the Content Security Policy (or its report-only variant) and
+ * the headers hardening the browser against sniffing, framing and leaking the URL. HSTS is only sent over
+ * HTTPS, as browsers ignore it otherwise.
+ *
+ * @example
+ * const nonce = generateNonce();
+ * for (const [name, value] of Object.entries(getSecurityHeaders({ nonce, secure: true }))) {
+ *   response.headers.set(name, value);
+ * }
+ */
+export function getSecurityHeaders({
+  reportOnly = false,
+  ...policyOptions
+}: SecurityHeadersOptions): Record<string, string> {
+  return {
+    [reportOnly ? "Content-Security-Policy-Report-Only" : "Content-Security-Policy"]:
+      createContentSecurityPolicy(policyOptions),
+    "Permissions-Policy": "camera=(), microphone=(), geolocation=(), browsing-topics=()",
+    "Referrer-Policy": "strict-origin-when-cross-origin",
+    "Reporting-Endpoints": `${REPORTING_ENDPOINT_NAME}="${CSP_REPORT_ENDPOINT}"`,
+    ...(policyOptions.secure ? { "Strict-Transport-Security": "max-age=63072000; includeSubDomains" } : {}),
+    "X-Content-Type-Options": "nosniff",
+    // Legacy counterpart of `frame-ancestors 'none'`
+    "X-Frame-Options": "DENY"
+  };
+}
+
+/**
+ * Returns the nonce `proxy.ts` generated for the current request, for inline scripts rendered by the app.
+ * Reading it renders the page dynamically, as every response gets its own nonce.
+ */
+export async function getNonce() {
+  return (await headers()).get(CSP_NONCE_HEADER) ?? undefined;
+}
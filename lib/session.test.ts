@@ -0,0 +1,117 @@
+import {
+  createSession,
+  decryptSession,
+  encryptSession,
+  getSessionCookieOptions,
+  seal,
+  shouldRotateSession,
+  unseal
+} from "~/lib/session";
+
+const env = vi.hoisted(() => ({
+  AUTH_SECRET: "current-secret-at-least-32-characters-long" as string | undefined,
+  AUTH_SESSION_MAX_AGE: undefined as string | undefined,
+  AUTH_SESSION_UPDATE_AGE: undefined as string | undefined,
+  NODE_ENV: "test"
+}));
+
+vi.mock("~/data/env/server", () => ({ env }));
+
+vi.mock("~/lib/logger", () => {
+  const logger = { warn: vi.fn(), withContext: () => logger };
+  return { default: logger };
+});
+
+const user = { email: "ada@example.com", id: "user-1", name: "Ada", roles: ["member"] };
+const now = Date.UTC(2024, 0, 1);
+const DAY = 24 * 60 * 60 * 1000;
+
+beforeEach(() => {
+  env.AUTH_SECRET = "current-secret-at-least-32-characters-long";
+  env.AUTH_SESSION_MAX_AGE = undefined;
+  env.AUTH_SESSION_UPDATE_AGE = undefined;
+  env.NODE_ENV = "test";
+});
+
+describe("seal", () => {
+  test("encrypts payloads only the server can read", async () => {
+    const sealed = await seal({ secret: "value" }, 60, now);
+
+    expect(sealed).not.toContain("value");
+    expect(sealed.split(".")).toHaveLength(5);
+    await expect(unseal(sealed, now)).resolves.toMatchObject({ payload: { secret: "value" }, stale: false });
+  });
+
+  test("rejects expired and tampered values", async () => {
+    const sealed = await seal({ secret: "value" }, 60, now);
+    const tampered = `${sealed.slice(0, -2)}${sealed.endsWith("AA") ? "BB" : "AA"}`;
+
+    await expect(unseal(sealed, now + 61_000)).resolves.toBeNull();
+    await expect(unseal(tampered, now)).resolves.toBeNull();
+    await expect(unseal("not-a-jwe", now)).resolves.toBeNull();
+  });
+
+  test("decrypts values sealed with previous secrets as stale", async () => {
+    env.AUTH_SECRET = "previous-secret-at-least-32-characters-long";
+    const sealed = await seal({ secret: "value" }, 60, now);
+
+    env.AUTH_SECRET = "current-secret-at-least-32-characters-long,previous-secret-at-least-32-characters-long";
+    await expect(unseal(sealed, now)).resolves.toMatchObject({ stale: true });
+
+    env.AUTH_SECRET = "current-secret-at-least-32-characters-long";
+    await expect(unseal(sealed, now)).resolves.toBeNull();
+  });
+
+  test("requires a secret in production", async () => {
+    env.AUTH_SECRET = undefined;
+    await expect(seal({}, 60, now)).resolves.toEqual(expect.any(String));
+
+    env.NODE_ENV = "production";
+    await expect(seal({}, 60, now)).rejects.toThrow("AUTH_SECRET must be set in production");
+  });
+});
+
+describe("sessions", () => {
+  test("round-trip through the session cookie", async () => {
+    const session = createSession(user, "credentials", now);
+    const value = await encryptSession(session, now);
+
+    expect(session).toEqual({ expiresAt: now + 7 * DAY, issuedAt: now, provider: "credentials", user });
+    await expect(decryptSession(value, now + DAY)).resolves.toEqual({ session, stale: false });
+  });
+
+  test("expire after the configured max age", async () => {
+    env.AUTH_SESSION_MAX_AGE = "3600";
+    const value = await encryptSession(createSession(user, "github", now), now);
+
+    await expect(decryptSession(value, now + 3_599_000)).resolves.not.toBeNull();
+    await expect(decryptSession(value, now + 3_601_000)).resolves.toBeNull();
+    await expect(decryptSession(undefined, now)).resolves.toBeNull();
+  });
+
+  test("reject sealed values that are not sessions", async () => {
+    await expect(decryptSession(await seal({ user: "ada" }, 60, now), now)).resolves.toBeNull();
+  });
+
+  test("are rotated once older than the update age", () => {
+    const session = createSession(user, "credentials", now);
+
+    expect(shouldRotateSession(session, now + DAY - 1)).toBe(false);
+    expect(shouldRotateSession(session, now + DAY)).toBe(true);
+
+    env.AUTH_SESSION_UPDATE_AGE = "0";
+    expect(shouldRotateSession(session, now)).toBe(true);
+  });
+});
+
+describe("getSessionCookieOptions", () => {
+  test("keeps the cookie from scripts and cross-site requests", () => {
+    expect(getSessionCookieOptions(true)).toEqual({
+      httpOnly: true,
+      maxAge: 7 * 24 * 60 * 60,
+      path: "/",
+      sameSite: "lax",
+      secure: true
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { createHash } from "node:crypto";
+import { EncryptJWT, type JWTPayload, jwtDecrypt } from "jose";
+import { z } from "zod";
+import { env } from "~/data/env/server";
+import logger from "~/lib/logger";
+
+/**
+ * Name of the cookie holding the encrypted session.
+ */
+export const SESSION_COOKIE = "auth.session";
+
+const DEFAULT_SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+const DEFAULT_SESSION_UPDATE_AGE_SECONDS = 24 * 60 * 60;
+
+/**
+ * Used when `AUTH_SECRET` is not set outside of production, so the template runs without configuration.
+ * Sessions sealed with it can be forged by anyone reading this file.
+ */
+const DEVELOPMENT_SECRET = "development-only-secret-set-AUTH_SECRET-in-production";
+
+export const sessionUserSchema = z.object({
+  email: z.string(),
+  id: z.string(),
+  name: z.string().nullable(),
+  roles: z.array(z.string())
+});
+
+export type SessionUser = z.infer<typeof sessionUserSchema>;
+
+const sessionSchema = z.object({
+  exp: z.number(),
+  iat: z.number(),
+  provider: z.string(),
+  user: sessionUserSchema
+});
+
+export interface Session {
+  /** Unix timestamp in milliseconds at which the session ends unless rotated before. */
+  expiresAt: number;
+  /** Unix timestamp in milliseconds at which the session cookie was last sealed. */
+  issuedAt: number;
+  /** Provider the user signed in with, e.g. `credentials` or `github`. */
+  provider: string;
+  user: SessionUser;
+}
+
+export interface UnsealResult<Payload> {
+  payload: Payload;
+  /** Whether the value was sealed with a previous secret and should be sealed again with the current one. */
+  stale: boolean;
+}
+
+let warnedAboutDevelopmentSecret = false;
+
+/**
+ * Derives the encryption keys from `AUTH_SECRET`, a comma-separated list of secrets with the current one first.
+ * Previous secrets only decrypt, so they can be rotated without signing everyone out.
+ */
+function getKeys() {
+  const secrets = (env.AUTH_SECRET ?? "")
+    .split(",")
+    .map((secret) => secret.trim())
+    .filter(Boolean);
+
+  if (secrets.length === 0) {
+    if (env.NODE_ENV === "production") {
+      throw new Error("AUTH_SECRET must be set in production");
+    }
+    if (!warnedAboutDevelopmentSecret) {
+      warnedAboutDevelopmentSecret = true;
+      logger
+        .withContext({ module: "auth" })
+        .warn("AUTH_SECRET is not set, sessions are encrypted with an insecure development secret");
+    }
+    secrets.push(DEVELOPMENT_SECRET);
+  }
+
+  // A256GCM needs a 256-bit key, whatever the length of the secret
+  return secrets.map((secret) => new Uint8Array(createHash("sha256").update(secret).digest()));
+}
+
+/**
+ * Encrypts a payload into a JWE only the server can read, valid for `maxAgeSeconds`.
+ */
+export async function seal(payload: JWTPayload, maxAgeSeconds: number, now = Date.now()) {
+  const [key] = getKeys();
+  const issuedAt = Math.floor(now / 1000);
+
+  return new EncryptJWT(payload)
+    .setProtectedHeader({ alg: "dir", enc: "A256GCM" })
+    .setIssuedAt(issuedAt)
+    .setExpirationTime(issuedAt + maxAgeSeconds)
+    .encrypt(key as Uint8Array);
+}
+
+/**
+ * Decrypts a value sealed with `seal`.
+ * @returns `null` when the value is malformed, expired or sealed with an unknown secret
+ */
+export async function unseal(value: string, now = Date.now()): Promise<UnsealResult<JWTPayload> | null> {
+  const keys = getKeys();
+
+  for (const [index, key] of keys.entries()) {
+    try {
+      const { payload } = await jwtDecrypt(value, key, { currentDate: new Date(now) });
+      return { payload, stale: index > 0 };
+    } catch {
+      // Try the previous secrets, then give up
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Session lifetime settings: `maxAge` since the session cookie was last sealed and the `updateAge` after
+ * which it is sealed again, both in seconds.
+ */
+export function getSessionSettings() {
+  return {
+    maxAge: Number(env.AUTH_SESSION_MAX_AGE ?? DEFAULT_SESSION_MAX_AGE_SECONDS),
+    updateAge: Number(env.AUTH_SESSION_UPDATE_AGE ?? DEFAULT_SESSION_UPDATE_AGE_SECONDS)
+  };
+}
+
+/**
+ * Starts a session for a user who just signed in.
+ */
+export function createSession(user: SessionUser, provider: string, now = Date.now()): Session {
+  const { maxAge } = getSessionSettings();
+
+  return { expiresAt: now + maxAge * 1000, issuedAt: now, provider, user };
+}
+
+/**
+ * Encrypts the session into the value of the session cookie.
+ */
+export function encryptSession({ provider, user }: Session, now = Date.now()) {
+  return seal({ provider, user }, getSessionSettings().maxAge, now);
+}
+
+/**
+ * Decrypts the value of the session cookie.
+ * @returns `null` when there is no valid session
+ */
+export async function decryptSession(value: string | undefined, now = Date.now()) {
+  if (!value) {
+    return null;
+  }
+
+  const result = await unseal(value, now);
+  const parsed = sessionSchema.safeParse(result?.payload);
+  if (!result || !parsed.success) {
+    return null;
+  }
+
+  const { exp, iat, provider, user } = parsed.data;
+  const session: Session = { expiresAt: exp * 1000, issuedAt: iat * 1000, provider, user };
+
+  return { session, stale: result.stale };
+}
+
+/**
+ * Whether the session cookie should be sealed again, extending the session. Active users stay signed in
+ * while sessions of inactive ones expire `maxAge` after their last rotation.
+ */
+export function shouldRotateSession(session: Session, now = Date.now()) {
+  return now - session.issuedAt >= getSessionSettings().updateAge * 1000;
+}
+
+/**
+ * Options of the session cookie. It is only sent over HTTPS when the app is served over HTTPS and never
+ * readable by scripts.
+ */
+export function getSessionCookieOptions(secure: boolean) {
+  return {
+    httpOnly: true,
+    maxAge: getSessionSettings().maxAge,
+    path: "/",
+    sameSite: "lax" as const,
+    secure
+  };
+}
@@ -0,0 +1,114 @@
+import { context, metrics, trace } from "@opentelemetry/api";
+import { AsyncLocalStorageContextManager } from "@opentelemetry/context-async-hooks";
+import { MeterProvider, MetricReader } from "@opentelemetry/sdk-metrics";
+import { TracerProvider } from "@opentelemetry/sdk-trace";
+import { TestLoggingLibrary, TestTransport } from "loglayer";
+import { createLogger } from "~/lib/logger";
+import { runWithRequestContext } from "~/lib/request-context";
+import { getActiveSpan, recordHttpServerRequest } from "~/lib/telemetry";
+
+class TestMetricReader extends MetricReader {
+  protected onForceFlush() {
+    return Promise.resolve();
+  }
+
+  protected onShutdown() {
+    return Promise.resolve();
+  }
+}
+
+const metricReader = new TestMetricReader();
+
+beforeAll(() => {
+  context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+  trace.setGlobalTracerProvider(new TracerProvider());
+  metrics.setGlobalMeterProvider(new MeterProvider({ readers: [metricReader] }));
+});
+
+afterAll(() => {
+  context.disable();
+  trace.disable();
+  metrics.disable();
+});
+
+const tracer = () => trace.getTracer("test");
+
+describe("getActiveSpan", () => {
+  test("returns undefined outside of a span", () => {
+    expect(getActiveSpan()).toBeUndefined();
+  });
+
+  test("returns the ids of the active span", () => {
+    tracer().startActiveSpan("operation", (span) => {
+      const { spanId, traceId } = span.spanContext();
+
+      expect(getActiveSpan()).toEqual({ spanId, traceFlags: "01", traceId });
+      span.end();
+    });
+  });
+});
+
+describe("trace correlation", () => {
+  const createTestLogger = () => {
+    const library = new TestLoggingLibrary();
+    const testLogger = createLogger({ module: "test" }).withFreshTransports(new TestTransport({ logger: library }));
+
+    return { library, testLogger };
+  };
+
+  const lastLogData = (library: TestLoggingLibrary) => library.getLastLine()?.data[0] as Record<string, unknown>;
+
+  test("adds the active span ids to every entry", () => {
+    const { library, testLogger } = createTestLogger();
+
+    tracer().startActiveSpan("operation", (span) => {
+      testLogger.info("Inside span");
+      span.end();
+
+      expect(lastLogData(library)).toMatchObject({
+        span_id: span.spanContext().spanId,
+        trace_id: span.spanContext().traceId
+      });
+    });
+  });
+
+  test("falls back to the request context ids", () => {
+    const { library, testLogger } = createTestLogger();
+    const context = {
+      method: "GET",
+      requestId: "req-1",
+      spanId: "00f067aa0ba902b7",
+      traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+      url: "http://localhost/api"
+    };
+
+    runWithRequestContext(context, () => testLogger.info("Inside request"));
+
+    expect(lastLogData(library)).toMatchObject({ span_id: context.spanId, trace_id: context.traceId });
+  });
+
+  test("leaves entries outside of a trace untouched", () => {
+    const { library, testLogger } = createTestLogger();
+
+    testLogger.info("Outside");
+
+    expect(lastLogData(library)).not.toHaveProperty("trace_id");
+  });
+});
+
+describe("recordHttpServerRequest", () => {
+  test("records the duration in seconds with route attributes", async () => {
+    recordHttpServerRequest({ durationMs: 250, method: "GET", route: "/api/health", status: 200 });
+
+    const { resourceMetrics } = await metricReader.collect();
+    const metric = resourceMetrics.scopeMetrics
+      .flatMap(({ metrics: scopeMetrics }) => scopeMetrics)
+      .find(({ descriptor }) => descriptor.name === "http.server.request.duration");
+
+    expect(metric?.descriptor.unit).toBe("s");
+    expect(metric?.dataPoints[0]).toMatchObject({
+      attributes: { "http.request.method": "GET", "http.response.status_code": 200, "http.route": "/api/health" },
+      value: { count: 1, sum: 0.25 }
+    });
+  });
+});
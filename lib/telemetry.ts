@@ -0,0 +1,112 @@
+import { type Histogram, isSpanContextValid, metrics, trace } from "@opentelemetry/api";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import { ATTR_SERVICE_NAME, ATTR_SERVICE_VERSION } from "@opentelemetry/semantic-conventions";
+import type { LogLayerPlugin } from "loglayer";
+import { getRelease } from "~/data/env/app";
+import { env } from "~/data/env/server";
+import { getRequestContext } from "~/lib/request-context";
+import type { TraceContext } from "~/lib/trace-context";
+import packageJson from "~/package.json";
+
+/**
+ * Name of the OpenTelemetry tracer and meter used by the application code.
+ */
+export const TELEMETRY_SCOPE = "nextjs-szumplate";
+
+/**
+ * Parses a `key=value,key=value` list of URL-encoded headers, as used by `OTEL_EXPORTER_OTLP_HEADERS`.
+ */
+export function parseHeaderList(headers?: string) {
+  return Object.fromEntries(
+    (headers ?? "")
+      .split(",")
+      .map((header) => header.split("=").map((part) => decodeURIComponent(part.trim())))
+      .filter((parts): parts is [string, string] => parts.length === 2 && !!parts[0])
+  );
+}
+
+/**
+ * Returns the OTLP/HTTP exporter options of a signal from `OTEL_EXPORTER_OTLP_ENDPOINT` and
+ * `OTEL_EXPORTER_OTLP_HEADERS`. Without an endpoint the exporters default to `http://localhost:4318`.
+ */
+export function getOtlpExporterOptions(signal: "logs" | "metrics" | "traces") {
+  const endpoint = env.OTEL_EXPORTER_OTLP_ENDPOINT?.replace(/\/+$/, "");
+
+  return {
+    headers: parseHeaderList(env.OTEL_EXPORTER_OTLP_HEADERS),
+    ...(endpoint ? { url: `${endpoint}/v1/${signal}` } : {})
+  };
+}
+
+/**
+ * Describes this service in exported traces, metrics and logs.
+ */
+export function createTelemetryResource() {
+  return resourceFromAttributes({
+    [ATTR_SERVICE_NAME]: env.OTEL_SERVICE_NAME ?? packageJson.name,
+    [ATTR_SERVICE_VERSION]: getRelease().version
+  });
+}
+
+export type ActiveSpan = Pick<TraceContext, "spanId" | "traceFlags" | "traceId">;
+
+/**
+ * Returns the ids of the active OpenTelemetry span, or `undefined` when tracing is disabled
+ * (`OTEL_TRACES_EXPORTER=none`) or no span is active.
+ */
+export function getActiveSpan(): ActiveSpan | undefined {
+  const spanContext = trace.getActiveSpan()?.spanContext();
+  if (!spanContext || !isSpanContextValid(spanContext)) {
+    return undefined;
+  }
+
+  return {
+    spanId: spanContext.spanId,
+    traceFlags: spanContext.traceFlags.toString(16).padStart(2, "0"),
+    traceId: spanContext.traceId
+  };
+}
+
+/**
+ * LogLayer plugin adding `trace_id` and `span_id` to every log entry so logs and traces correlate.
+ * Uses the active OpenTelemetry span and falls back to the trace context of the current request.
+ */
+export function createTraceCorrelationPlugin(): LogLayerPlugin {
+  return {
+    id: "trace-correlation",
+    onBeforeDataOut: ({ data }) => {
+      const span = getActiveSpan() ?? getRequestContext();
+      if (!span) {
+        return data;
+      }
+
+      return { ...data, span_id: span.spanId, trace_id: span.traceId };
+    }
+  };
+}
+
+export interface HttpServerRequest {
+  durationMs: number;
+  method: string;
+  route: string;
+  status: number;
+}
+
+let httpServerRequestDuration: Histogram | undefined;
+
+/**
+ * Records a handled request in the `http.server.request.duration` histogram (OpenTelemetry semantic conventions).
+ * The instrument is created on first use, after `instrumentation.ts` registered the meter provider.
+ */
+export function recordHttpServerRequest({ durationMs, method, route, status }: HttpServerRequest) {
+  httpServerRequestDuration ??= metrics.getMeter(TELEMETRY_SCOPE).createHistogram("http.server.request.duration", {
+    description: "Duration of HTTP server requests",
+    unit: "s"
+  });
+
+  httpServerRequestDuration.record(durationMs / 1000, {
+    "http.request.method": method,
+    "http.response.status_code": status,
+    "http.route": route
+  });
+}
@@ -0,0 +1,126 @@
+import {
+  createTraceContext,
+  formatTraceparent,
+  generateSpanId,
+  generateTraceId,
+  isValidRequestId,
+  parseTraceparent
+} from "~/lib/trace-context";
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const SPAN_ID = "00f067aa0ba902b7";
+const TRACEPARENT = `00-${TRACE_ID}-${SPAN_ID}-01`;
+
+describe("parseTraceparent", () => {
+  test("parses a valid header", () => {
+    expect(parseTraceparent(TRACEPARENT)).toEqual({ parentSpanId: SPAN_ID, traceFlags: "01", traceId: TRACE_ID });
+  });
+
+  test("accepts upper-case and surrounding whitespace", () => {
+    expect(parseTraceparent(`  ${TRACEPARENT.toUpperCase()} `)?.traceId).toBe(TRACE_ID);
+  });
+
+  test("accepts trailing fields of future versions", () => {
+    expect(parseTraceparent(`01-${TRACE_ID}-${SPAN_ID}-01-future`)?.traceId).toBe(TRACE_ID);
+  });
+
+  test.each([
+    ["missing", undefined],
+    ["empty", ""],
+    ["malformed", "not-a-traceparent"],
+    ["short trace id", `00-${TRACE_ID.slice(1)}-${SPAN_ID}-01`],
+    ["forbidden version", `ff-${TRACE_ID}-${SPAN_ID}-01`],
+    ["version 00 with trailing fields", `${TRACEPARENT}-extra`],
+    ["all-zero trace id", `00-${"0".repeat(32)}-${SPAN_ID}-01`],
+    ["all-zero span id", `00-${TRACE_ID}-${"0".repeat(16)}-01`]
+  ])("rejects %s header", (_, value) => {
+    expect(parseTraceparent(value)).toBeUndefined();
+  });
+});
+
+describe("formatTraceparent", () => {
+  test("round-trips through parseTraceparent", () => {
+    const header = formatTraceparent({ spanId: SPAN_ID, traceFlags: "01", traceId: TRACE_ID });
+
+    expect(header).toBe(TRACEPARENT);
+    expect(parseTraceparent(header)).toEqual({ parentSpanId: SPAN_ID, traceFlags: "01", traceId: TRACE_ID });
+  });
+});
+
+describe("generateTraceId / generateSpanId", () => {
+  test("generate lower-case hex ids of the right length", () => {
+    expect(generateTraceId()).toMatch(/^[\da-f]{32}$/);
+    expect(generateSpanId()).toMatch(/^[\da-f]{16}$/);
+    expect(generateTraceId()).not.toBe(generateTraceId());
+  });
+});
+
+describe("isValidRequestId", () => {
+  test.each(["3f2c9a1e-7d4b-4c1a-9e8f-1b2c3d4e5f6a", "Root=1-67891233-abcdef012345678912345678", "lb:42"])(
+    "accepts %s",
+    (value) => {
+      expect(isValidRequestId(value)).toBe(true);
+    }
+  );
+
+  test.each([null, "", "with space", "line\nbreak", "x".repeat(129)])("rejects %j", (value) => {
+    expect(isValidRequestId(value)).toBe(false);
+  });
+});
+
+describe("createTraceContext", () => {
+  test("continues upstream request id and trace", () => {
+    const headers = new Headers({ traceparent: TRACEPARENT, tracestate: "vendor=value", "x-request-id": "lb-123" });
+
+    const context = createTraceContext(headers, "x-request-id");
+
+    expect(context).toMatchObject({
+      parentSpanId: SPAN_ID,
+      requestId: "lb-123",
+      traceFlags: "01",
+      traceId: TRACE_ID,
+      tracestate: "vendor=value"
+    });
+    expect(context.spanId).toMatch(/^[\da-f]{16}$/);
+    expect(context.spanId).not.toBe(SPAN_ID);
+  });
+
+  test("generates ids when headers are absent", () => {
+    const context = createTraceContext(new Headers(), "x-request-id");
+
+    expect(context.requestId).toEqual(expect.any(String));
+    expect(context.traceId).toMatch(/^[\da-f]{32}$/);
+    expect(context.traceFlags).toBe("01");
+    expect(context).not.toHaveProperty("parentSpanId");
+  });
+
+  test("ignores invalid upstream values and tracestate without traceparent", () => {
+    const headers = new Headers({ traceparent: "bogus", tracestate: "vendor=value", "x-request-id": "bad id" });
+
+    const context = createTraceContext(headers, "x-request-id");
+
+    expect(context.requestId).not.toBe("bad id");
+    expect(context).not.toHaveProperty("parentSpanId");
+    expect(context).not.toHaveProperty("tracestate");
+  });
+
+  test("prefers the span opened by OpenTelemetry", () => {
+    const activeSpan = { spanId: "b7ad6b7169203331", traceFlags: "00", traceId: TRACE_ID };
+    const headers = new Headers({ traceparent: TRACEPARENT, tracestate: "vendor=value" });
+
+    expect(createTraceContext(headers, "x-request-id", activeSpan)).toMatchObject({
+      ...activeSpan,
+      parentSpanId: SPAN_ID,
+      tracestate: "vendor=value"
+    });
+  });
+
+  test("drops the upstream parent when the active span started a new trace", () => {
+    const activeSpan = { spanId: "b7ad6b7169203331", traceFlags: "01", traceId: "0af7651916cd43dd8448eb211c80319c" };
+
+    const context = createTraceContext(new Headers({ traceparent: TRACEPARENT }), "x-request-id", activeSpan);
+
+    expect(context).toMatchObject(activeSpan);
+    expect(context).not.toHaveProperty("parentSpanId");
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * W3C Trace Context (https://www.w3.org/TR/trace-context/) helpers used to correlate requests across services.
+ */
+
+export const TRACEPARENT_HEADER = "traceparent";
+export const TRACESTATE_HEADER = "tracestate";
+/**
+ * Response header echoing the trace context back to the caller (W3C Trace Context Level 2).
+ */
+export const TRACERESPONSE_HEADER = "traceresponse";
+
+export interface Traceparent {
+  /** Id of the caller's span, i.e. the parent of the span handling this request. */
+  parentSpanId: string;
+  traceFlags: string;
+  traceId: string;
+}
+
+export interface TraceContext {
+  parentSpanId?: string;
+  requestId: string;
+  spanId: string;
+  traceFlags: string;
+  traceId: string;
+  tracestate?: string;
+}
+
+const TRACEPARENT_PATTERN = /^([\da-f]{2})-([\da-f]{32})-([\da-f]{16})-([\da-f]{2})(-.*)?$/;
+const REQUEST_ID_PATTERN = /^[\w.:@/+=-]{1,128}$/;
+const INVALID_TRACE_ID = "0".repeat(32);
+const INVALID_SPAN_ID = "0".repeat(16);
+const SAMPLED_FLAGS = "01";
+
+function randomHex(bytes: number) {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (byte) => byte.toString(16).padStart(2, "0")).join(
+    ""
+  );
+}
+
+/**
+ * Generates a random 16-byte trace id.
+ */
+export function generateTraceId() {
+  return randomHex(16);
+}
+
+/**
+ * Generates a random 8-byte span id.
+ */
+export function generateSpanId() {
+  return randomHex(8);
+}
+
+/**
+ * Parses and validates a `traceparent` header value.
+ * @param value - Raw header value
+ * @returns Parsed trace parent, or `undefined` when the value is missing or malformed
+ *
+ * @example
+ * parseTraceparent("00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01");
+ * // { traceId: "4bf92f3577b34da6a3ce929d0e0e4736", parentSpanId: "00f067aa0ba902b7", traceFlags: "01" }
+ */
+export function parseTraceparent(value: string | null | undefined): Traceparent | undefined {
+  const match = value?.trim().toLowerCase().match(TRACEPARENT_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, version, traceId, parentSpanId, traceFlags, rest] = match;
+  if (!version || !traceId || !parentSpanId || !traceFlags) {
+    return undefined;
+  }
+  // Version "ff" is forbidden and version "00" has no trailing fields
+  if (version === "ff" || (version === "00" && rest)) {
+    return undefined;
+  }
+  if (traceId === INVALID_TRACE_ID || parentSpanId === INVALID_SPAN_ID) {
+    return undefined;
+  }
+
+  return { parentSpanId, traceFlags, traceId };
+}
+
+/**
+ * Serializes a span into a `traceparent` header value.
+ */
+export function formatTraceparent({
+  spanId,
+  traceFlags,
+  traceId
+}: Pick<TraceContext, "spanId" | "traceFlags" | "traceId">) {
+  return `00-${traceId}-${spanId}-${traceFlags}`;
+}
+
+/**
+ * Checks an upstream request id before trusting it: 1–128 characters out of letters, digits and `_.:@/+=-`,
+ * which rejects log-injection attempts and oversized values.
+ */
+export function isValidRequestId(value: string | null | undefined): value is string {
+  return !!value && REQUEST_ID_PATTERN.test(value);
+}
+
+/**
+ * Builds the trace context of an incoming request. Valid upstream `X-Request-ID` and `traceparent` headers are
+ * continued, anything missing or malformed is generated, and the request always gets a fresh span id.
+ * When OpenTelemetry already opened a span for the request, its ids are used instead so logs match the exported trace.
+ * @param headers - Incoming request headers
+ * @param requestIdHeader - Header carrying the upstream request id
+ * @param activeSpan - Span OpenTelemetry opened for the request, if any
+ * @returns Trace context of this request
+ */
+export function createTraceContext(
+  headers: Headers,
+  requestIdHeader: string,
+  activeSpan?: Pick<TraceContext, "spanId" | "traceFlags" | "traceId">
+): TraceContext {
+  const upstreamRequestId = headers.get(requestIdHeader);
+  const requestId = isValidRequestId(upstreamRequestId) ? upstreamRequestId : crypto.randomUUID();
+  const traceparent = parseTraceparent(headers.get(TRACEPARENT_HEADER));
+  const span = activeSpan ?? {
+    spanId: generateSpanId(),
+    traceFlags: traceparent ? traceparent.traceFlags : SAMPLED_FLAGS,
+    traceId: traceparent ? traceparent.traceId : generateTraceId()
+  };
+
+  // The active span continues the upstream trace unless it was started as a new root
+  if (!traceparent || traceparent.traceId !== span.traceId) {
+    return { requestId, ...span };
+  }
+
+  const tracestate = headers.get(TRACESTATE_HEADER);
+
+  return {
+    parentSpanId: traceparent.parentSpanId,
+    requestId,
+    ...span,
+    ...(tracestate ? { tracestate } : {})
+  };
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { type FieldValues, type GlobalError, type Path, type UseFormProps, useForm } from "react-hook-form";
+import type { z } from "zod";
+import type { ActionResult } from "~/lib/action";
+
+/**
+ * Form error key under which `useActionForm` stores the `formError` of a failed action.
+ */
+export const ACTION_FORM_ERROR = "root.server";
+
+export interface UseActionFormOptions<Input extends FieldValues, Output extends FieldValues, Data>
+  extends Omit<UseFormProps<Input, unknown, Output>, "resolver"> {
+  /** Server action created with `createAction`. */
+  action: (input: Input) => Promise<ActionResult<Data>>;
+  onSuccess?: (data: Data) => void | Promise<void>;
+  /** The schema the action validates with, checked on the client first. */
+  schema: z.ZodType<Output, Input>;
+}
+
+/**
+ * `react-hook-form` bound to a server action created with `createAction`. The form is validated on the client
+ * with the action's schema, then submitted to the action; field errors it returns are set on their fields and
+ * the form error under `root.server`, exposed as `formError`.
+ *
+ * @example
+ * const { formError, formState, onSubmit, register } = useActionForm({
+ *   action: createNote,
+ *   defaultValues: { title: "" },
+ *   onSuccess: (note) => router.push(`/notes/${note.id}`),
+ *   schema: createNoteSchema
+ * });
+ *
+ * <form onSubmit={onSubmit}>
+ *   <Input {...register("title")} invalid={!!formState.errors.title} />
+ *   {formError ? <p role="alert">{formError}</p> : null}
+ * </form>
+ */
+export function useActionForm<Input extends FieldValues, Output extends FieldValues, Data>({
+  action,
+  onSuccess,
+  schema,
+  ...formOptions
+}: UseActionFormOptions<Input, Output, Data>) {
+  const form = useForm<Input, unknown, Output>({ ...formOptions, resolver: zodResolver(schema) });
+
+  // The action validates the raw values again, so they are sent instead of the parsed output
+  const onSubmit = form.handleSubmit(async () => {
+    let result: ActionResult<Data>;
+    try {
+      result = await action(form.getValues());
+    } catch {
+      form.setError(ACTION_FORM_ERROR, { message: "The request could not be sent, please try again", type: "server" });
+      return;
+    }
+
+    if (result.ok) {
+      await onSuccess?.(result.data);
+      return;
+    }
+
+    for (const [name, messages] of Object.entries(result.fieldErrors)) {
+      form.setError(name as Path<Input>, { message: messages.join(" "), type: "server" });
+    }
+    if (result.formError) {
+      form.setError(ACTION_FORM_ERROR, { message: result.formError, type: "server" });
+    }
+  });
+
+  // Typed as always present, but only set once an action failed
+  const serverError: GlobalError | undefined = form.formState.errors.root?.server;
+
+  return { ...form, formError: serverError ? serverError.message : undefined, onSubmit };
+}
@@ -12,10 +12,16 @@ export default {
   reactStrictMode: true,
   async rewrites() {
     return [
-      { destination: "/api/health", source: "/healthz" },
-      { destination: "/api/health", source: "/api/healthz" },
-      { destination: "/api/health", source: "/health" },
-      { destination: "/api/health", source: "/ping" }
+      // Liveness — is the process up? (Kubernetes `livenessProbe`)
+      { destination: "/api/health/live", source: "/healthz" },
+      { destination: "/api/health/live", source: "/api/healthz" },
+      { destination: "/api/health/live", source: "/ping" },
+      // Readiness — can the instance take traffic? (Kubernetes `readinessProbe`)
+      { destination: "/api/health/ready", source: "/health" },
+      // Prometheus scrapes `/metrics` by default
+      { destination: "/api/metrics", source: "/metrics" }
     ];
-  }
+  },
+  // Loads its WebAssembly build from the package directory at runtime
+  serverExternalPackages: ["@electric-sql/pglite"]
 } satisfies NextConfig;
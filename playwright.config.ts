@@ -70,15 +70,38 @@ export default defineConfig({
     trace: "on-first-retry"
   },
 
-  /* Run your local dev server before starting the tests */
-  webServer: {
-    command: "npm run start",
-    env: {
-      NODE_ENV: "test"
+  /* Run your local dev server and the mock OAuth provider before starting the tests */
+  webServer: [
+    {
+      command: "node tests/e2e/mock-oauth-server.ts",
+      env: {
+        MOCK_OAUTH_PORT: "3999"
+      },
+      reuseExistingServer: !process.env.CI,
+      url: "http://127.0.0.1:3999"
     },
-    reuseExistingServer: !process.env.CI,
-    url: "http://127.0.0.1:3000"
-  },
+    {
+      // The production build runs as deployed, with the variables production requires
+      command: "npm run start",
+      env: {
+        APP_URL: "http://127.0.0.1:3000",
+        AUTH_DEMO_EMAIL: "demo@example.com",
+        AUTH_DEMO_PASSWORD: "demo-password",
+        AUTH_OAUTH_AUTHORIZATION_URL: "http://127.0.0.1:3999/authorize",
+        AUTH_OAUTH_CLIENT_ID: "mock-client",
+        AUTH_OAUTH_CLIENT_SECRET: "mock-client-secret",
+        AUTH_OAUTH_NAME: "Mock Provider",
+        AUTH_OAUTH_TOKEN_URL: "http://127.0.0.1:3999/token",
+        AUTH_OAUTH_USERINFO_URL: "http://127.0.0.1:3999/userinfo",
+        AUTH_SECRET: "e2e-secret-that-is-at-least-32-characters-long",
+        CORS_ALLOWED_ORIGINS: "http://frontend.test,http://*.preview.test",
+        DATABASE_URL: "pglite://memory",
+        NODE_ENV: "production"
+      },
+      reuseExistingServer: !process.env.CI,
+      url: "http://127.0.0.1:3000"
+    }
+  ],
   /* Opt out of parallel tests on CI. */
   workers: process.env.CI ? 1 : undefined
 });
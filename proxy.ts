@@ -1,34 +1,246 @@
 import { type NextRequest, NextResponse } from "next/server";
+import { env } from "~/data/env/server";
+import { isRouteHandlerPath, logAccess } from "~/lib/access-log";
+import { checkApiRateLimit } from "~/lib/api-rate-limit";
+import { getSignInUrl, isProtectedPath, shouldUseSecureCookies } from "~/lib/auth";
+import { findCorsRule, getCorsHeaders, isPreflightRequest, matchCorsOrigin } from "~/lib/cors";
+import { CSRF_COOKIE, checkCsrf, generateCsrfToken, getAllowedOrigins, getCsrfCookieOptions } from "~/lib/csrf";
+import { ForbiddenError, RateLimitedError, UnauthorizedError } from "~/lib/errors";
 import { createLogger } from "~/lib/logger";
+import { PROXY_ROUTE, recordHttpRequest } from "~/lib/metrics";
+import { createProblemResponse } from "~/lib/problem-details";
+import { getRateLimitHeaders } from "~/lib/rate-limit";
+import { REQUEST_ID_HEADER } from "~/lib/request-context";
+import { CSP_NONCE_HEADER, generateNonce, getSecurityHeaders } from "~/lib/security-headers";
+import {
+  decryptSession,
+  encryptSession,
+  getSessionCookieOptions,
+  SESSION_COOKIE,
+  shouldRotateSession
+} from "~/lib/session";
+import { getActiveSpan, recordHttpServerRequest } from "~/lib/telemetry";
+import {
+  createTraceContext,
+  formatTraceparent,
+  TRACEPARENT_HEADER,
+  TRACERESPONSE_HEADER,
+  TRACESTATE_HEADER
+} from "~/lib/trace-context";
 
-export function proxy(request: NextRequest) {
-  const startTime = Date.now();
-  const requestId = crypto.randomUUID();
+/**
+ * Paths polled by infrastructure (Prometheus scrapes) or tools (log viewer stream), not logged on every request.
+ */
+const QUIET_PATHS = new Set(["/api/metrics", "/dev/logs/stream", "/metrics"]);
+
+/**
+ * Responds to an anonymous request of a protected path: API clients get a 401 problem, browsers are sent
+ * to the sign-in page, returning to the requested page once signed in.
+ */
+function rejectAnonymousRequest(request: NextRequest, requestId: string) {
+  const { pathname, search } = request.nextUrl;
+
+  if (pathname.startsWith("/api/")) {
+    const problem = createProblemResponse(new UnauthorizedError(), {
+      exposeInternals: false,
+      instance: pathname,
+      requestId
+    });
+    return new NextResponse(problem.body, { headers: problem.headers, status: problem.status });
+  }
+
+  return NextResponse.redirect(new URL(getSignInUrl(`${pathname}${search}`), request.url));
+}
+
+/**
+ * Responds to a cross-site mutating request with a 403 problem.
+ */
+function rejectCrossSiteRequest(request: NextRequest, requestId: string) {
+  const problem = createProblemResponse(new ForbiddenError("Cross-site request rejected"), {
+    exposeInternals: false,
+    instance: request.nextUrl.pathname,
+    requestId
+  });
+
+  return new NextResponse(problem.body, { headers: problem.headers, status: problem.status });
+}
+
+/**
+ * Responds to a request over its rate limit with a 429 problem telling when to retry.
+ */
+function rejectRateLimitedRequest(request: NextRequest, requestId: string, retryAfterMs: number) {
+  const problem = createProblemResponse(
+    new RateLimitedError("Too many requests", { retryAfterSeconds: retryAfterMs / 1000 }),
+    {
+      exposeInternals: false,
+      instance: request.nextUrl.pathname,
+      requestId
+    }
+  );
+
+  return new NextResponse(problem.body, { headers: problem.headers, status: problem.status });
+}
+
+export async function proxy(request: NextRequest) {
+  const startTime = performance.now();
+  // Continue the upstream request id and trace (load balancer, API gateway, calling service) when valid,
+  // preferring the span OpenTelemetry opened for the proxy when tracing is enabled
+  const { parentSpanId, requestId, spanId, traceFlags, traceId, tracestate } = createTraceContext(
+    request.headers,
+    REQUEST_ID_HEADER,
+    getActiveSpan()
+  );
+  const traceparent = formatTraceparent({ spanId, traceFlags, traceId });
 
   // Create a logger with request context
   const requestLogger = createLogger({
     method: request.method,
+    module: "proxy",
+    parentSpanId,
     requestId,
+    spanId,
+    traceId,
     url: request.url,
     userAgent: request.headers.get("user-agent")
   });
 
-  requestLogger.info("Incoming request");
+  // The access-log entry with the final status and latency is written once the response is sent, by `withRouteHandler`
+  // for route handlers and by `startAccessLog` for pages and server actions
+  if (!QUIET_PATHS.has(request.nextUrl.pathname)) {
+    requestLogger.debug("Incoming request");
+  }
+
+  const secure = shouldUseSecureCookies(request.headers.get("x-forwarded-proto") ?? request.nextUrl.protocol);
+  const nonce = generateNonce();
+  const securityHeaders = getSecurityHeaders({
+    development: env.NODE_ENV === "development",
+    nonce,
+    reportOnly: env.CSP_REPORT_ONLY,
+    secure
+  });
+
+  // CORS policy of the path (`lib/cors.ts`), preflights are answered before authentication and rate limits
+  const corsRule = findCorsRule(request.nextUrl.pathname);
+  const origin = request.headers.get("origin");
+  const preflight = corsRule !== undefined && isPreflightRequest(request);
+
+  // Checked before the CSRF token below is added to the request. Origins the CORS policy lets call the path with
+  // cookies may send mutating requests too
+  const corsOrigin = corsRule && origin && matchCorsOrigin(origin, corsRule) === "listed" ? origin : null;
+  const csrf = await checkCsrf(request, {
+    allowedOrigins: corsOrigin ? [...getAllowedOrigins(), corsOrigin] : getAllowedOrigins(),
+    host: request.headers.get("x-forwarded-host") ?? request.headers.get("host")
+  });
+  if (!csrf.allowed) {
+    requestLogger.withMetadata({ reason: csrf.reason }).warn("Rejecting cross-site request");
+  }
+
+  // Give browsers visiting a page a CSRF token, on the request too so the page rendering now can put it in forms
+  const csrfToken =
+    request.cookies.has(CSRF_COOKIE) || request.nextUrl.pathname.startsWith("/api/") ? null : generateCsrfToken();
+  if (csrfToken) {
+    request.cookies.set(CSRF_COOKIE, csrfToken);
+  }
+
+  // Forward the request ID and trace context to route handlers and server actions
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.set(REQUEST_ID_HEADER, requestId);
+  requestHeaders.set(TRACEPARENT_HEADER, traceparent);
+  if (tracestate) {
+    requestHeaders.set(TRACESTATE_HEADER, tracestate);
+  }
+  // Next.js reads the nonce from the policy to add it to its own scripts, the root layout from `x-nonce`
+  requestHeaders.set(CSP_NONCE_HEADER, nonce);
+  for (const [name, value] of Object.entries(securityHeaders)) {
+    if (name.startsWith("Content-Security-Policy")) {
+      requestHeaders.set(name, value);
+    }
+  }
+
+  // Only checks whether the session cookie is valid, pages and route handlers load the user with `getCurrentUser`
+  const sessionCookie = request.cookies.get(SESSION_COOKIE)?.value;
+  const session = await decryptSession(sessionCookie);
+  const anonymous = !session && isProtectedPath(request.nextUrl.pathname);
+  if (anonymous) {
+    requestLogger.debug("Rejecting anonymous request of a protected path");
+  }
+
+  // Counts API requests against the rule of their path (`lib/api-rate-limit.ts`), letting them through when
+  // the store is unavailable rather than failing every request
+  const rateLimit = preflight
+    ? null
+    : await checkApiRateLimit(request, session?.session.user.id).catch((error: unknown) => {
+        requestLogger.withError(error).error("Rate limit check failed");
+        return null;
+      });
+  const limited = rateLimit !== null && !rateLimit.decision.allowed;
+  if (limited) {
+    requestLogger.withMetadata({ rateLimitRule: rateLimit.rule }).warn("Rate limit exceeded");
+  }
 
   // Continue with the request
-  const response = NextResponse.next();
+  let response: NextResponse;
+  const answered = preflight || limited || !csrf.allowed || anonymous;
+  if (preflight) {
+    response = new NextResponse(null, { status: 204 });
+  } else if (limited) {
+    response = rejectRateLimitedRequest(request, requestId, rateLimit.decision.retryAfterMs);
+  } else if (!csrf.allowed) {
+    response = rejectCrossSiteRequest(request, requestId);
+  } else if (anonymous) {
+    response = rejectAnonymousRequest(request, requestId);
+  } else {
+    response = NextResponse.next({ request: { headers: requestHeaders } });
+  }
 
-  // Add request ID to response headers
+  // Requests changing the session themselves (sign-in and sign-out, server actions) are left alone
+  const canRotate = request.method === "GET" && !request.nextUrl.pathname.startsWith("/api/auth/");
+  if (session && canRotate && (session.stale || shouldRotateSession(session.session))) {
+    // Seal the session again with the current secret and a new expiry, keeping active users signed in
+    response.cookies.set(SESSION_COOKIE, await encryptSession(session.session), getSessionCookieOptions(secure));
+  } else if (sessionCookie && !session) {
+    // Expired or sealed with a secret no longer configured
+    response.cookies.delete(SESSION_COOKIE);
+  }
+  if (csrfToken) {
+    response.cookies.set(CSRF_COOKIE, csrfToken, getCsrfCookieOptions(secure));
+  }
+
+  // Add request ID and trace context to response headers
   response.headers.set("X-Request-ID", requestId);
+  response.headers.set(TRACERESPONSE_HEADER, traceparent);
+  for (const [name, value] of Object.entries(securityHeaders)) {
+    response.headers.set(name, value);
+  }
+  if (corsRule) {
+    for (const [name, value] of Object.entries(getCorsHeaders(corsRule, origin, { preflight }))) {
+      response.headers.set(name, value);
+    }
+  }
+  if (rateLimit) {
+    for (const [name, value] of Object.entries(getRateLimitHeaders(rateLimit.decision, rateLimit.policy))) {
+      response.headers.set(name, value);
+    }
+  }
+
+  // Route handlers never see the requests answered here, so their metrics and access-log entry are recorded now
+  if (answered) {
+    const { pathname } = request.nextUrl;
+    const durationMs = Math.round((performance.now() - startTime) * 100) / 100;
+    const metric = { durationMs, method: request.method, route: PROXY_ROUTE, status: response.status };
 
-  // Log the response
-  const duration = Date.now() - startTime;
-  requestLogger
-    .withMetadata({
-      duration,
-      status: response.status
-    })
-    .info("Request completed");
+    recordHttpRequest(metric);
+    recordHttpServerRequest(metric);
+    if (isRouteHandlerPath(pathname)) {
+      logAccess(requestLogger.withContext({ module: "access-log" }), {
+        durationMs,
+        method: request.method,
+        path: pathname,
+        route: pathname,
+        status: response.status
+      });
+    }
+  }
 
   return response;
 }
@@ -0,0 +1,69 @@
+import nextEnv from "@next/env";
+
+/**
+ * Database commands, run through the `db:*` scripts of package.json:
+ *
+ * - `migrate` runs the pending migrations
+ * - `migrate:down [--all]` reverts the last migration, or all of them
+ * - `migrate:status` lists the migrations and whether they ran
+ * - `seed` inserts the sample data of every feature, see `data/db/seed.ts`
+ * - `reset` reverts all migrations, then migrates and seeds again
+ *
+ * The embedded database can only be opened by one process, stop the dev server before running them against it.
+ */
+
+// Read `.env*` files the way `next dev` does, before the env module validates `process.env`
+Object.assign(process.env, { NODE_ENV: process.env.NODE_ENV ?? "development" });
+nextEnv.loadEnvConfig(process.cwd(), process.env.NODE_ENV === "development");
+
+const { getDatabaseUrl, getDb, createMigrator, migrateDown, migrateToLatest } = await import("~/lib/db");
+const { seeds } = await import("~/data/db/seed");
+
+const print = (line: string) => process.stdout.write(`${line}\n`);
+
+async function seed() {
+  for (const [name, run] of Object.entries(seeds)) {
+    print(`Seeded ${name}: ${await run(getDb())} rows`);
+  }
+}
+
+const commands: Record<string, () => Promise<void>> = {
+  migrate: async () => {
+    const results = await migrateToLatest();
+    print(
+      results.length > 0 ? results.map(({ migrationName }) => `Migrated ${migrationName}`).join("\n") : "Up to date"
+    );
+  },
+  "migrate:down": async () => {
+    const results = await migrateDown(getDb(), { all: process.argv.includes("--all") });
+    print(
+      results.length > 0
+        ? results.map(({ migrationName }) => `Reverted ${migrationName}`).join("\n")
+        : "Nothing to revert"
+    );
+  },
+  "migrate:status": async () => {
+    for (const { executedAt, name } of await createMigrator(getDb()).getMigrations()) {
+      print(`${executedAt ? `ran ${executedAt.toISOString()}` : "pending".padEnd(28)}  ${name}`);
+    }
+  },
+  reset: async () => {
+    await migrateDown(getDb(), { all: true });
+    await migrateToLatest();
+    await seed();
+  },
+  seed
+};
+
+const command = commands[process.argv[2] ?? ""];
+if (!command) {
+  process.stderr.write(`Usage: tsx scripts/db.ts <${Object.keys(commands).join("|")}>\n`);
+  process.exit(1);
+}
+
+try {
+  print(`Database: ${getDatabaseUrl().replace(/\/\/[^@/]*@/, "//***@")}`);
+  await command();
+} finally {
+  await getDb().destroy();
+}
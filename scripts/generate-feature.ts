@@ -0,0 +1,83 @@
+import { spawnSync } from "node:child_process";
+import { parseArgs } from "node:util";
+import { type FileChange, planFeature, writeChanges } from "~/scripts/lib/feature-generator";
+
+/**
+ * Generates a feature module shaped like `features/example-feature`, run through `npm run generate:feature`:
+ *
+ * - `features/<name>` with its schemas, server actions, database table, repository, permissions, components,
+ *   stories and tests
+ * - the page `app/<name>/page.tsx`, protected by default, and an e2e test stub
+ * - a migration creating the table, registered with the table in `data/db`
+ *
+ * `--resource` names the resource the feature manages, the singular of the feature by default, and
+ * `--dry-run` prints the changes without writing them.
+ */
+
+const USAGE = "Usage: npm run generate:feature -- <name> [--resource <name>] [--dry-run]";
+
+const print = (line: string) => process.stdout.write(`${line}\n`);
+
+function printAddedLines({ content, previous = "" }: FileChange) {
+  const previousLines = new Set(previous.split("\n"));
+  for (const line of content.split("\n")) {
+    if (!previousLines.has(line)) {
+      print(`    + ${line}`);
+    }
+  }
+}
+
+function fail(message: string): never {
+  process.stderr.write(`${message}\n`);
+  process.exit(1);
+}
+
+function parseOptions() {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: { "dry-run": { type: "boolean" }, resource: { type: "string" } }
+    });
+  } catch (error) {
+    return fail(`${error instanceof Error ? error.message : error}\n${USAGE}`);
+  }
+}
+
+const {
+  positionals: [feature],
+  values: { "dry-run": dryRun = false, resource }
+} = parseOptions();
+if (!feature) {
+  fail(USAGE);
+}
+
+try {
+  const rootDir = process.cwd();
+  const changes = await planFeature({ feature, resource, rootDir });
+
+  for (const change of changes) {
+    print(`${change.type.padEnd(6)}  ${change.path}`);
+    if (dryRun && change.type === "update") {
+      printAddedLines(change);
+    }
+  }
+
+  if (dryRun) {
+    print("\nDry run, nothing was written.");
+  } else {
+    await writeChanges(rootDir, changes);
+    // Line breaks depend on the length of the names, leave them to the formatter
+    const biome = spawnSync("npx", ["biome", "check", "--write", ...changes.map(({ path }) => path)], {
+      stdio: "ignore"
+    });
+    if (biome.status !== 0) {
+      print("\nCould not format the generated files, run `npm run biome:fix`.");
+    }
+    print(`\nGenerated features/${feature}. Next steps:`);
+    print("  npm run db:migrate     create the table (the dev server migrates the embedded database itself)");
+    print(`  npm run dev            open http://localhost:3000/${feature}`);
+    print("  npm run test:unit      run the generated tests");
+  }
+} catch (error) {
+  fail(error instanceof Error ? error.message : String(error));
+}
@@ -0,0 +1,146 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { getFeatureNames, planFeature, writeChanges } from "~/scripts/lib/feature-generator";
+
+/**
+ * Registries the generator updates, reduced to what it reads, so migrations added to the app do not change the
+ * expected output.
+ */
+const FIXTURES = {
+  "data/db/migrations/0001_create_note.ts": [
+    "export async function up() {}",
+    "",
+    "export async function down() {}",
+    ""
+  ],
+  "data/db/migrations/index.ts": [
+    'import type { Migration } from "kysely";',
+    'import * as createNote from "~/data/db/migrations/0001_create_note";',
+    "",
+    "export const migrations: Record<string, Migration> = {",
+    '  "0001_create_note": createNote',
+    "};",
+    ""
+  ],
+  "data/db/schema.ts": [
+    'import type { NoteTable } from "~/features/example-feature/server/db/schema";',
+    "",
+    "export interface Database {",
+    "  note: NoteTable;",
+    "}",
+    ""
+  ],
+  "lib/auth.ts": ['const DEFAULT_PROTECTED_PATHS = ["/notes"];', ""]
+};
+
+describe("getFeatureNames", () => {
+  test("derives the resource from the feature name", () => {
+    expect(getFeatureNames("blog-posts")).toEqual({
+      camel: "blogPost",
+      feature: "blog-posts",
+      kebab: "blog-post",
+      label: "blog post",
+      pascal: "BlogPost",
+      pluralPascal: "BlogPosts",
+      table: "blog_post"
+    });
+    expect(getFeatureNames("categories").kebab).toBe("category");
+    expect(getFeatureNames("inventory").kebab).toBe("inventory");
+  });
+
+  test("uses the given resource name", () => {
+    expect(getFeatureNames("news", "article")).toMatchObject({ feature: "news", pascal: "Article", table: "article" });
+  });
+
+  test.each(["BlogPosts", "blog_posts", "-posts", "posts-", "1posts", ""])("rejects %j", (name) => {
+    expect(() => getFeatureNames(name)).toThrow("must be kebab-case");
+  });
+});
+
+describe("generating a feature", () => {
+  let rootDir: string;
+  const read = (file: string) => readFileSync(path.join(rootDir, file), "utf8");
+
+  beforeEach(() => {
+    rootDir = mkdtempSync(path.join(tmpdir(), "feature-generator-"));
+    for (const [file, lines] of Object.entries(FIXTURES)) {
+      mkdirSync(path.dirname(path.join(rootDir, file)), { recursive: true });
+      writeFileSync(path.join(rootDir, file), lines.join("\n"));
+    }
+  });
+
+  afterEach(() => {
+    rmSync(rootDir, { force: true, recursive: true });
+  });
+
+  test("plans the module without writing it", async () => {
+    const changes = await planFeature({ feature: "blog-posts", rootDir });
+
+    expect(changes.filter(({ type }) => type === "update").map(({ path }) => path)).toEqual([
+      "data/db/schema.ts",
+      "data/db/migrations/index.ts",
+      "lib/auth.ts"
+    ]);
+    expect(changes.map(({ path }) => path)).toEqual(
+      expect.arrayContaining([
+        "app/blog-posts/page.tsx",
+        "data/db/migrations/0002_create_blog_post.ts",
+        "features/blog-posts/components/blog-post-list.stories.tsx",
+        "features/blog-posts/components/blog-post-list.tsx",
+        "features/blog-posts/schemas/blog-post.ts",
+        "features/blog-posts/server/actions/create-blog-post.ts",
+        "features/blog-posts/server/actions/delete-blog-post.ts",
+        "features/blog-posts/server/actions/update-blog-post.ts",
+        "features/blog-posts/server/db/blog-post-repository.test.ts",
+        "features/blog-posts/server/db/blog-post-repository.ts",
+        "features/blog-posts/server/db/schema.ts",
+        "features/blog-posts/server/permissions.test.ts",
+        "features/blog-posts/server/permissions.ts",
+        "tests/e2e/blog-posts.e2e.ts"
+      ])
+    );
+    expect(existsSync(path.join(rootDir, "features/blog-posts"))).toBe(false);
+    expect(read("data/db/schema.ts")).not.toContain("BlogPostTable");
+  });
+
+  test("writes the module and registers its table, migration and page", async () => {
+    await writeChanges(rootDir, await planFeature({ feature: "blog-posts", rootDir }));
+
+    expect(read("features/blog-posts/server/permissions.ts")).toContain("blogPost: {");
+    expect(read("features/blog-posts/server/db/blog-post-repository.ts")).toContain('db.selectFrom("blogPost")');
+    expect(read("data/db/migrations/0002_create_blog_post.ts")).toContain('.createTable("blog_post")');
+    expect(read("app/blog-posts/page.tsx")).toContain('redirect(getSignInUrl("/blog-posts"))');
+
+    const schema = read("data/db/schema.ts");
+    expect(schema).toContain('import type { BlogPostTable } from "~/features/blog-posts/server/db/schema";');
+    expect(schema).toContain("export interface Database {\n  blogPost: BlogPostTable;\n  note: NoteTable;\n}");
+
+    const migrations = read("data/db/migrations/index.ts");
+    expect(migrations).toContain('import * as createBlogPost from "~/data/db/migrations/0002_create_blog_post";');
+    expect(migrations).toContain('  "0001_create_note": createNote,\n  "0002_create_blog_post": createBlogPost\n};');
+
+    expect(read("lib/auth.ts")).toBe('const DEFAULT_PROTECTED_PATHS = ["/notes", "/blog-posts"];\n');
+  });
+
+  test("numbers migrations after the last one", async () => {
+    await writeChanges(rootDir, await planFeature({ feature: "blog-posts", rootDir }));
+    const changes = await planFeature({ feature: "tags", rootDir });
+
+    expect(changes.map(({ path }) => path)).toContain("data/db/migrations/0003_create_tag.ts");
+  });
+
+  test("refuses to overwrite an existing feature", async () => {
+    mkdirSync(path.join(rootDir, "features/example-feature"), { recursive: true });
+
+    await expect(planFeature({ feature: "example-feature", rootDir })).rejects.toThrow(
+      "The features/example-feature directory already exists"
+    );
+  });
+
+  test("refuses to register a table twice", async () => {
+    await expect(planFeature({ feature: "notes", rootDir })).rejects.toThrow(
+      "The note table is already registered in data/db/schema.ts"
+    );
+  });
+});
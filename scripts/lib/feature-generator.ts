@@ -0,0 +1,244 @@
+import { existsSync } from "node:fs";
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  createActionTemplate,
+  dbSchemaTemplate,
+  deleteActionTemplate,
+  e2eTemplate,
+  type FeatureNames,
+  listComponentTemplate,
+  listStoriesTemplate,
+  migrationTemplate,
+  pageTemplate,
+  permissionsTemplate,
+  permissionsTestTemplate,
+  repositoryTemplate,
+  repositoryTestTemplate,
+  schemaTemplate,
+  updateActionTemplate
+} from "~/scripts/lib/feature-templates";
+
+/**
+ * A file the generator creates, or updates to register the feature.
+ */
+export interface FileChange {
+  content: string;
+  /** Path relative to the project root. */
+  path: string;
+  /** Content before the update. */
+  previous?: string;
+  type: "create" | "update";
+}
+
+export interface PlanFeatureOptions {
+  /** Feature name in kebab-case, also the route of its page, e.g. `blog-posts`. */
+  feature: string;
+  /** Resource name in kebab-case, the singular of the feature by default, e.g. `blog-post`. */
+  resource?: string;
+  rootDir: string;
+}
+
+const KEBAB_CASE = /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/;
+
+const DATABASE_SCHEMA_FILE = "data/db/schema.ts";
+const MIGRATIONS_DIR = "data/db/migrations";
+const MIGRATIONS_FILE = `${MIGRATIONS_DIR}/index.ts`;
+const AUTH_FILE = "lib/auth.ts";
+
+function toPascalCase(kebab: string) {
+  return kebab
+    .split("-")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
+}
+
+function toCamelCase(kebab: string) {
+  const pascal = toPascalCase(kebab);
+
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+function singularize(kebab: string) {
+  if (kebab.endsWith("ies")) {
+    return `${kebab.slice(0, -3)}y`;
+  }
+
+  return kebab.endsWith("s") && !kebab.endsWith("ss") ? kebab.slice(0, -1) : kebab;
+}
+
+/**
+ * Derives the names used across the generated files from the feature and resource names.
+ *
+ * @example
+ * getFeatureNames("blog-posts"); // { camel: "blogPost", feature: "blog-posts", table: "blog_post", ... }
+ */
+export function getFeatureNames(feature: string, resource = singularize(feature)): FeatureNames {
+  for (const [label, name] of [
+    ["Feature", feature],
+    ["Resource", resource]
+  ]) {
+    if (!KEBAB_CASE.test(name ?? "")) {
+      throw new Error(`${label} name "${name}" must be kebab-case, e.g. "blog-posts"`);
+    }
+  }
+
+  return {
+    camel: toCamelCase(resource),
+    feature,
+    kebab: resource,
+    label: resource.replaceAll("-", " "),
+    pascal: toPascalCase(resource),
+    pluralPascal: toPascalCase(feature),
+    table: resource.replaceAll("-", "_")
+  };
+}
+
+async function getNextMigrationNumber(rootDir: string) {
+  const files = await readdir(path.join(rootDir, MIGRATIONS_DIR));
+  const numbers = files.map((file) => Number(/^(\d{4})_/.exec(file)?.[1] ?? 0));
+
+  return String(Math.max(0, ...numbers) + 1).padStart(4, "0");
+}
+
+function insertImport(source: string, line: string, file: string) {
+  const lines = source.split("\n");
+  const specifier = (importLine: string) => /from "(.+)";$/.exec(importLine)?.[1] ?? "";
+  const aliasImports = lines.flatMap((existing, index) =>
+    existing.startsWith("import ") && specifier(existing).startsWith("~/") ? [index] : []
+  );
+  if (aliasImports.length === 0) {
+    throw new Error(`Could not find the imports of ${file}`);
+  }
+
+  // Keeps the imports sorted the way Biome does
+  const before = aliasImports.find((index) => specifier(lines[index] ?? "") > specifier(line));
+  lines.splice(before ?? (aliasImports.at(-1) ?? 0) + 1, 0, line);
+
+  return lines.join("\n");
+}
+
+function registerTable(source: string, names: FeatureNames) {
+  const start = source.indexOf("export interface Database {");
+  const end = source.indexOf("\n}", start);
+  if (start === -1 || end === -1) {
+    throw new Error(`Could not find the Database interface in ${DATABASE_SCHEMA_FILE}`);
+  }
+
+  const lines = source.slice(start, end).split("\n");
+  const members = lines.slice(1);
+  if (members.some((member) => member.trim().startsWith(`${names.camel}:`))) {
+    throw new Error(`The ${names.camel} table is already registered in ${DATABASE_SCHEMA_FILE}`);
+  }
+  members.push(`  ${names.camel}: ${names.pascal}Table;`);
+  members.sort((a, b) => a.trim().localeCompare(b.trim()));
+
+  const updated = source.slice(0, start) + [lines[0], ...members].join("\n") + source.slice(end);
+
+  return insertImport(
+    updated,
+    `import type { ${names.pascal}Table } from "~/features/${names.feature}/server/db/schema";`,
+    DATABASE_SCHEMA_FILE
+  );
+}
+
+function registerMigration(source: string, names: FeatureNames, migrationName: string) {
+  const start = source.indexOf("export const migrations");
+  const end = source.indexOf("\n};", start);
+  if (start === -1 || end === -1) {
+    throw new Error(`Could not find the migrations record in ${MIGRATIONS_FILE}`);
+  }
+
+  const entries = source.slice(start, end);
+  const separator = entries.trimEnd().endsWith("{") ? "" : ",";
+  const updated = `${source.slice(0, start)}${entries}${separator}\n  "${migrationName}": create${names.pascal}${source.slice(end)}`;
+
+  return insertImport(
+    updated,
+    `import * as create${names.pascal} from "~/${MIGRATIONS_DIR}/${migrationName}";`,
+    MIGRATIONS_FILE
+  );
+}
+
+function registerProtectedPath(source: string, names: FeatureNames) {
+  const match = /const DEFAULT_PROTECTED_PATHS = \[(.*)\];/.exec(source);
+  if (!match) {
+    throw new Error(`Could not find DEFAULT_PROTECTED_PATHS in ${AUTH_FILE}`);
+  }
+
+  const paths = (match[1] ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+  const route = `"/${names.feature}"`;
+  if (paths.includes(route)) {
+    return source;
+  }
+
+  return source.replace(match[0], `const DEFAULT_PROTECTED_PATHS = [${[...paths, route].join(", ")}];`);
+}
+
+/**
+ * Plans the files of a new feature module without touching the disk: the module in `features/<feature>`,
+ * its page, migration and e2e test, and the updates registering it in the database schema, the migrations
+ * and the protected paths.
+ */
+export async function planFeature({ feature, resource, rootDir }: PlanFeatureOptions) {
+  const names = getFeatureNames(feature, resource);
+  if (existsSync(path.join(rootDir, "features", feature))) {
+    throw new Error(`The features/${feature} directory already exists`);
+  }
+  if (existsSync(path.join(rootDir, "app", feature))) {
+    throw new Error(`The app/${feature} route already exists`);
+  }
+
+  const migrationName = `${await getNextMigrationNumber(rootDir)}_create_${names.table}`;
+  const featureDir = `features/${feature}`;
+  const read = (file: string) => readFile(path.join(rootDir, file), "utf8");
+
+  const created: Array<[string, string]> = [
+    [`${featureDir}/components/${names.kebab}-list.stories.tsx`, listStoriesTemplate(names)],
+    [`${featureDir}/components/${names.kebab}-list.tsx`, listComponentTemplate(names)],
+    [`${featureDir}/schemas/${names.kebab}.ts`, schemaTemplate(names)],
+    [`${featureDir}/server/actions/create-${names.kebab}.ts`, createActionTemplate(names)],
+    [`${featureDir}/server/actions/delete-${names.kebab}.ts`, deleteActionTemplate(names)],
+    [`${featureDir}/server/actions/update-${names.kebab}.ts`, updateActionTemplate(names)],
+    [`${featureDir}/server/db/${names.kebab}-repository.test.ts`, repositoryTestTemplate(names)],
+    [`${featureDir}/server/db/${names.kebab}-repository.ts`, repositoryTemplate(names)],
+    [`${featureDir}/server/db/schema.ts`, dbSchemaTemplate(names, migrationName)],
+    [`${featureDir}/server/permissions.test.ts`, permissionsTestTemplate(names)],
+    [`${featureDir}/server/permissions.ts`, permissionsTemplate(names)],
+    [`app/${feature}/page.tsx`, pageTemplate(names)],
+    [`${MIGRATIONS_DIR}/${migrationName}.ts`, migrationTemplate(names)],
+    [`tests/e2e/${feature}.e2e.ts`, e2eTemplate(names)]
+  ];
+
+  const [databaseSchema, migrations, auth] = await Promise.all([
+    read(DATABASE_SCHEMA_FILE),
+    read(MIGRATIONS_FILE),
+    read(AUTH_FILE)
+  ]);
+  const updated: Array<[string, string, string]> = [
+    [DATABASE_SCHEMA_FILE, databaseSchema, registerTable(databaseSchema, names)],
+    [MIGRATIONS_FILE, migrations, registerMigration(migrations, names, migrationName)],
+    [AUTH_FILE, auth, registerProtectedPath(auth, names)]
+  ];
+
+  return [
+    ...created.map(([file, content]): FileChange => ({ content, path: file, type: "create" })),
+    ...updated
+      .filter(([, previous, content]) => previous !== content)
+      .map(([file, previous, content]): FileChange => ({ content, path: file, previous, type: "update" }))
+  ];
+}
+
+/**
+ * Writes planned changes, creating missing directories.
+ */
+export async function writeChanges(rootDir: string, changes: Array<FileChange>) {
+  for (const change of changes) {
+    const file = path.join(rootDir, change.path);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, change.content);
+  }
+}
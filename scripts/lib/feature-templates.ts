@@ -0,0 +1,574 @@
+/**
+ * Names of a generated feature and its resource, derived by `getFeatureNames`.
+ */
+export interface FeatureNames {
+  /** Resource in camelCase, e.g. `blogPost`; also its name in the permission policy and the `Database` interface. */
+  camel: string;
+  /** Directory and route of the feature, e.g. `blog-posts`. */
+  feature: string;
+  /** Resource in kebab-case for file names, e.g. `blog-post`. */
+  kebab: string;
+  /** Resource in words for messages, e.g. `blog post`. */
+  label: string;
+  /** Resource in PascalCase, e.g. `BlogPost`. */
+  pascal: string;
+  /** Feature in PascalCase, e.g. `BlogPosts`. */
+  pluralPascal: string;
+  /** Table name in SQL, e.g. `blog_post`. */
+  table: string;
+}
+
+export function schemaTemplate({ camel, label, pascal }: FeatureNames) {
+  return `import { z } from "zod";
+
+/**
+ * ${capitalize(label)} form, shared by \`create${pascal}\` and \`update${pascal}\` and validated in the browser by \`useActionForm\`.
+ */
+export const ${camel}Schema = z.object({
+  name: z.string().trim().min(1, "Enter a name").max(120, "Keep the name under 120 characters")
+});
+
+export type ${pascal}Input = z.input<typeof ${camel}Schema>;
+
+export const update${pascal}Schema = ${camel}Schema.extend({
+  id: z.uuid()
+});
+
+export type Update${pascal}Input = z.input<typeof update${pascal}Schema>;
+
+export const delete${pascal}Schema = z.object({
+  id: z.uuid()
+});
+
+export type Delete${pascal}Input = z.input<typeof delete${pascal}Schema>;
+`;
+}
+
+export function dbSchemaTemplate({ label, pascal, table }: FeatureNames, migrationName: string) {
+  return `import type { ColumnType, Generated, Insertable, Selectable, Updateable } from "kysely";
+
+/**
+ * The \`${table}\` table, created by \`data/db/migrations/${migrationName}.ts\`. Columns are snake_case
+ * in SQL and camelCase here, see \`CamelCasePlugin\` in \`lib/db.ts\`.
+ */
+export interface ${pascal}Table {
+  /** Id of the user who created the ${label}. */
+  authorId: ColumnType<string, string, never>;
+  createdAt: ColumnType<Date, never, never>;
+  id: Generated<string>;
+  name: string;
+  /** Set by \`${pascal}Repository.update\`. */
+  updatedAt: ColumnType<Date, never, Date>;
+}
+
+export type ${pascal} = Selectable<${pascal}Table>;
+export type New${pascal} = Insertable<${pascal}Table>;
+export type ${pascal}Update = Updateable<${pascal}Table>;
+`;
+}
+
+export function migrationTemplate({ table }: FeatureNames) {
+  return `import { type Kysely, sql } from "kysely";
+
+// Migrations are frozen in time, so they take an untyped database instead of the current \`Database\`
+// biome-ignore lint/suspicious/noExplicitAny: see above
+export async function up(db: Kysely<any>) {
+  await db.schema
+    .createTable("${table}")
+    .addColumn("id", "uuid", (column) => column.primaryKey().defaultTo(sql\`gen_random_uuid()\`))
+    .addColumn("author_id", "text", (column) => column.notNull())
+    .addColumn("name", "text", (column) => column.notNull())
+    .addColumn("created_at", "timestamptz", (column) => column.notNull().defaultTo(sql\`now()\`))
+    .addColumn("updated_at", "timestamptz", (column) => column.notNull().defaultTo(sql\`now()\`))
+    .execute();
+
+  await db.schema.createIndex("${table}_author_id_index").on("${table}").column("author_id").execute();
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: see above
+export async function down(db: Kysely<any>) {
+  await db.schema.dropTable("${table}").execute();
+}
+`;
+}
+
+export function repositoryTemplate({ camel, feature, pascal, table }: FeatureNames) {
+  return `import type { Kysely } from "kysely";
+${namedImport([`type New${pascal}`, `type ${pascal}Update`], `~/features/${feature}/server/db/schema`)}
+import { type Database, getDb } from "~/lib/db";
+
+export interface List${pascal}Options {
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Data access of the \`${table}\` table. Permission checks are left to the callers, see \`server/permissions.ts\`.
+ */
+export function create${pascal}Repository(db: Kysely<Database> = getDb()) {
+  return {
+    create(values: New${pascal}) {
+      return db.insertInto("${camel}").values(values).returningAll().executeTakeFirstOrThrow();
+    },
+
+    /**
+     * @returns Whether the row existed
+     */
+    async delete(id: string) {
+      const { numDeletedRows } = await db.deleteFrom("${camel}").where("id", "=", id).executeTakeFirstOrThrow();
+
+      return numDeletedRows > 0n;
+    },
+
+    async findById(id: string) {
+      return (await db.selectFrom("${camel}").selectAll().where("id", "=", id).executeTakeFirst()) ?? null;
+    },
+
+    /**
+     * Lists the rows of an author, newest first.
+     */
+    listByAuthor(authorId: string, { limit = 50, offset = 0 }: List${pascal}Options = {}) {
+      return db
+        .selectFrom("${camel}")
+        .selectAll()
+        .where("authorId", "=", authorId)
+        .orderBy("createdAt", "desc")
+        .orderBy("id")
+        .limit(limit)
+        .offset(offset)
+        .execute();
+    },
+
+    /**
+     * @returns The updated row, \`null\` when it does not exist
+     */
+    async update(id: string, changes: Omit<${pascal}Update, "updatedAt">) {
+      return (
+        (await db
+          .updateTable("${camel}")
+          .set({ ...changes, updatedAt: new Date() })
+          .where("id", "=", id)
+          .returningAll()
+          .executeTakeFirst()) ?? null
+      );
+    }
+  };
+}
+
+export type ${pascal}Repository = ReturnType<typeof create${pascal}Repository>;
+`;
+}
+
+export function repositoryTestTemplate({ camel, feature, kebab, pascal }: FeatureNames) {
+  return `import { create${pascal}Repository } from "~/features/${feature}/server/db/${kebab}-repository";
+import { createDatabase, IN_MEMORY_DATABASE_URL, migrateToLatest } from "~/lib/db";
+
+const db = createDatabase(IN_MEMORY_DATABASE_URL);
+const repository = create${pascal}Repository(db);
+
+// Starting PGlite takes a few seconds
+beforeAll(async () => {
+  await migrateToLatest(db);
+}, 30_000);
+
+beforeEach(async () => {
+  await db.deleteFrom("${camel}").execute();
+});
+
+afterAll(async () => {
+  await db.destroy();
+});
+
+describe("create${pascal}Repository", () => {
+  test("creates, updates and deletes rows", async () => {
+    const created = await repository.create({ authorId: "user-1", name: "First" });
+    expect(await repository.findById(created.id)).toEqual(created);
+
+    expect(await repository.update(created.id, { name: "Renamed" })).toMatchObject({ name: "Renamed" });
+
+    expect(await repository.delete(created.id)).toBe(true);
+    expect(await repository.findById(created.id)).toBeNull();
+  });
+
+  test("lists the rows of an author, newest first", async () => {
+    const first = await repository.create({ authorId: "user-1", name: "First" });
+    await repository.create({ authorId: "user-2", name: "Someone else's" });
+    const second = await repository.create({ authorId: "user-1", name: "Second" });
+
+    expect((await repository.listByAuthor("user-1")).map(({ id }) => id)).toEqual([second.id, first.id]);
+  });
+});
+`;
+}
+
+export function permissionsTemplate({ camel, label }: FeatureNames) {
+  return `import { createPermissions } from "~/lib/permissions";
+
+/**
+ * Who may do what with the feature's resources: admins manage every ${label}, members create ${label}s and manage
+ * their own, viewers only read their own.
+ */
+export const { assertCan, can } = createPermissions({
+  resources: {
+    ${camel}: ["create", "read", "update", "delete"]
+  },
+  roles: {
+    admin: { ${camel}: { create: true, delete: true, read: true, update: true } },
+    member: { ${camel}: { create: true, delete: "own", read: "own", update: "own" } },
+    viewer: { ${camel}: { read: "own" } }
+  }
+});
+`;
+}
+
+export function permissionsTestTemplate({ camel, feature, label }: FeatureNames) {
+  return `import { can } from "~/features/${feature}/server/permissions";
+
+const users = {
+  admin: { id: "admin-1", roles: ["admin"] },
+  member: { id: "member-1", roles: ["member"] },
+  viewer: { id: "viewer-1", roles: ["viewer"] }
+};
+
+const own = (role: keyof typeof users) => ({ ownerId: users[role].id, type: "${camel}" as const });
+const others = { ownerId: "someone-else", type: "${camel}" as const };
+
+describe("${label} permissions", () => {
+  test.each([
+    // role, action, own ${label}, someone else's ${label}
+    ["admin", "create", true, true],
+    ["admin", "read", true, true],
+    ["admin", "update", true, true],
+    ["admin", "delete", true, true],
+    ["member", "create", true, true],
+    ["member", "read", true, false],
+    ["member", "update", true, false],
+    ["member", "delete", true, false],
+    ["viewer", "create", false, false],
+    ["viewer", "read", true, false],
+    ["viewer", "update", false, false],
+    ["viewer", "delete", false, false]
+  ] as const)("%s may %s: own %s, others %s", (role, action, ownResult, othersResult) => {
+    expect(can(users[role], action, own(role))).toBe(ownResult);
+    expect(can(users[role], action, others)).toBe(othersResult);
+  });
+
+  test("allows nothing to anonymous users", () => {
+    for (const action of ["create", "read", "update", "delete"] as const) {
+      expect(can(null, action, "${camel}")).toBe(false);
+    }
+  });
+});
+`;
+}
+
+export function createActionTemplate({ camel, feature, kebab, pascal }: FeatureNames) {
+  return `"use server";
+
+import { revalidatePath } from "next/cache";
+import { ${camel}Schema } from "~/features/${feature}/schemas/${kebab}";
+import { create${pascal}Repository } from "~/features/${feature}/server/db/${kebab}-repository";
+import { assertCan } from "~/features/${feature}/server/permissions";
+import { createAction } from "~/lib/action";
+import { getCurrentUser } from "~/lib/auth";
+
+export const create${pascal} = createAction({
+  handler: async (input) => {
+    const author = assertCan(await getCurrentUser(), "create", "${camel}");
+    const created = await create${pascal}Repository().create({ ...input, authorId: author.id });
+
+    revalidatePath("/${feature}");
+
+    return created;
+  },
+  name: "${feature}.create-${kebab}",
+  schema: ${camel}Schema
+});
+`;
+}
+
+export function updateActionTemplate({ camel, feature, kebab, label, pascal }: FeatureNames) {
+  return `"use server";
+
+import { revalidatePath } from "next/cache";
+import { update${pascal}Schema } from "~/features/${feature}/schemas/${kebab}";
+import { create${pascal}Repository } from "~/features/${feature}/server/db/${kebab}-repository";
+import { assertCan } from "~/features/${feature}/server/permissions";
+import { createAction } from "~/lib/action";
+import { getCurrentUser } from "~/lib/auth";
+import { NotFoundError } from "~/lib/errors";
+
+export const update${pascal} = createAction({
+  handler: async ({ id, ...changes }) => {
+    const repository = create${pascal}Repository();
+    const existing = await repository.findById(id);
+    if (!existing) {
+      throw new NotFoundError("The ${label} does not exist");
+    }
+    assertCan(await getCurrentUser(), "update", { ownerId: existing.authorId, type: "${camel}" });
+
+    const updated = await repository.update(id, changes);
+    if (!updated) {
+      throw new NotFoundError("The ${label} does not exist");
+    }
+
+    revalidatePath("/${feature}");
+
+    return updated;
+  },
+  name: "${feature}.update-${kebab}",
+  schema: update${pascal}Schema
+});
+`;
+}
+
+export function deleteActionTemplate({ camel, feature, kebab, label, pascal }: FeatureNames) {
+  return `"use server";
+
+import { revalidatePath } from "next/cache";
+import { delete${pascal}Schema } from "~/features/${feature}/schemas/${kebab}";
+import { create${pascal}Repository } from "~/features/${feature}/server/db/${kebab}-repository";
+import { assertCan } from "~/features/${feature}/server/permissions";
+import { createAction } from "~/lib/action";
+import { getCurrentUser } from "~/lib/auth";
+import { NotFoundError } from "~/lib/errors";
+
+export const delete${pascal} = createAction({
+  handler: async ({ id }) => {
+    const repository = create${pascal}Repository();
+    const existing = await repository.findById(id);
+    if (!existing) {
+      throw new NotFoundError("The ${label} does not exist");
+    }
+    assertCan(await getCurrentUser(), "delete", { ownerId: existing.authorId, type: "${camel}" });
+
+    await repository.delete(id);
+    revalidatePath("/${feature}");
+
+    return { id };
+  },
+  name: "${feature}.delete-${kebab}",
+  schema: delete${pascal}Schema
+});
+`;
+}
+
+export function listComponentTemplate({ camel, feature, kebab, label, pascal }: FeatureNames) {
+  return `"use client";
+
+import { Button, Field, FieldError, FieldGroup, FieldLabel, Input } from "@szum-tech/design-system";
+import * as React from "react";
+${namedImport([`type Delete${pascal}Input`, `type ${pascal}Input`, `${camel}Schema`], `~/features/${feature}/schemas/${kebab}`)}
+import type { ${pascal} } from "~/features/${feature}/server/db/schema";
+import type { ActionResult } from "~/lib/action";
+import { useActionForm } from "~/lib/use-action-form";
+
+export interface ${pascal}ListProps {
+  /** The \`create${pascal}\` server action, passed in by the page so stories can replace it. */
+  create${pascal}: (input: ${pascal}Input) => Promise<ActionResult<${pascal}>>;
+  /** The \`delete${pascal}\` server action. */
+  delete${pascal}: (input: Delete${pascal}Input) => Promise<ActionResult<{ id: string }>>;
+  items: Array<Pick<${pascal}, "id" | "name">>;
+}
+
+export function ${pascal}List({ create${pascal}, delete${pascal}, items }: ${pascal}ListProps) {
+  const [deleteError, setDeleteError] = React.useState<string>();
+  const { formError, formState, onSubmit, register, reset } = useActionForm({
+    action: create${pascal},
+    defaultValues: { name: "" },
+    onSuccess: () => {
+      reset();
+    },
+    schema: ${camel}Schema
+  });
+
+  async function onDelete(id: string) {
+    setDeleteError(undefined);
+    const result = await delete${pascal}({ id }).catch(() => null);
+    if (!result?.ok) {
+      setDeleteError(result?.formError ?? "The ${label} could not be deleted, please try again");
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-8">
+      <form aria-label="New ${label}" noValidate onSubmit={onSubmit}>
+        <FieldGroup>
+          <Field>
+            <FieldLabel htmlFor="${kebab}-name">Name</FieldLabel>
+            <Input id="${kebab}-name" invalid={!!formState.errors.name} {...register("name")} />
+            <FieldError errors={[formState.errors.name]} />
+          </Field>
+          {formError ? <FieldError>{formError}</FieldError> : null}
+          <Button loading={formState.isSubmitting} type="submit">
+            Add ${label}
+          </Button>
+        </FieldGroup>
+      </form>
+
+      {deleteError ? <FieldError>{deleteError}</FieldError> : null}
+
+      {items.length > 0 ? (
+        <ul aria-label="${capitalize(label)}s" className="flex flex-col gap-2">
+          {items.map((item) => (
+            <li className="flex items-center justify-between gap-4" key={item.id}>
+              {item.name}
+              <Button
+                aria-label={\`Delete \${item.name}\`}
+                onClick={() => onDelete(item.id)}
+                size="sm"
+                type="button"
+                variant="outline"
+              >
+                Delete
+              </Button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-muted-foreground">Nothing here yet.</p>
+      )}
+    </div>
+  );
+}
+`;
+}
+
+export function listStoriesTemplate({ feature, kebab, label, pascal }: FeatureNames) {
+  return `import { expect, fn, waitFor } from "storybook/test";
+import preview from "~/.storybook/preview";
+import { ${pascal}List, type ${pascal}ListProps } from "./${kebab}-list";
+
+const ITEMS = [
+  { id: "00000000-0000-4000-8000-000000000001", name: "First" },
+  { id: "00000000-0000-4000-8000-000000000002", name: "Second" }
+];
+
+const meta = preview.meta({
+  args: {
+    create${pascal}: fn<${pascal}ListProps["create${pascal}"]>(async ({ name }) => ({
+      data: {
+        authorId: "user-1",
+        createdAt: new Date(),
+        id: "00000000-0000-4000-8000-000000000003",
+        name,
+        updatedAt: new Date()
+      },
+      ok: true
+    })),
+    delete${pascal}: fn<${pascal}ListProps["delete${pascal}"]>(async ({ id }) => ({ data: { id }, ok: true })),
+    items: ITEMS
+  },
+  component: ${pascal}List,
+  decorators: [
+    (Story) => (
+      <div className="mx-auto max-w-2xl p-8">
+        <Story />
+      </div>
+    )
+  ],
+  parameters: {
+    layout: "fullscreen",
+    nextjs: { appDirectory: true }
+  },
+  title: "Features/${titleCase(feature)}/${pascal} List"
+});
+
+export const Default = meta.story();
+
+export const Empty = meta.story({ args: { items: [] } });
+
+Default.test("Adds a ${label}", async ({ args, canvas, userEvent }) => {
+  await userEvent.type(canvas.getByLabelText("Name"), "Third");
+  await userEvent.click(canvas.getByRole("button", { name: "Add ${label}" }));
+
+  await waitFor(() => expect(args.create${pascal}).toHaveBeenCalledWith({ name: "Third" }));
+});
+
+Default.test("Deletes a ${label}", async ({ args, canvas, userEvent }) => {
+  await userEvent.click(canvas.getByRole("button", { name: "Delete First" }));
+
+  await waitFor(() => expect(args.delete${pascal}).toHaveBeenCalledWith({ id: "00000000-0000-4000-8000-000000000001" }));
+});
+
+Empty.test("Shows the empty state", async ({ canvas }) => {
+  await expect(canvas.getByText("Nothing here yet.")).toBeVisible();
+});
+`;
+}
+
+export function pageTemplate({ feature, kebab, pascal, pluralPascal }: FeatureNames) {
+  return `import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { ${pascal}List } from "~/features/${feature}/components/${kebab}-list";
+import { create${pascal} } from "~/features/${feature}/server/actions/create-${kebab}";
+import { delete${pascal} } from "~/features/${feature}/server/actions/delete-${kebab}";
+import { create${pascal}Repository } from "~/features/${feature}/server/db/${kebab}-repository";
+import { getCurrentUser, getSignInUrl } from "~/lib/auth";
+
+export const metadata: Metadata = {
+  robots: { follow: false, index: false },
+  title: "${titleCase(feature)}"
+};
+
+export default async function ${pluralPascal}Page() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect(getSignInUrl("/${feature}"));
+  }
+
+  const items = await create${pascal}Repository().listByAuthor(user.id);
+
+  return (
+    <main className="container mx-auto flex min-h-screen max-w-2xl flex-col gap-8 px-4 py-16">
+      <h1 className="text-heading-h2">${titleCase(feature)}</h1>
+      <${pascal}List create${pascal}={create${pascal}} delete${pascal}={delete${pascal}} items={items} />
+    </main>
+  );
+}
+`;
+}
+
+export function e2eTemplate({ feature }: FeatureNames) {
+  return `import { expect, test } from "@playwright/test";
+
+/**
+ * ${titleCase(feature)} Tests
+ *
+ * Pages: app/${feature}/page.tsx
+ * Feature: features/${feature}
+ */
+
+test.describe("${titleCase(feature)}", () => {
+  test("redirects anonymous visitors to the sign-in page", async ({ page }) => {
+    await page.goto("/${feature}");
+
+    await expect(page).toHaveURL("/sign-in?callbackUrl=%2F${feature}");
+  });
+});
+`;
+}
+
+/**
+ * Sorts the specifiers of an import the way Biome does, as their order depends on the names.
+ */
+function namedImport(specifiers: Array<string>, source: string) {
+  const name = (specifier: string) => specifier.replace(/^type /, "");
+  const sorted = specifiers.toSorted((a, b) => {
+    const [nameA, nameB] = [name(a), name(b)];
+    return nameA.toLowerCase().localeCompare(nameB.toLowerCase()) || (nameA < nameB ? -1 : 1);
+  });
+  const typeOnly = sorted.every((specifier) => specifier.startsWith("type "));
+
+  return typeOnly
+    ? `import type { ${sorted.map(name).join(", ")} } from "${source}";`
+    : `import { ${sorted.join(", ")} } from "${source}";`;
+}
+
+function capitalize(value: string) {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function titleCase(kebab: string) {
+  return kebab.split("-").map(capitalize).join(" ");
+}
@@ -0,0 +1,73 @@
+import { expect, test } from "@playwright/test";
+
+/**
+ * API Tests for Client Error Ingestion Endpoint
+ *
+ * Route Handler: app/api/client-errors/route.ts
+ * Methods: POST
+ * Authentication: Not required (rate limited per client IP)
+ */
+
+const ENDPOINT = "/api/client-errors";
+
+const report = {
+  digest: "2894021587",
+  message: "Cannot read properties of undefined (reading 'map')",
+  name: "TypeError",
+  source: "error-boundary",
+  stack: "TypeError: Cannot read properties of undefined (reading 'map')\n    at Page",
+  url: "http://localhost:3000/"
+};
+
+test.describe("API: Client Errors", () => {
+  test("accepts a valid report", async ({ request }) => {
+    const response = await request.post(ENDPOINT, { data: report, headers: { "x-forwarded-for": "198.51.100.1" } });
+
+    expect(response.status()).toBe(204);
+  });
+
+  test("rejects invalid reports", async ({ request }) => {
+    const response = await request.post(ENDPOINT, {
+      data: { ...report, source: "server" },
+      headers: { "x-forwarded-for": "198.51.100.2" }
+    });
+
+    expect(response.status()).toBe(400);
+    expect(response.headers()["content-type"]).toBe("application/problem+json");
+    expect(await response.json()).toMatchObject({
+      code: "validation_failed",
+      detail: "Invalid report",
+      issues: [expect.objectContaining({ path: "source" })],
+      status: 400
+    });
+  });
+
+  test("rejects malformed JSON", async ({ request }) => {
+    const response = await request.post(ENDPOINT, {
+      data: "{not json",
+      headers: { "content-type": "application/json", "x-forwarded-for": "198.51.100.3" }
+    });
+
+    expect(response.status()).toBe(400);
+  });
+
+  test("rejects oversized reports", async ({ request }) => {
+    const response = await request.post(ENDPOINT, {
+      data: { ...report, stack: "x".repeat(20 * 1024) },
+      headers: { "x-forwarded-for": "198.51.100.4" }
+    });
+
+    expect(response.status()).toBe(413);
+  });
+
+  test("rate limits a single client", async ({ request }) => {
+    const headers = { "x-forwarded-for": "198.51.100.5" };
+    const statuses: Array<number> = [];
+    for (let index = 0; index < 21; index++) {
+      statuses.push((await request.post(ENDPOINT, { data: report, headers })).status());
+    }
+
+    expect(statuses.slice(0, 20).every((status) => status === 204)).toBe(true);
+    expect(statuses[20]).toBe(429);
+  });
+});
@@ -0,0 +1,106 @@
+import { expect, test } from "@playwright/test";
+
+/**
+ * API Tests for the CORS Policy
+ *
+ * Proxy: proxy.ts, rules in lib/cors.ts
+ * Methods: OPTIONS (preflight), any
+ * Configuration: CORS_ALLOWED_ORIGINS of the web server in playwright.config.ts
+ */
+
+const FRONTEND = "http://frontend.test";
+
+test.describe("API: CORS", () => {
+  test.describe("Preflight", () => {
+    test("answers preflights of allowed origins", async ({ request }) => {
+      const response = await request.fetch("/api/client-errors", {
+        headers: {
+          "access-control-request-headers": "content-type",
+          "access-control-request-method": "POST",
+          origin: FRONTEND
+        },
+        method: "OPTIONS"
+      });
+      const headers = response.headers();
+
+      expect(response.status()).toBe(204);
+      expect(headers["access-control-allow-origin"]).toBe(FRONTEND);
+      expect(headers["access-control-allow-credentials"]).toBe("true");
+      expect(headers["access-control-allow-methods"]).toContain("POST");
+      expect(headers["access-control-allow-headers"]).toContain("Content-Type");
+      expect(headers["access-control-max-age"]).toBe("600");
+      expect(headers.vary).toContain("Origin");
+    });
+
+    test("allows subdomains of wildcard origins", async ({ request }) => {
+      const response = await request.fetch("/api/client-errors", {
+        headers: { "access-control-request-method": "POST", origin: "http://pr-42.preview.test" },
+        method: "OPTIONS"
+      });
+
+      expect(response.headers()["access-control-allow-origin"]).toBe("http://pr-42.preview.test");
+    });
+
+    test("does not allow other origins", async ({ request }) => {
+      const response = await request.fetch("/api/client-errors", {
+        headers: { "access-control-request-method": "POST", origin: "http://evil.test" },
+        method: "OPTIONS"
+      });
+
+      expect(response.status()).toBe(204);
+      expect(response.headers()["access-control-allow-origin"]).toBeUndefined();
+      expect(response.headers()["access-control-allow-credentials"]).toBeUndefined();
+    });
+
+    test("answers preflights of protected paths without a session", async ({ request }) => {
+      const response = await request.fetch("/api/auth/session", {
+        headers: { "access-control-request-method": "GET", origin: FRONTEND },
+        method: "OPTIONS"
+      });
+
+      expect(response.status()).toBe(204);
+      expect(response.headers()["access-control-allow-origin"]).toBe(FRONTEND);
+    });
+  });
+
+  test.describe("Requests", () => {
+    test("lets allowed origins read responses and their headers", async ({ request }) => {
+      const response = await request.get("/api/auth/session", { headers: { origin: FRONTEND } });
+      const headers = response.headers();
+
+      expect(response.status()).toBe(200);
+      expect(headers["access-control-allow-origin"]).toBe(FRONTEND);
+      expect(headers["access-control-allow-credentials"]).toBe("true");
+      expect(headers["access-control-expose-headers"]).toContain("X-Request-ID");
+    });
+
+    test("lets allowed origins send mutating requests", async ({ request }) => {
+      const response = await request.post("/api/client-errors", {
+        data: { errors: [] },
+        headers: { origin: FRONTEND }
+      });
+
+      expect(response.status()).not.toBe(403);
+      expect(response.headers()["access-control-allow-origin"]).toBe(FRONTEND);
+    });
+
+    test("does not let other origins read responses", async ({ request }) => {
+      const response = await request.get("/api/auth/session", { headers: { origin: "http://evil.test" } });
+
+      expect(response.headers()["access-control-allow-origin"]).toBeUndefined();
+    });
+
+    test("lets any origin read the health checks", async ({ request }) => {
+      const response = await request.get("/api/health/live", { headers: { origin: "http://status.test" } });
+
+      expect(response.headers()["access-control-allow-origin"]).toBe("*");
+      expect(response.headers()["access-control-allow-credentials"]).toBeUndefined();
+    });
+
+    test("keeps pages same-origin", async ({ request }) => {
+      const response = await request.get("/", { headers: { origin: FRONTEND } });
+
+      expect(response.headers()["access-control-allow-origin"]).toBeUndefined();
+    });
+  });
+});
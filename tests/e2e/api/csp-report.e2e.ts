@@ -0,0 +1,64 @@
+import { expect, test } from "@playwright/test";
+
+/**
+ * API Tests for Content Security Policy Report Endpoint
+ *
+ * Route Handler: app/api/csp-report/route.ts
+ * Methods: POST
+ * Authentication: Not required (rate limited per client IP)
+ */
+
+const ENDPOINT = "/api/csp-report";
+
+const legacyReport = {
+  "csp-report": {
+    "blocked-uri": "inline",
+    "document-uri": "http://127.0.0.1:3000/",
+    "effective-directive": "script-src-elem",
+    "original-policy": "script-src 'self'"
+  }
+};
+
+test.describe("API: CSP Report", () => {
+  test("accepts legacy report-uri reports", async ({ request }) => {
+    const response = await request.post(ENDPOINT, {
+      data: JSON.stringify(legacyReport),
+      headers: { "content-type": "application/csp-report", "x-forwarded-for": "198.51.100.11" }
+    });
+
+    expect(response.status()).toBe(204);
+  });
+
+  test("accepts Reporting API batches", async ({ request }) => {
+    const response = await request.post(ENDPOINT, {
+      data: JSON.stringify([
+        {
+          body: { blockedURL: "https://evil.example.com/x.js", documentURL: "http://127.0.0.1:3000/" },
+          type: "csp-violation"
+        }
+      ]),
+      headers: { "content-type": "application/reports+json", "x-forwarded-for": "198.51.100.12" }
+    });
+
+    expect(response.status()).toBe(204);
+  });
+
+  test("rejects invalid reports", async ({ request }) => {
+    const response = await request.post(ENDPOINT, {
+      data: { "csp-report": { "blocked-uri": "inline" } },
+      headers: { "x-forwarded-for": "198.51.100.13" }
+    });
+
+    expect(response.status()).toBe(400);
+    expect(response.headers()["content-type"]).toBe("application/problem+json");
+  });
+
+  test("rejects oversized reports", async ({ request }) => {
+    const response = await request.post(ENDPOINT, {
+      data: { "csp-report": { ...legacyReport["csp-report"], "script-sample": "x".repeat(40 * 1024) } },
+      headers: { "x-forwarded-for": "198.51.100.14" }
+    });
+
+    expect(response.status()).toBe(413);
+  });
+});
@@ -3,7 +3,7 @@ import { expect, test } from "@playwright/test";
 /**
  * API Tests for Health Check Endpoint
  *
- * Route Handler: app/api/health/route.ts
+ * Route Handlers: app/api/health/route.ts, app/api/health/live/route.ts, app/api/health/ready/route.ts
  * Methods: GET
  * Authentication: Not required (public endpoint)
  *
@@ -13,6 +13,16 @@ import { expect, test } from "@playwright/test";
 
 const HEALTH_ENDPOINTS = ["/api/health", "/healthz", "/api/healthz", "/health", "/ping"];
 
+const HEALTH_ENDPOINT_MODES: Record<string, "liveness" | "readiness"> = {
+  "/api/health": "readiness",
+  "/api/health/live": "liveness",
+  "/api/health/ready": "readiness",
+  "/api/healthz": "liveness",
+  "/health": "readiness",
+  "/healthz": "liveness",
+  "/ping": "liveness"
+};
+
 test.describe("API: Health Check", () => {
   test.describe("Core Functionality", () => {
     test("returns 200 status with correct response structure", async ({ request }) => {
@@ -84,6 +94,36 @@ test.describe("API: Health Check", () => {
     }
   });
 
+  test.describe("Liveness and Readiness", () => {
+    for (const [endpoint, mode] of Object.entries(HEALTH_ENDPOINT_MODES)) {
+      test(`${endpoint} reports ${mode} checks`, async ({ request }) => {
+        const response = await request.get(endpoint);
+
+        expect(response.status()).toBe(200);
+        const body = await response.json();
+
+        expect(body).toMatchObject({ checks: expect.any(Object), mode, status: "ok" });
+      });
+    }
+
+    test("liveness includes the process probe breakdown", async ({ request }) => {
+      const response = await request.get("/api/health/live");
+      const body = await response.json();
+
+      expect(body.checks.process).toMatchObject({
+        critical: true,
+        durationMs: expect.any(Number),
+        status: "pass"
+      });
+    });
+
+    test("responses are not cached", async ({ request }) => {
+      const response = await request.get("/api/health/ready");
+
+      expect(response.headers()["cache-control"]).toContain("no-store");
+    });
+  });
+
   test.describe("HTTP Method Handling", () => {
     test("POST request returns 405 Method Not Allowed", async ({ request }) => {
       const response = await request.post("/api/health", { data: {} });
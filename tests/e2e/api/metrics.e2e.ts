@@ -0,0 +1,45 @@
+import { expect, test } from "@playwright/test";
+
+/**
+ * API Tests for Prometheus Metrics Endpoint
+ *
+ * Route Handler: app/api/metrics/route.ts
+ * Methods: GET
+ * Authentication: Bearer token when `METRICS_TOKEN` is set (not set in the e2e environment)
+ */
+
+const METRICS_ENDPOINTS = ["/api/metrics", "/metrics"];
+
+test.describe("API: Metrics", () => {
+  for (const endpoint of METRICS_ENDPOINTS) {
+    test(`${endpoint} serves metrics in the Prometheus text format`, async ({ request }) => {
+      const response = await request.get(endpoint);
+
+      expect(response.status()).toBe(200);
+      expect(response.headers()["content-type"]).toContain("text/plain");
+      expect(response.headers()["cache-control"]).toBe("no-store");
+
+      const body = await response.text();
+
+      expect(body).toContain("# TYPE process_cpu_user_seconds_total counter");
+      expect(body).toContain("# TYPE http_requests_total counter");
+      expect(body).toContain("# TYPE http_request_duration_seconds histogram");
+    });
+  }
+
+  test("counts handled route-handler requests", async ({ request }) => {
+    await request.get("/api/health/live");
+
+    const body = await (await request.get("/api/metrics")).text();
+
+    expect(body).toMatch(/http_requests_total\{method="GET",route="\/api\/health\/live",status_code="200"\} \d+/);
+  });
+
+  test("counts requests the proxy answers itself", async ({ request }) => {
+    await request.post("/api/notes", { data: {}, headers: { origin: "https://evil.example" } });
+
+    const body = await (await request.get("/api/metrics")).text();
+
+    expect(body).toMatch(/http_requests_total\{method="POST",route="\(proxy\)",status_code="403"\} \d+/);
+  });
+});
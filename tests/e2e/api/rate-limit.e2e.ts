@@ -0,0 +1,47 @@
+import { expect, test } from "@playwright/test";
+
+/**
+ * API Tests for Rate Limiting
+ *
+ * Proxy: proxy.ts, rules in lib/api-rate-limit.ts
+ * Methods: any
+ * Authentication: Not required (health checks and auth routes are limited per client IP)
+ *
+ * Every request uses an IP of its own, so the limits of the other tests are not affected.
+ */
+
+const ENDPOINT = "/api/health/live";
+
+test.describe("API: Rate Limiting", () => {
+  test("returns the rate limit headers", async ({ request }) => {
+    const response = await request.get(ENDPOINT, { headers: { "x-forwarded-for": "198.51.100.21" } });
+
+    expect(response.status()).toBe(200);
+    expect(response.headers()["ratelimit-limit"]).toBe("120");
+    expect(response.headers()["ratelimit-policy"]).toBe("120;w=60");
+    expect(response.headers()["ratelimit-remaining"]).toBe("119");
+    expect(Number(response.headers()["ratelimit-reset"])).toBeGreaterThan(0);
+  });
+
+  test("does not limit pages", async ({ request }) => {
+    const response = await request.get("/", { headers: { "x-forwarded-for": "198.51.100.22" } });
+
+    expect(response.headers()["ratelimit-limit"]).toBeUndefined();
+  });
+
+  test("rejects requests over the limit with a problem response", async ({ request }) => {
+    // The auth rule allows 60 requests a minute; a few more may pass when the loop crosses a window boundary
+    const headers = { "x-forwarded-for": "198.51.100.23" };
+    let response = await request.get("/api/auth/session", { headers });
+    for (let index = 0; index < 70 && response.status() !== 429; index++) {
+      response = await request.get("/api/auth/session", { headers });
+    }
+
+    expect(response.status()).toBe(429);
+    expect(response.headers()["content-type"]).toBe("application/problem+json");
+    expect(Number(response.headers()["retry-after"])).toBeGreaterThan(0);
+    expect(response.headers()["ratelimit-policy"]).toBe("60;w=60");
+    expect(response.headers()["ratelimit-remaining"]).toBe("0");
+    expect(await response.json()).toMatchObject({ code: "rate_limited", status: 429 });
+  });
+});
@@ -0,0 +1,110 @@
+import { expect, test } from "@playwright/test";
+
+/**
+ * Authentication Tests
+ *
+ * Pages: app/sign-in/page.tsx, app/account/page.tsx (protected by proxy.ts)
+ * Routes: app/api/auth/{signin,callback}/[provider], app/api/auth/signout, app/api/auth/session
+ * OAuth provider: tests/e2e/mock-oauth-server.ts, credentials: the demo user of playwright.config.ts
+ */
+
+const DEMO_EMAIL = "demo@example.com";
+const DEMO_PASSWORD = "demo-password";
+
+test.describe("Authentication", () => {
+  test("redirects anonymous visitors of protected pages to the sign-in page", async ({ page }) => {
+    await page.goto("/account?tab=profile");
+
+    await expect(page).toHaveURL("/sign-in?callbackUrl=%2Faccount%3Ftab%3Dprofile");
+    await expect(page.getByRole("heading", { level: 1, name: "Sign in" })).toBeVisible();
+  });
+
+  test("rejects wrong credentials", async ({ page }) => {
+    await page.goto("/sign-in");
+
+    await page.getByLabel("Email").fill("nobody@example.com");
+    await page.getByLabel("Password").fill("wrong-password");
+    await page.getByRole("button", { name: "Sign in" }).click();
+
+    await expect(page.getByText("The email or password is incorrect")).toBeVisible();
+    await expect(page).toHaveURL("/sign-in");
+  });
+
+  test("signs in with credentials, returns to the requested page and signs out", async ({ page }) => {
+    await page.goto("/account");
+
+    await page.getByLabel("Email").fill(DEMO_EMAIL);
+    await page.getByLabel("Password").fill(DEMO_PASSWORD);
+    await page.getByRole("button", { name: "Sign in" }).click();
+
+    await expect(page).toHaveURL("/account");
+    await expect(page.getByTestId("account-email")).toHaveText(DEMO_EMAIL);
+
+    const session = await page.request.get("/api/auth/session");
+    expect(await session.json()).toMatchObject({ user: { email: DEMO_EMAIL, roles: ["member"] } });
+
+    await page.getByRole("button", { name: "Sign out" }).click();
+
+    await expect(page).toHaveURL("/");
+    await page.goto("/account");
+    await expect(page).toHaveURL(/\/sign-in\?callbackUrl=%2Faccount$/);
+  });
+
+  test("signs in with the OAuth provider", async ({ page }, testInfo) => {
+    const email = `oauth.${testInfo.project.name}.${Date.now()}@example.com`;
+    await page.goto("/sign-in?callbackUrl=%2Faccount");
+
+    await page.getByRole("link", { name: "Continue with Mock Provider" }).click();
+    await expect(page.getByRole("heading", { name: "Mock OAuth Provider" })).toBeVisible();
+    await page.getByLabel("Email").fill(email);
+    await page.getByRole("button", { name: "Approve" }).click();
+
+    await expect(page).toHaveURL("/account");
+    await expect(page.getByTestId("account-email")).toHaveText(email);
+  });
+
+  test("shows an error when the sign-in is denied at the OAuth provider", async ({ page }) => {
+    await page.goto("/sign-in");
+
+    await page.getByRole("link", { name: "Continue with Mock Provider" }).click();
+    await page.getByRole("button", { name: "Deny" }).click();
+
+    await expect(page).toHaveURL(/\/sign-in\?.*error=AccessDenied/);
+    await expect(page.getByText("The sign-in was cancelled or denied at the provider.")).toBeVisible();
+  });
+
+  test("rejects OAuth callbacks without a sign-in in progress", async ({ page }) => {
+    await page.goto("/api/auth/callback/oauth?code=stolen&state=forged");
+
+    await expect(page).toHaveURL(/\/sign-in\?.*error=OAuthState/);
+  });
+});
+
+test.describe("API: Auth", () => {
+  test("returns no user without a session", async ({ request }) => {
+    const response = await request.get("/api/auth/session");
+
+    expect(response.status()).toBe(200);
+    expect(await response.json()).toEqual({ expiresAt: null, user: null });
+  });
+
+  test("returns 404 for unknown providers", async ({ request }) => {
+    const response = await request.get("/api/auth/signin/unknown", { maxRedirects: 0 });
+
+    expect(response.status()).toBe(404);
+    expect(response.headers()["content-type"]).toBe("application/problem+json");
+  });
+
+  test("redirects to the OAuth provider with PKCE", async ({ request }) => {
+    const response = await request.get("/api/auth/signin/oauth?callbackUrl=%2Faccount", {
+      maxRedirects: 0
+    });
+
+    expect(response.status()).toBe(307);
+    const location = new URL(response.headers().location ?? "");
+    expect(location.origin + location.pathname).toBe("http://127.0.0.1:3999/authorize");
+    expect(location.searchParams.get("code_challenge_method")).toBe("S256");
+    expect(location.searchParams.get("redirect_uri")).toBe("http://127.0.0.1:3000/api/auth/callback/oauth");
+    expect(response.headers()["set-cookie"]).toContain("auth.oauth-state=");
+  });
+});
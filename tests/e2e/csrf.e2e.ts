@@ -0,0 +1,60 @@
+import { expect, test } from "@playwright/test";
+
+/**
+ * CSRF Protection Tests
+ *
+ * Proxy: proxy.ts, checks: lib/csrf.ts
+ * Form: app/account/page.tsx (sign-out form posting to app/api/auth/signout)
+ */
+
+const ORIGIN = "http://127.0.0.1:3000";
+
+test.describe("CSRF protection", () => {
+  test("gives browsers visiting a page a token", async ({ request }) => {
+    await request.get("/");
+
+    const { cookies } = await request.storageState();
+    const cookie = cookies.find(({ name }) => name === "csrf.token");
+
+    expect(cookie?.value).toMatch(/^[\w-]{43}$/);
+    expect(cookie?.httpOnly).toBe(true);
+    expect(cookie?.sameSite).toBe("Lax");
+  });
+
+  test("rejects mutating requests of other origins", async ({ request }) => {
+    const response = await request.post("/api/auth/signout", {
+      headers: { origin: "https://evil.example" },
+      maxRedirects: 0
+    });
+
+    expect(response.status()).toBe(403);
+    expect(response.headers()["content-type"]).toBe("application/problem+json");
+    expect(await response.json()).toMatchObject({ code: "forbidden", detail: "Cross-site request rejected" });
+  });
+
+  test("rejects form posts without the token", async ({ request }) => {
+    await request.get("/");
+
+    const response = await request.post("/api/auth/signout", {
+      form: { reason: "none" },
+      headers: { origin: ORIGIN },
+      maxRedirects: 0
+    });
+
+    expect(response.status()).toBe(403);
+  });
+
+  test("accepts form posts with the token of the cookie", async ({ request }) => {
+    await request.get("/");
+    const { cookies } = await request.storageState();
+    const token = cookies.find(({ name }) => name === "csrf.token")?.value ?? "";
+
+    const response = await request.post("/api/auth/signout", {
+      form: { csrfToken: token },
+      headers: { origin: ORIGIN },
+      maxRedirects: 0
+    });
+
+    expect(response.status()).toBe(303);
+  });
+});
@@ -0,0 +1,166 @@
+import { createHash, randomBytes } from "node:crypto";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+
+/**
+ * Mock OAuth 2.0 provider the e2e tests sign in with, configured as the `oauth` provider of the app
+ * (`AUTH_OAUTH_*`). It implements the authorization code flow with PKCE and an OpenID Connect userinfo
+ * endpoint; the consent screen lets tests pick the email to sign in as, or deny the sign-in.
+ *
+ * Run it with `node tests/e2e/mock-oauth-server.ts`, Playwright starts it before the tests.
+ */
+
+export const MOCK_OAUTH_CLIENT_ID = "mock-client";
+export const MOCK_OAUTH_CLIENT_SECRET = "mock-client-secret";
+
+interface MockUser {
+  email: string;
+  name: string;
+}
+
+interface AuthorizationCode {
+  clientId: string;
+  codeChallenge: string;
+  redirectUri: string;
+  user: MockUser;
+}
+
+const html = (value: string) => value.replace(/[&<>"']/g, (character) => `&#${character.charCodeAt(0)};`);
+
+function send(response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  const json = typeof body !== "string";
+  response.writeHead(status, {
+    "Cache-Control": "no-store",
+    "Content-Type": json ? "application/json" : "text/html; charset=utf-8",
+    ...headers
+  });
+  response.end(json ? JSON.stringify(body) : body);
+}
+
+async function readForm(request: IncomingMessage) {
+  const chunks: Array<Buffer> = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+
+  return new URLSearchParams(Buffer.concat(chunks).toString());
+}
+
+function renderConsentScreen(params: URLSearchParams) {
+  const hiddenFields = [...params]
+    .map(([name, value]) => `<input type="hidden" name="${html(name)}" value="${html(value)}">`)
+    .join("");
+
+  return `<!doctype html>
+<html lang="en">
+  <head><title>Mock OAuth Provider</title></head>
+  <body>
+    <h1>Mock OAuth Provider</h1>
+    <form method="post" action="/authorize">
+      ${hiddenFields}
+      <label>Email <input name="email" type="email" value="oauth.user@example.com"></label>
+      <label>Name <input name="name" value="OAuth User"></label>
+      <button name="decision" value="approve" type="submit">Approve</button>
+      <button name="decision" value="deny" type="submit">Deny</button>
+    </form>
+  </body>
+</html>`;
+}
+
+/**
+ * Creates the mock provider's HTTP server, not listening yet.
+ */
+export function createMockOAuthServer() {
+  const codes = new Map<string, AuthorizationCode>();
+  const accessTokens = new Map<string, MockUser>();
+
+  return createServer(async (request, response) => {
+    const url = new URL(request.url ?? "/", "http://localhost");
+
+    if (request.method === "GET" && url.pathname === "/") {
+      return send(response, 200, { status: "ok" });
+    }
+
+    if (request.method === "GET" && url.pathname === "/authorize") {
+      const { searchParams } = url;
+      if (
+        searchParams.get("client_id") !== MOCK_OAUTH_CLIENT_ID ||
+        searchParams.get("response_type") !== "code" ||
+        searchParams.get("code_challenge_method") !== "S256" ||
+        !searchParams.get("code_challenge") ||
+        !searchParams.get("redirect_uri")
+      ) {
+        return send(response, 400, "<h1>Invalid authorization request</h1>");
+      }
+
+      return send(response, 200, renderConsentScreen(searchParams));
+    }
+
+    if (request.method === "POST" && url.pathname === "/authorize") {
+      const form = await readForm(request);
+      const redirectUrl = new URL(form.get("redirect_uri") ?? "");
+      redirectUrl.searchParams.set("state", form.get("state") ?? "");
+
+      if (form.get("decision") === "approve") {
+        const code = randomBytes(16).toString("base64url");
+        codes.set(code, {
+          clientId: form.get("client_id") ?? "",
+          codeChallenge: form.get("code_challenge") ?? "",
+          redirectUri: redirectUrl.origin + redirectUrl.pathname,
+          user: { email: form.get("email") ?? "", name: form.get("name") ?? "" }
+        });
+        redirectUrl.searchParams.set("code", code);
+      } else {
+        redirectUrl.searchParams.set("error", "access_denied");
+      }
+
+      return send(response, 302, "", { Location: redirectUrl.toString() });
+    }
+
+    if (request.method === "POST" && url.pathname === "/token") {
+      const form = await readForm(request);
+      const code = codes.get(form.get("code") ?? "");
+      // Codes are single-use
+      codes.delete(form.get("code") ?? "");
+
+      if (form.get("client_id") !== MOCK_OAUTH_CLIENT_ID || form.get("client_secret") !== MOCK_OAUTH_CLIENT_SECRET) {
+        return send(response, 401, { error: "invalid_client" });
+      }
+
+      const codeChallenge = createHash("sha256")
+        .update(form.get("code_verifier") ?? "")
+        .digest("base64url");
+      if (
+        form.get("grant_type") !== "authorization_code" ||
+        !code ||
+        code.clientId !== form.get("client_id") ||
+        code.redirectUri !== form.get("redirect_uri") ||
+        code.codeChallenge !== codeChallenge
+      ) {
+        return send(response, 400, { error: "invalid_grant" });
+      }
+
+      const accessToken = randomBytes(24).toString("base64url");
+      accessTokens.set(accessToken, code.user);
+
+      return send(response, 200, { access_token: accessToken, expires_in: 3600, token_type: "Bearer" });
+    }
+
+    if (request.method === "GET" && url.pathname === "/userinfo") {
+      const user = accessTokens.get(request.headers.authorization?.replace(/^Bearer /, "") ?? "");
+      if (!user) {
+        return send(response, 401, { error: "invalid_token" }, { "WWW-Authenticate": "Bearer" });
+      }
+
+      return send(response, 200, { email: user.email, name: user.name, sub: `mock|${user.email}` });
+    }
+
+    return send(response, 404, { error: "not_found" });
+  });
+}
+
+if (process.argv[1] === import.meta.filename) {
+  const port = Number(process.env.MOCK_OAUTH_PORT ?? 3999);
+  createMockOAuthServer().listen(port, "127.0.0.1", () => {
+    process.stdout.write(`Mock OAuth provider listening on http://127.0.0.1:${port}\n`);
+  });
+}
@@ -0,0 +1,87 @@
+import { expect, type Page, test } from "@playwright/test";
+
+/**
+ * Notes Example Tests
+ *
+ * Pages: app/notes/page.tsx, app/notes/[id]/page.tsx, app/notes/[id]/edit/page.tsx
+ * Feature: features/example-feature (note list, edit form, note actions and permissions)
+ */
+
+/**
+ * Signs in with the mock OAuth provider as a user of its own, so tests running in parallel do not share notes.
+ */
+async function signIn(page: Page, name: string) {
+  await page.goto("/sign-in?callbackUrl=%2Fnotes");
+  await page.getByRole("link", { name: "Continue with Mock Provider" }).click();
+  await page.getByLabel("Email").fill(`${name}.${test.info().project.name}.${Date.now()}@example.com`);
+  await page.getByRole("button", { name: "Approve" }).click();
+
+  await expect(page).toHaveURL("/notes");
+}
+
+test.describe("Notes", () => {
+  test("redirects anonymous visitors to the sign-in page", async ({ page }) => {
+    await page.goto("/notes");
+
+    await expect(page).toHaveURL("/sign-in?callbackUrl=%2Fnotes");
+  });
+
+  test("adds, edits and deletes a note", async ({ page }) => {
+    await signIn(page, "notes");
+    await expect(page.getByText("No notes yet, add your first one above.")).toBeVisible();
+
+    await page.getByLabel("Title").fill("Groceries");
+    await page.getByLabel("Content").fill("Milk, eggs and bread");
+    await page.getByRole("button", { name: "Add note" }).click();
+
+    const notes = page.getByRole("list", { name: "Notes" });
+    await expect(notes.getByRole("link", { name: "Groceries" })).toBeVisible();
+    await expect(page.getByLabel("Title")).toHaveValue("");
+
+    await notes.getByRole("link", { name: "Groceries" }).click();
+    await expect(page.getByRole("heading", { level: 1, name: "Groceries" })).toBeVisible();
+    await expect(page.getByTestId("note-content")).toHaveText("Milk, eggs and bread");
+
+    await page.getByRole("link", { name: "Edit" }).click();
+    await page.getByLabel("Title").fill("Weekly groceries");
+    await page.getByRole("button", { name: "Save" }).click();
+    await expect(page.getByRole("heading", { level: 1, name: "Weekly groceries" })).toBeVisible();
+
+    await page.getByRole("link", { name: "All notes" }).click();
+    await page.getByRole("button", { name: "Delete Weekly groceries" }).click();
+    await expect(notes).toBeHidden();
+
+    await page.reload();
+    await expect(page.getByText("No notes yet, add your first one above.")).toBeVisible();
+  });
+
+  test("validates notes before saving them", async ({ page }) => {
+    await signIn(page, "validation");
+
+    await page.getByRole("button", { name: "Add note" }).click();
+
+    await expect(page.getByText("Give the note a title")).toBeVisible();
+  });
+
+  test("keeps notes private to their author", async ({ browser, page }) => {
+    await signIn(page, "author");
+    await page.getByLabel("Title").fill("Private");
+    await page.getByRole("button", { name: "Add note" }).click();
+    await page.getByRole("link", { name: "Private" }).click();
+    await expect(page.getByRole("heading", { level: 1, name: "Private" })).toBeVisible();
+    const noteUrl = new URL(page.url()).pathname;
+
+    const otherContext = await browser.newContext();
+    const otherPage = await otherContext.newPage();
+    await signIn(otherPage, "reader");
+
+    for (const url of [noteUrl, `${noteUrl}/edit`]) {
+      const response = await otherPage.goto(url);
+      expect(response?.status()).toBe(404);
+    }
+    await otherPage.goto("/notes");
+    await expect(otherPage.getByText("No notes yet, add your first one above.")).toBeVisible();
+
+    await otherContext.close();
+  });
+});
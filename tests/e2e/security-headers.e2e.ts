@@ -0,0 +1,51 @@
+import { expect, test } from "@playwright/test";
+
+/**
+ * Security Headers Tests
+ *
+ * Proxy: proxy.ts, policy: lib/security-headers.ts
+ */
+
+test.describe("Security headers", () => {
+  test("sends a Content Security Policy with a new nonce on every response", async ({ request }) => {
+    const nonces = await Promise.all(
+      [1, 2].map(async () => {
+        const response = await request.get("/");
+        const policy = response.headers()["content-security-policy"] ?? "";
+
+        expect(policy).toContain("'strict-dynamic'");
+        expect(policy).toContain("frame-ancestors 'none'");
+        expect(policy).toContain("report-uri /api/csp-report");
+        return /'nonce-([^']+)'/.exec(policy)?.[1];
+      })
+    );
+
+    expect(nonces[0]).toBeTruthy();
+    expect(nonces[0]).not.toBe(nonces[1]);
+  });
+
+  test("hardens the browser", async ({ request }) => {
+    const headers = (await request.get("/")).headers();
+
+    expect(headers["x-content-type-options"]).toBe("nosniff");
+    expect(headers["x-frame-options"]).toBe("DENY");
+    expect(headers["referrer-policy"]).toBe("strict-origin-when-cross-origin");
+    expect(headers["permissions-policy"]).toContain("camera=()");
+  });
+
+  test("runs the page without violating the policy", async ({ page }) => {
+    const violations: Array<string> = [];
+    page.on("console", (message) => {
+      if (message.text().includes("Content Security Policy")) {
+        violations.push(message.text());
+      }
+    });
+
+    await page.goto("/");
+    await page.waitForLoadState("networkidle");
+
+    // Set by the inline script of next-themes, which only runs with the nonce
+    await expect(page.locator("html")).toHaveClass(/\b(light|dark)\b/);
+    expect(violations).toEqual([]);
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * The part of the API of `fengari`, Lua in JavaScript, the tests of the Redis scripts use. The package ships no types.
+ */
+declare module "fengari" {
+  type LuaState = { readonly __luaState: unique symbol };
+
+  export const lua: {
+    LUA_OK: number;
+    LUA_TNUMBER: number;
+    LUA_TTABLE: number;
+    lua_createtable(L: LuaState, arraySize: number, recordSize: number): void;
+    lua_error(L: LuaState): never;
+    lua_gettop(L: LuaState): number;
+    lua_pcall(L: LuaState, argCount: number, resultCount: number, handler: number): number;
+    lua_pop(L: LuaState, count: number): void;
+    lua_pushboolean(L: LuaState, value: boolean): void;
+    lua_pushjsfunction(L: LuaState, fn: (L: LuaState) => number): void;
+    lua_pushliteral(L: LuaState, value: string): void;
+    lua_pushnil(L: LuaState): void;
+    lua_pushnumber(L: LuaState, value: number): void;
+    lua_rawgeti(L: LuaState, index: number, n: number): number;
+    lua_rawlen(L: LuaState, index: number): number;
+    lua_rawseti(L: LuaState, index: number, n: number): void;
+    lua_setfield(L: LuaState, index: number, key: string): void;
+    lua_setglobal(L: LuaState, name: string): void;
+    lua_tojsstring(L: LuaState, index: number): string;
+    lua_tonumber(L: LuaState, index: number): number;
+    lua_type(L: LuaState, index: number): number;
+  };
+
+  export const lauxlib: {
+    luaL_loadstring(L: LuaState, source: Uint8Array): number;
+    luaL_newstate(): LuaState;
+  };
+
+  export const lualib: {
+    luaL_openlibs(L: LuaState): void;
+  };
+
+  export function to_luastring(value: string): Uint8Array;
+}
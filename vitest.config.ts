@@ -4,6 +4,8 @@ import { defineConfig } from "vitest/config";
 
 // Skip environment validation in tests
 process.env.SKIP_ENV_VALIDATION = "true";
+// Run tests against an embedded database in memory, never the one of `DATABASE_URL` (see `lib/db.ts`)
+process.env.DATABASE_URL = "pglite://memory";
 
 export default defineConfig({
   test: {